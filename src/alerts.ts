@@ -0,0 +1,413 @@
+// Alert rules evaluated against camera and backend state, with acknowledgement and snooze
+
+import { CameraCatalog, CameraInfo } from './camera.js';
+import { EventEmitter, Unsubscribe } from './events.js';
+
+const ALERT_CHECK_INTERVAL = 1000; // Evaluate rules every second
+const ALARM_INTERVAL = 2000; // Repeat the alarm tone while alerts are unhandled
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export type AlertRuleKind = 'camera-offline' | 'stream-stopped' | 'backend-disconnected' | 'low-fps' | 'loud-noise';
+
+export interface AlertRule {
+    id: string;
+    kind: AlertRuleKind;
+    enabled: boolean;
+    severity: AlertSeverity;
+    durationSeconds: number; // The condition must hold this long before the alert fires
+    minFps?: number; // Only used by low-fps rules
+}
+
+export interface AlertSettings {
+    rules: AlertRule[];
+    notifications: boolean; // Browser notifications, once the user granted permission
+    sound: boolean;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+    rules: [
+        { id: 'camera-offline', kind: 'camera-offline', enabled: true, severity: 'critical', durationSeconds: 30 },
+        { id: 'stream-stopped', kind: 'stream-stopped', enabled: true, severity: 'critical', durationSeconds: 15 },
+        { id: 'backend-disconnected', kind: 'backend-disconnected', enabled: true, severity: 'critical', durationSeconds: 30 },
+        { id: 'low-fps', kind: 'low-fps', enabled: false, severity: 'warning', durationSeconds: 30, minFps: 5 },
+        { id: 'loud-noise', kind: 'loud-noise', enabled: true, severity: 'warning', durationSeconds: 1 }
+    ],
+    notifications: false,
+    sound: false
+};
+
+export const ALERT_RULE_KINDS: AlertRuleKind[] = ['camera-offline', 'stream-stopped', 'backend-disconnected', 'low-fps', 'loud-noise'];
+
+export function describeRule(rule: AlertRule): string {
+    switch (rule.kind) {
+        case 'camera-offline':
+            return `Camera offline for ${rule.durationSeconds}s`;
+        case 'stream-stopped':
+            return `Stream stopped unexpectedly for ${rule.durationSeconds}s`;
+        case 'backend-disconnected':
+            return `Backend disconnected for ${rule.durationSeconds}s`;
+        case 'low-fps':
+            return `Frame rate below ${rule.minFps ?? 0} fps for ${rule.durationSeconds}s`;
+        case 'loud-noise':
+            return `Audio above the camera's loud noise threshold for ${rule.durationSeconds}s`;
+    }
+}
+
+export interface Alert {
+    key: string; // One alert per rule and camera
+    rule: AlertRule;
+    cameraId: string | null; // null for backend-wide alerts
+    backendId: string | null; // Set for backend-wide alerts
+    message: string;
+    raisedAt: Date;
+    acknowledged: boolean;
+    snoozedUntil: number | null; // Date.now() timestamp
+    cameraRemoved: boolean; // The camera went away while alerting; the alert stays until acknowledged
+}
+
+// `raised` also fires again when a snooze ends on an alert that is still active
+export interface AlertEvents {
+    raised: Alert;
+    resolved: Alert;
+    changed: Alert[];
+}
+
+interface RuleMatch {
+    cameraId: string | null;
+    backendId: string | null;
+    message: string;
+}
+
+function alertKey(ruleId: string, match: RuleMatch): string {
+    return `${ruleId}:${match.cameraId ?? `*${match.backendId ?? ''}`}`;
+}
+
+// An alert needs attention until it is acknowledged, except while snoozed
+export function isAlerting(alert: Alert, now: number = Date.now()): boolean {
+    return !alert.acknowledged && (alert.snoozedUntil === null || now >= alert.snoozedUntil);
+}
+
+export class AlertManager {
+    private catalog: CameraCatalog;
+    private getDisplayName: (cameraId: string) => string;
+    private settings: AlertSettings = DEFAULT_ALERT_SETTINGS;
+    private alerts: Map<string, Alert> = new Map();
+    private conditionSince: Map<string, number> = new Map();
+    private stoppedStreams: Set<string> = new Set(); // Streams the user stopped on purpose
+    private loudLevels: Map<string, number> = new Map(); // Cameras whose audio is above their threshold
+    private backends: Map<string, { label: string; connected: boolean }> = new Map();
+    private events: EventEmitter<AlertEvents> = new EventEmitter();
+
+    constructor(catalog: CameraCatalog, getDisplayName: (cameraId: string) => string) {
+        this.catalog = catalog;
+        this.getDisplayName = getDisplayName;
+
+        catalog.on('removed', camera => this.clearCamera(camera.id));
+        setInterval(() => this.evaluate(), ALERT_CHECK_INTERVAL);
+    }
+
+    public getSettings(): AlertSettings {
+        return this.settings;
+    }
+
+    // Alerts of disabled or removed rules are dropped
+    public setSettings(settings: AlertSettings): void {
+        this.settings = settings;
+        const enabled = new Map(settings.rules.filter(rule => rule.enabled).map(rule => [rule.id, rule]));
+
+        this.alerts.forEach(alert => {
+            const rule = enabled.get(alert.rule.id);
+            if (rule) {
+                alert.rule = rule;
+            } else {
+                this.resolve(alert);
+            }
+        });
+        this.events.emit('changed', this.getAlerts());
+    }
+
+    // A backend counts as disconnected until its first connection
+    public setBackendConnected(backendId: string, label: string, connected: boolean): void {
+        this.backends.set(backendId, { label, connected });
+    }
+
+    // The backend was removed from the list; its alert resolves with the next check
+    public removeBackend(backendId: string): void {
+        this.backends.delete(backendId);
+    }
+
+    // Record whether the user asked for a camera's stream to stop, so it does not raise stream-stopped
+    public setStreamStopRequested(cameraId: string, stopped: boolean): void {
+        if (stopped) {
+            this.stoppedStreams.add(cameraId);
+        } else {
+            this.stoppedStreams.delete(cameraId);
+        }
+    }
+
+    // Reported by the audio monitor; null once the camera is quiet again
+    public setLoudNoise(cameraId: string, level: number | null): void {
+        if (level !== null) {
+            this.loudLevels.set(cameraId, level);
+        } else {
+            this.loudLevels.delete(cameraId);
+        }
+    }
+
+    // Active alerts, most severe and then newest first
+    public getAlerts(): Alert[] {
+        const rank: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 };
+        return Array.from(this.alerts.values()).sort((a, b) =>
+            rank[a.rule.severity] - rank[b.rule.severity] || b.raisedAt.getTime() - a.raisedAt.getTime());
+    }
+
+    public getAlertingCount(): number {
+        return this.getAlerts().filter(alert => isAlerting(alert)).length;
+    }
+
+    public acknowledge(key: string): void {
+        const alert = this.alerts.get(key);
+        if (!alert || alert.acknowledged) return;
+
+        alert.acknowledged = true;
+        console.log(`Alert acknowledged: ${alert.message}`);
+        this.events.emit('changed', this.getAlerts());
+    }
+
+    public acknowledgeAll(): void {
+        this.alerts.forEach(alert => { alert.acknowledged = true; });
+        this.events.emit('changed', this.getAlerts());
+    }
+
+    public snooze(key: string, minutes: number): void {
+        const alert = this.alerts.get(key);
+        if (!alert) return;
+
+        alert.snoozedUntil = Date.now() + minutes * 60000;
+        console.log(`Alert snoozed for ${minutes} min: ${alert.message}`);
+        this.events.emit('changed', this.getAlerts());
+    }
+
+    public on<K extends keyof AlertEvents>(event: K, listener: (payload: AlertEvents[K]) => void): Unsubscribe {
+        return this.events.on(event, listener);
+    }
+
+    private evaluate(): void {
+        const now = Date.now();
+        const matched = new Set<string>();
+        let changed = false;
+
+        this.settings.rules.filter(rule => rule.enabled).forEach(rule => {
+            this.matchRule(rule).forEach(match => {
+                const key = alertKey(rule.id, match);
+                matched.add(key);
+
+                const since = this.conditionSince.get(key) ?? now;
+                this.conditionSince.set(key, since);
+                if (!this.alerts.has(key) && now - since >= rule.durationSeconds * 1000) {
+                    this.raise({
+                        key,
+                        rule,
+                        cameraId: match.cameraId,
+                        backendId: match.backendId,
+                        message: match.message,
+                        raisedAt: new Date(),
+                        acknowledged: false,
+                        snoozedUntil: null,
+                        cameraRemoved: false
+                    });
+                    changed = true;
+                }
+            });
+        });
+
+        // Conditions that no longer hold reset their timer and resolve their alert;
+        // alerts of removed cameras resolve once acknowledged
+        Array.from(this.conditionSince.keys()).forEach(key => {
+            if (!matched.has(key)) this.conditionSince.delete(key);
+        });
+        this.alerts.forEach(alert => {
+            if (alert.cameraRemoved && alert.cameraId !== null && this.catalog.hasCamera(alert.cameraId)) {
+                // Back again: the alert follows the camera's state as usual
+                alert.cameraRemoved = false;
+                changed = true;
+            }
+            if (alert.cameraRemoved ? alert.acknowledged : !matched.has(alert.key)) {
+                this.resolve(alert);
+                changed = true;
+            } else if (alert.snoozedUntil !== null && now >= alert.snoozedUntil) {
+                alert.snoozedUntil = null;
+                changed = true;
+                if (!alert.acknowledged) {
+                    console.warn(`Snooze ended, alert still active: ${alert.message}`);
+                    this.events.emit('raised', alert);
+                }
+            }
+        });
+
+        if (changed) {
+            this.events.emit('changed', this.getAlerts());
+        }
+    }
+
+    private matchRule(rule: AlertRule): RuleMatch[] {
+        if (rule.kind === 'backend-disconnected') {
+            return Array.from(this.backends.entries())
+                .filter(([, backend]) => !backend.connected)
+                .map(([backendId, backend]) => ({
+                    cameraId: null,
+                    backendId,
+                    message: this.backends.size > 1 ? `Backend ${backend.label} disconnected` : 'Backend disconnected'
+                }));
+        }
+
+        // Camera state is stale while its backend is away; the backend rule covers it
+        return this.catalog.getAllCameras()
+            .filter(camera => this.backends.get(camera.backendId)?.connected === true)
+            .filter(camera => this.matchesCamera(rule, camera))
+            .map(camera => ({ cameraId: camera.id, backendId: null, message: this.describeMatch(rule, camera) }));
+    }
+
+    private matchesCamera(rule: AlertRule, camera: CameraInfo): boolean {
+        const streaming = camera.status === 'Connected' && camera.frameCount > 0 && !this.stoppedStreams.has(camera.id);
+        switch (rule.kind) {
+            case 'camera-offline':
+                return camera.status === 'Disconnected' || camera.status === 'Error';
+            case 'stream-stopped':
+                return streaming && camera.inactive;
+            case 'low-fps':
+                return streaming && !camera.inactive && camera.metrics.fps < (rule.minFps ?? 0);
+            case 'loud-noise':
+                return this.loudLevels.has(camera.id);
+            case 'backend-disconnected':
+                return false;
+        }
+    }
+
+    private describeMatch(rule: AlertRule, camera: CameraInfo): string {
+        const name = this.getDisplayName(camera.id);
+        switch (rule.kind) {
+            case 'camera-offline':
+                return `${name} is offline (${camera.status})`;
+            case 'stream-stopped':
+                return `${name} stopped streaming`;
+            case 'low-fps':
+                return `${name} frame rate is ${camera.metrics.fps.toFixed(1)} fps`;
+            case 'loud-noise':
+                return `Loud noise on ${name} (level ${Math.round(this.loudLevels.get(camera.id) ?? 0)})`;
+            case 'backend-disconnected':
+                return 'Backend disconnected';
+        }
+    }
+
+    private raise(alert: Alert): void {
+        this.alerts.set(alert.key, alert);
+        console.warn(`Alert raised (${alert.rule.severity}): ${alert.message}`);
+        this.events.emit('raised', alert);
+    }
+
+    private resolve(alert: Alert): void {
+        this.alerts.delete(alert.key);
+        console.log(`Alert resolved: ${alert.message}`);
+        this.events.emit('resolved', alert);
+    }
+
+    private clearCamera(cameraId: string): void {
+        this.stoppedStreams.delete(cameraId);
+        this.loudLevels.delete(cameraId);
+        Array.from(this.conditionSince.keys())
+            .filter(key => key.endsWith(`:${cameraId}`))
+            .forEach(key => this.conditionSince.delete(key));
+
+        // A camera the backend dropped may be exactly what the user must know about,
+        // so its open alerts are kept for the user to acknowledge
+        let changed = false;
+        this.alerts.forEach(alert => {
+            if (alert.cameraId !== cameraId) return;
+            if (alert.acknowledged) {
+                this.resolve(alert);
+            } else {
+                alert.cameraRemoved = true;
+                console.warn(`Camera removed with an open alert: ${alert.message}`);
+            }
+            changed = true;
+        });
+        if (changed) {
+            this.events.emit('changed', this.getAlerts());
+        }
+    }
+}
+
+// Browser notifications and the audible alarm for raised alerts
+export class AlertNotifier {
+    private manager: AlertManager;
+    private audioContext: AudioContext | null = null;
+
+    constructor(manager: AlertManager) {
+        this.manager = manager;
+        manager.on('raised', alert => this.notify(alert));
+        setInterval(() => this.soundAlarm(), ALARM_INTERVAL);
+
+        // Browsers only allow audio after a user gesture
+        document.addEventListener('click', () => {
+            if (typeof AudioContext === 'undefined') return;
+            this.audioContext ??= new AudioContext();
+            this.audioContext.resume();
+        });
+    }
+
+    public static isNotificationSupported(): boolean {
+        return typeof Notification !== 'undefined';
+    }
+
+    public static requestNotificationPermission(): Promise<boolean> {
+        if (!AlertNotifier.isNotificationSupported()) {
+            return Promise.resolve(false);
+        }
+        return Notification.requestPermission().then(permission => permission === 'granted');
+    }
+
+    private notify(alert: Alert): void {
+        if (!this.manager.getSettings().notifications || alert.rule.severity === 'info' ||
+            !AlertNotifier.isNotificationSupported() || Notification.permission !== 'granted') {
+            return;
+        }
+
+        const notification = new Notification('NestRest alert', {
+            body: alert.message,
+            tag: alert.key, // Replaces an earlier notification for the same alert
+            requireInteraction: alert.rule.severity === 'critical'
+        });
+        notification.onclick = () => {
+            window.focus();
+            notification.close();
+        };
+    }
+
+    // Beep while any warning or critical alert is unacknowledged and not snoozed
+    private soundAlarm(): void {
+        if (!this.manager.getSettings().sound) return;
+
+        const alerting = this.manager.getAlerts().filter(alert => isAlerting(alert) && alert.rule.severity !== 'info');
+        if (alerting.length === 0) return;
+
+        const critical = alerting.some(alert => alert.rule.severity === 'critical');
+        this.beep(critical ? 880 : 660, critical ? 3 : 1);
+    }
+
+    private beep(frequency: number, count: number): void {
+        if (!this.audioContext || this.audioContext.state !== 'running') return;
+
+        const start = this.audioContext.currentTime;
+        for (let i = 0; i < count; i++) {
+            const oscillator = this.audioContext.createOscillator();
+            const gain = this.audioContext.createGain();
+            oscillator.frequency.value = frequency;
+            gain.gain.value = 0.2;
+            oscillator.connect(gain).connect(this.audioContext.destination);
+            oscillator.start(start + i * 0.3);
+            oscillator.stop(start + i * 0.3 + 0.15);
+        }
+    }
+}
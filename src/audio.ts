@@ -0,0 +1,284 @@
+// Camera audio: the tagged PCM stream played through Web Audio with a level
+// meter and loud-noise detection, and push-to-talk from the microphone
+
+import { CameraCatalog } from './camera.js';
+import { CommandChannel, commandTarget } from './commands.js';
+import { AudioChunk, CommandKind, FrameCodec, TalkAction, encodeAudioChunk, encodeBinaryFrame } from './messages.js';
+
+const PLAYBACK_LATENCY = 0.15; // Seconds of audio queued ahead to absorb network jitter
+const MAX_PLAYBACK_LAG = 0.6; // Drop queued audio when playback falls further behind
+const LEVEL_FLOOR_DB = -60; // Level 0; level 100 is full scale
+const LOUD_RELEASE = 1500; // ms; a camera stays loud this long after the last loud chunk
+const TALK_SAMPLE_RATE = 16000;
+
+export interface AudioSettings {
+    muted: boolean;
+    volume: number; // 0-1
+    loudThreshold: number; // Level 0-100 at which the camera counts as loud
+}
+
+// Muted by default; the level meter and the loud-noise alert work either way
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { muted: true, volume: 0.8, loudThreshold: 80 };
+
+// Loudness of a chunk on a 0-100 scale, from its RMS level in dBFS
+export function audioLevel(samples: Float32Array): number {
+    if (samples.length === 0) return 0;
+
+    const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+    const db = rms > 0 ? 20 * Math.log10(rms) : LEVEL_FLOOR_DB;
+    return Math.max(0, Math.min(100, (1 - db / LEVEL_FLOOR_DB) * 100));
+}
+
+interface AudioChannel {
+    settings: AudioSettings;
+    gain: GainNode | null;
+    nextPlayTime: number; // AudioContext time the next chunk starts at
+    loudTimer: number | null; // Runs while the camera is loud
+}
+
+export class AudioMonitor {
+    private context: AudioContext | null = null;
+    private channels: Map<string, AudioChannel> = new Map();
+    private onLevelCallback: ((cameraId: string, level: number) => void) | null = null;
+    private onLoudChangedCallback: ((cameraId: string, level: number | null) => void) | null = null;
+
+    constructor() {
+        // Browsers only allow audio after a user gesture, e.g. the click that unmutes a card
+        document.addEventListener('click', () => {
+            if (typeof AudioContext === 'undefined') return;
+            this.context ??= new AudioContext();
+            this.context.resume();
+        });
+    }
+
+    public setSettings(cameraId: string, settings: AudioSettings): void {
+        const channel = this.getChannel(cameraId);
+        channel.settings = settings;
+        if (channel.gain) {
+            channel.gain.gain.value = settings.muted ? 0 : settings.volume;
+        }
+    }
+
+    public handleChunk(cameraId: string, chunk: AudioChunk): void {
+        const channel = this.getChannel(cameraId);
+        const level = audioLevel(chunk.samples);
+        if (this.onLevelCallback) {
+            this.onLevelCallback(cameraId, level);
+        }
+        if (level >= channel.settings.loudThreshold) {
+            this.markLoud(cameraId, channel, level);
+        }
+
+        if (!channel.settings.muted) {
+            this.play(channel, chunk);
+        }
+    }
+
+    public removeCamera(cameraId: string): void {
+        const channel = this.channels.get(cameraId);
+        if (!channel) return;
+
+        if (channel.loudTimer !== null) clearTimeout(channel.loudTimer);
+        channel.gain?.disconnect();
+        this.channels.delete(cameraId);
+    }
+
+    // Called for every received chunk, muted or not
+    public onLevel(callback: (cameraId: string, level: number) => void): void {
+        this.onLevelCallback = callback;
+    }
+
+    // The level that crossed the threshold, or null once the camera is quiet again
+    public onLoudChanged(callback: (cameraId: string, level: number | null) => void): void {
+        this.onLoudChangedCallback = callback;
+    }
+
+    private getChannel(cameraId: string): AudioChannel {
+        let channel = this.channels.get(cameraId);
+        if (!channel) {
+            channel = { settings: DEFAULT_AUDIO_SETTINGS, gain: null, nextPlayTime: 0, loudTimer: null };
+            this.channels.set(cameraId, channel);
+        }
+        return channel;
+    }
+
+    private markLoud(cameraId: string, channel: AudioChannel, level: number): void {
+        const wasLoud = channel.loudTimer !== null;
+        if (channel.loudTimer !== null) clearTimeout(channel.loudTimer);
+        channel.loudTimer = window.setTimeout(() => {
+            channel.loudTimer = null;
+            if (this.onLoudChangedCallback) {
+                this.onLoudChangedCallback(cameraId, null);
+            }
+        }, LOUD_RELEASE);
+
+        if (!wasLoud) {
+            console.log(`Loud noise on ${cameraId} (level ${Math.round(level)})`);
+        }
+        if (this.onLoudChangedCallback) {
+            this.onLoudChangedCallback(cameraId, level);
+        }
+    }
+
+    // Chunks are queued back to back, a little ahead of the current time
+    private play(channel: AudioChannel, chunk: AudioChunk): void {
+        const context = this.context;
+        if (!context || context.state !== 'running' || chunk.samples.length === 0) return;
+
+        if (!channel.gain) {
+            channel.gain = context.createGain();
+            channel.gain.gain.value = channel.settings.volume;
+            channel.gain.connect(context.destination);
+        }
+
+        const buffer = context.createBuffer(1, chunk.samples.length, chunk.sampleRate);
+        buffer.copyToChannel(chunk.samples, 0);
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.connect(channel.gain);
+
+        const now = context.currentTime;
+        if (channel.nextPlayTime < now || channel.nextPlayTime - now > MAX_PLAYBACK_LAG) {
+            channel.nextPlayTime = now + PLAYBACK_LATENCY;
+        }
+        source.start(channel.nextPlayTime);
+        channel.nextPlayTime += buffer.duration;
+    }
+}
+
+interface TalkSession {
+    cameraId: string;
+    deviceId: string; // Addresses the audio frames, see CameraInfo.deviceId
+    stopped: boolean; // Released before the microphone was ready
+    speakerOpen: boolean; // The backend accepted Start and waits for a Stop
+    stream: MediaStream | null;
+    context: AudioContext | null;
+    sequence: number;
+}
+
+// Sends the microphone to one camera at a time while the talk button is held
+export class PushToTalk {
+    private catalog: CameraCatalog;
+    private commandChannel: CommandChannel;
+    private sendBinary: (cameraId: string, data: ArrayBuffer) => boolean;
+    private session: TalkSession | null = null;
+    private onTalkChangedCallback: ((cameraId: string, talking: boolean, error: string | null) => void) | null = null;
+
+    constructor(catalog: CameraCatalog, commandChannel: CommandChannel, sendBinary: (cameraId: string, data: ArrayBuffer) => boolean) {
+        this.catalog = catalog;
+        this.commandChannel = commandChannel;
+        this.sendBinary = sendBinary;
+    }
+
+    public static isSupported(): boolean {
+        return typeof AudioWorkletNode !== 'undefined' && navigator.mediaDevices?.getUserMedia !== undefined;
+    }
+
+    public start(cameraId: string): void {
+        const camera = this.catalog.getCamera(cameraId);
+        if (!camera || this.session) return;
+
+        const session: TalkSession = { cameraId, deviceId: camera.deviceId, stopped: false, speakerOpen: false, stream: null, context: null, sequence: 0 };
+        this.session = session;
+
+        // Ask for the microphone first: the backend should not open the speaker for nothing
+        navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+            .then(stream => {
+                session.stream = stream;
+                if (session.stopped) throw new Error('released');
+                return this.commandChannel.sendCommand(CommandKind.Talk, {
+                    ...commandTarget(camera),
+                    action: TalkAction.Start,
+                    sample_rate: TALK_SAMPLE_RATE
+                });
+            })
+            .then(result => {
+                if (!result.ok) throw new Error(result.message);
+                session.speakerOpen = true;
+                // Released while Start was in flight: the catch below closes the speaker again
+                if (session.stopped) throw new Error('released');
+                return this.startCapture(session);
+            })
+            .then(() => {
+                if (session.stopped) return; // stop() has cleaned up
+                console.log(`Talking to ${cameraId}`);
+                this.notify(cameraId, true, null);
+            })
+            .catch((error: Error) => {
+                const released = session.stopped;
+                this.closeSpeaker(session);
+                this.release(session);
+                if (!released) {
+                    console.error(`Push-to-talk to ${cameraId} failed:`, error);
+                    this.notify(cameraId, false, error.message);
+                }
+            });
+    }
+
+    public stop(cameraId: string): void {
+        const session = this.session;
+        if (!session || session.cameraId !== cameraId || session.stopped) return;
+
+        session.stopped = true;
+        // Still starting: the start chain cleans up once it notices
+        if (!session.context) return;
+
+        this.closeSpeaker(session);
+        this.release(session);
+        console.log(`Stopped talking to ${cameraId}`);
+        this.notify(cameraId, false, null);
+    }
+
+    public isTalking(cameraId: string): boolean {
+        return this.session !== null && this.session.cameraId === cameraId && !this.session.stopped;
+    }
+
+    public onTalkChanged(callback: (cameraId: string, talking: boolean, error: string | null) => void): void {
+        this.onTalkChangedCallback = callback;
+    }
+
+    // The worklet posts the microphone in 100 ms chunks
+    private startCapture(session: TalkSession): Promise<void> {
+        const context = new AudioContext({ sampleRate: TALK_SAMPLE_RATE });
+        session.context = context;
+
+        return context.audioWorklet.addModule(new URL('./talk-worklet.js', import.meta.url)).then(() => {
+            const source = context.createMediaStreamSource(session.stream!);
+            const capture = new AudioWorkletNode(context, 'talk-capture', {
+                processorOptions: { chunkSamples: context.sampleRate / 10 }
+            });
+            capture.port.onmessage = (event: MessageEvent<Float32Array<ArrayBuffer>>) => {
+                if (session.stopped) return;
+                const payload = encodeAudioChunk({ sampleRate: context.sampleRate, samples: event.data });
+                const frame = encodeBinaryFrame(session.deviceId, session.sequence++, new Date(), FrameCodec.Pcm16, payload);
+                this.sendBinary(session.cameraId, frame);
+            };
+            // The capture node outputs silence; it only runs while connected to the destination
+            source.connect(capture).connect(context.destination);
+        });
+    }
+
+    private closeSpeaker(session: TalkSession): void {
+        if (!session.speakerOpen) return;
+
+        session.speakerOpen = false;
+        const camera = this.catalog.getCamera(session.cameraId);
+        if (camera) {
+            this.commandChannel.sendCommand(CommandKind.Talk, { ...commandTarget(camera), action: TalkAction.Stop });
+        }
+    }
+
+    private release(session: TalkSession): void {
+        session.stream?.getTracks().forEach(track => track.stop());
+        session.context?.close();
+        if (this.session === session) {
+            this.session = null;
+        }
+    }
+
+    private notify(cameraId: string, talking: boolean, error: string | null): void {
+        if (this.onTalkChangedCallback) {
+            this.onTalkChangedCallback(cameraId, talking, error);
+        }
+    }
+}
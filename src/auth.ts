@@ -0,0 +1,186 @@
+// Authentication with the backend: the handshake on every connection, token refresh
+// and the role that decides which controls the dashboard offers
+
+import { AUTH_MESSAGE_KIND, AuthMessage, AuthOkPayload, AuthPayload, AuthRole } from './messages.js';
+
+// Kept for the browser tab only, per backend; a new tab signs in again
+const STORAGE_KEY_PREFIX = 'nestrest.auth.';
+const REFRESH_AT = 0.8; // Refresh once this share of the token lifetime has passed
+const MIN_REFRESH_DELAY = 5000; // ms
+
+interface AuthSession {
+    token: string;
+    role: AuthRole;
+    expiresAt: number; // ms since the Unix epoch
+}
+
+export interface LoginCredentials {
+    username: string;
+    password: string;
+    viewer: boolean; // Ask for the read-only role
+}
+
+export class AuthManager {
+    private storageKey: string;
+    private session: AuthSession | null;
+    private credentials: LoginCredentials | null = null;
+    private attempt: 'credentials' | 'token' | null = null; // What the current connection authenticated with
+    private send: ((message: AuthMessage) => boolean) | null = null;
+    private refreshTimer: number | null = null;
+    private onSessionChangedCallback: ((role: AuthRole | null) => void) | null = null;
+    private onLoginRequiredCallback: ((message: string | null) => void) | null = null;
+
+    constructor(backendId: string) {
+        this.storageKey = STORAGE_KEY_PREFIX + backendId;
+        this.session = this.load();
+    }
+
+    // Credentials from the login form, sent on the next connection only
+    public setCredentials(credentials: LoginCredentials): void {
+        this.credentials = credentials;
+    }
+
+    // Called when a connection opens. Sends nothing without credentials or a token:
+    // backends without authentication need none, the others close the connection.
+    public handshake(send: (message: AuthMessage) => boolean): void {
+        this.send = send;
+        this.attempt = null;
+
+        let payload: AuthPayload | null = null;
+        if (this.credentials) {
+            const { username, password, viewer } = this.credentials;
+            payload = viewer ? { username, password, role: 'viewer' } : { username, password };
+            this.credentials = null;
+            this.attempt = 'credentials';
+        } else if (this.session && this.session.expiresAt <= Date.now()) {
+            // Expired while disconnected: the backend will ask for a login
+            this.clearSession();
+            this.attempt = 'token';
+        } else if (this.session) {
+            payload = { token: this.session.token };
+            this.attempt = 'token';
+        }
+
+        if (payload) {
+            send({ kind: AUTH_MESSAGE_KIND, payload });
+        }
+    }
+
+    public handleAuthOk(payload: AuthOkPayload): void {
+        this.session = { token: payload.token, role: payload.role, expiresAt: Date.now() + payload.expires_in * 1000 };
+        this.save();
+        this.scheduleRefresh(payload.expires_in * 1000);
+        console.log(`Authenticated as ${payload.role}, token expires in ${payload.expires_in}s`);
+        this.notifySession();
+    }
+
+    // The backend closed the connection with AUTH_FAILURE_CLOSE_CODE
+    public handleAuthFailure(): void {
+        const message = this.attempt === 'credentials' ? 'Wrong username or password'
+            : this.attempt === 'token' ? 'Your session has expired, please sign in again'
+            : 'The backend requires you to sign in';
+        console.warn(`Authentication failed: ${message}`);
+
+        this.clearSession();
+        if (this.onLoginRequiredCallback) {
+            this.onLoginRequiredCallback(message);
+        }
+    }
+
+    public connectionClosed(): void {
+        this.send = null;
+        this.clearRefreshTimer();
+    }
+
+    public logout(): void {
+        console.log('Signing out');
+        this.clearSession();
+        if (this.onLoginRequiredCallback) {
+            this.onLoginRequiredCallback(null);
+        }
+    }
+
+    public isSignedIn(): boolean {
+        return this.session !== null;
+    }
+
+    // Backends without authentication give full control
+    public getRole(): AuthRole {
+        return this.session?.role ?? 'operator';
+    }
+
+    // Called with the role after every sign-in and token refresh, and with null after a sign-out
+    public onSessionChanged(callback: (role: AuthRole | null) => void): void {
+        this.onSessionChangedCallback = callback;
+    }
+
+    // `message` says why, or is null when the user signed out
+    public onLoginRequired(callback: (message: string | null) => void): void {
+        this.onLoginRequiredCallback = callback;
+    }
+
+    // Trade the token for a new one well before it expires; the reply is another AuthOk
+    private scheduleRefresh(lifetimeMs: number): void {
+        this.clearRefreshTimer();
+        this.refreshTimer = window.setTimeout(() => {
+            this.refreshTimer = null;
+            if (!this.session || !this.send) return;
+
+            console.log('Refreshing auth token');
+            this.attempt = 'token';
+            this.send({ kind: AUTH_MESSAGE_KIND, payload: { token: this.session.token } });
+        }, Math.max(MIN_REFRESH_DELAY, lifetimeMs * REFRESH_AT));
+    }
+
+    private clearRefreshTimer(): void {
+        if (this.refreshTimer !== null) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+    }
+
+    private clearSession(): void {
+        this.session = null;
+        this.credentials = null;
+        this.clearRefreshTimer();
+        this.save();
+        this.notifySession();
+    }
+
+    private notifySession(): void {
+        if (this.onSessionChangedCallback) {
+            this.onSessionChangedCallback(this.session?.role ?? null);
+        }
+    }
+
+    private load(): AuthSession | null {
+        try {
+            const stored = sessionStorage.getItem(this.storageKey);
+            if (!stored) return null;
+
+            const session: unknown = JSON.parse(stored);
+            if (typeof session === 'object' && session !== null &&
+                typeof (session as AuthSession).token === 'string' &&
+                ((session as AuthSession).role === 'operator' || (session as AuthSession).role === 'viewer') &&
+                typeof (session as AuthSession).expiresAt === 'number') {
+                return session as AuthSession;
+            }
+            console.error('Ignoring invalid stored auth session');
+        } catch (error) {
+            console.warn('Auth storage is not available:', error);
+        }
+        return null;
+    }
+
+    private save(): void {
+        try {
+            if (this.session) {
+                sessionStorage.setItem(this.storageKey, JSON.stringify(this.session));
+            } else {
+                sessionStorage.removeItem(this.storageKey);
+            }
+        } catch (error) {
+            console.error('Failed to save auth session:', error);
+        }
+    }
+}
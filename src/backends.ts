@@ -0,0 +1,379 @@
+// Several NestRest backends (hubs) at once: their configuration, the connection to
+// each with its own reconnect policy and login, and the camera IDs that keep
+// devices of different backends apart
+
+import { AuthManager } from './auth.js';
+import { AUTH_FAILURE_CLOSE_CODE, AnyWsMessage, WsMessageKind, deviceIdOf } from './messages.js';
+import { DEFAULT_BACKEND_URL, Transport, TransportConnection } from './transport.js';
+
+const RECONNECT_BASE_DELAY = 1000; // 1 second
+
+// The first backend. Its cameras keep their plain device IDs (see cameraIdOf), so settings saved
+// before there were several backends still apply.
+export const PRIMARY_BACKEND_ID = 'default';
+
+// Backend URLs with this prefix run the built-in simulator, e.g. "simulate:flapping"
+export const SIMULATOR_URL_PREFIX = 'simulate:';
+
+// Separates the backend ID from the device ID in the camera IDs of other backends
+const CAMERA_ID_SEPARATOR = '/';
+
+export interface BackendConfig {
+    id: string; // Lowercase letters, digits and dashes; part of the camera IDs
+    label: string;
+    url: string;
+    maxReconnectAttempts: number; // Give up after this many failed attempts in a row
+    maxReconnectDelayMs: number; // Upper bound of the exponential backoff
+}
+
+export const DEFAULT_BACKEND: BackendConfig = {
+    id: PRIMARY_BACKEND_ID,
+    label: 'Home',
+    url: DEFAULT_BACKEND_URL,
+    maxReconnectAttempts: 10,
+    maxReconnectDelayMs: 30000
+};
+
+// connecting:   first attempt, or an attempt started by hand
+// reconnecting: waiting for the next attempt
+// failed:       gave up after maxReconnectAttempts
+// incompatible: the backend speaks no protocol version we do
+// unauthorized: waiting for the user to sign in
+// paused:       disconnected on purpose, e.g. during capture playback
+export type BackendState = 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'incompatible' | 'unauthorized' | 'paused';
+
+export function isValidBackendId(id: string): boolean {
+    return /^[a-z0-9-]+$/.test(id);
+}
+
+export function isValidBackendUrl(url: string): boolean {
+    if (url.startsWith(SIMULATOR_URL_PREFIX)) return true;
+    try {
+        const protocol = new URL(url).protocol;
+        return protocol === 'ws:' || protocol === 'wss:';
+    } catch {
+        return false;
+    }
+}
+
+// A new backend ID derived from its label, e.g. "Lake House" -> "lake-house"
+export function createBackendId(label: string, existing: string[]): string {
+    const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'backend';
+    let id = base;
+    for (let n = 2; existing.includes(id); n++) {
+        id = `${base}-${n}`;
+    }
+    return id;
+}
+
+// Catalog key of a device: the device ID for the primary backend, "<backend>/<device>" for the others.
+// '%' and '/' in the device ID are escaped, so a primary device called "nursery/cam1" cannot pass
+// for device "cam1" of backend "nursery". Device IDs without them are kept as they are.
+export function cameraIdOf(backendId: string, deviceId: string): string {
+    const escaped = deviceId.replace(/%/g, '%25').replace(/\//g, '%2F');
+    return backendId === PRIMARY_BACKEND_ID ? escaped : `${backendId}${CAMERA_ID_SEPARATOR}${escaped}`;
+}
+
+export function parseCameraId(cameraId: string): { backendId: string; deviceId: string } {
+    const index = cameraId.indexOf(CAMERA_ID_SEPARATOR);
+    const backendId = index < 0 ? PRIMARY_BACKEND_ID : cameraId.slice(0, index);
+    const deviceId = cameraId.slice(index + 1).replace(/%2F/g, '/').replace(/%25/g, '%');
+    return { backendId, deviceId };
+}
+
+// Rewrite the address of an inbound payload to the catalog's camera ID
+export function qualifyTarget<T extends { ip: string; device_id?: string }>(payload: T, backendId: string): T {
+    const deviceId = deviceIdOf(payload);
+    const cameraId = cameraIdOf(backendId, deviceId);
+    return cameraId === deviceId ? payload : { ...payload, device_id: cameraId };
+}
+
+// Undo qualifyTarget for an outbound payload. The device ID is left out when it
+// equals the IP, like commandTarget does.
+export function localizeTarget<T extends { ip: string; device_id?: string }>(payload: T): { backendId: string; payload: T } {
+    const { backendId, deviceId } = parseCameraId(deviceIdOf(payload));
+    const { device_id, ...rest } = payload;
+    return { backendId, payload: (deviceId !== payload.ip ? { ...rest, device_id: deviceId } : rest) as T };
+}
+
+// Qualify every device address in a message from the given backend
+export function qualifyMessage(message: AnyWsMessage, backendId: string): AnyWsMessage {
+    if (message.kind === WsMessageKind.Init) {
+        const devices = message.payload.devices;
+        return devices
+            ? { ...message, payload: { ...message.payload, devices: devices.map(device => qualifyTarget(device, backendId)) } }
+            : message;
+    }
+    if ('ip' in message.payload) {
+        return { ...message, payload: qualifyTarget(message.payload, backendId) } as AnyWsMessage;
+    }
+    return message;
+}
+
+// One backend's connection: reconnects with exponential backoff, authenticates each
+// connection and stops reconnecting when the backend is incompatible or wants a login
+export class BackendConnection {
+    private config: BackendConfig;
+    private transport: Transport;
+    private connection: TransportConnection | null = null;
+    private auth: AuthManager;
+    private state: BackendState = 'paused';
+    private protocolVersion: number | null = null;
+    private protocolRejected: boolean = false;
+    private loginRequired: boolean = false; // Not reconnecting until the user signs in
+    private reconnectAttempts: number = 0;
+    private reconnectTimer: number | null = null;
+    private countdownTimer: number | null = null;
+    private onlineListener: () => void;
+    private onStateChangedCallback: ((state: BackendState, retryInSeconds: number) => void) | null = null;
+    private onOpenCallback: (() => void) | null = null;
+    private onMessageCallback: ((data: string | ArrayBuffer) => void) | null = null;
+    private onDisconnectedCallback: ((code: number | null) => void) | null = null;
+
+    constructor(config: BackendConfig, transport: Transport) {
+        this.config = config;
+        this.transport = transport;
+        this.auth = new AuthManager(config.id);
+
+        // Retry straight away when the browser regains network connectivity
+        this.onlineListener = () => {
+            if (this.reconnectTimer !== null || this.state === 'failed') {
+                this.retryNow();
+            }
+        };
+        window.addEventListener('online', this.onlineListener);
+    }
+
+    public getId(): string {
+        return this.config.id;
+    }
+
+    public getConfig(): BackendConfig {
+        return this.config;
+    }
+
+    // Label and reconnect policy apply from the next attempt; a new URL needs switchTransport
+    public setConfig(config: BackendConfig): void {
+        this.config = config;
+    }
+
+    public getAuth(): AuthManager {
+        return this.auth;
+    }
+
+    public getState(): BackendState {
+        return this.state;
+    }
+
+    public getDescription(): string {
+        return this.transport.description;
+    }
+
+    public getProtocolVersion(): number | null {
+        return this.protocolVersion;
+    }
+
+    public setProtocolVersion(version: number): void {
+        this.protocolVersion = version;
+    }
+
+    public isProtocolRejected(): boolean {
+        return this.protocolRejected;
+    }
+
+    // Close the connection and stay away; reconnecting to a backend we cannot talk to would only fail again
+    public rejectProtocol(): void {
+        this.protocolRejected = true;
+        this.connection?.close(1000, 'Incompatible protocol version');
+    }
+
+    public start(): void {
+        if (this.connection || this.reconnectTimer !== null) return;
+        this.reconnectAttempts = 0;
+        this.connect();
+    }
+
+    // Disconnect without reconnecting until start() or retryNow()
+    public stop(): void {
+        this.drop('Paused');
+        this.setState('paused');
+    }
+
+    public retryNow(): void {
+        if (this.connection) return; // Already connected or connecting
+
+        console.log(`Retrying connection to ${this.config.label} now`);
+        this.clearReconnectTimers();
+        this.reconnectAttempts = 0;
+        this.connect();
+    }
+
+    // Drop the current connection without reconnecting it and connect through another transport
+    public switchTransport(transport: Transport): void {
+        this.drop('Switching transport');
+        this.transport = transport;
+        this.reconnectAttempts = 0;
+        this.connect();
+    }
+
+    // Drop the session and the connection; signing in again reconnects
+    public logout(): void {
+        this.auth.logout();
+        this.drop('Signed out');
+        this.setState('unauthorized');
+    }
+
+    // The backend was removed from the list
+    public dispose(): void {
+        window.removeEventListener('online', this.onlineListener);
+        this.drop('Backend removed');
+    }
+
+    public isOpen(): boolean {
+        return this.connection !== null && this.connection.isOpen();
+    }
+
+    public send(data: string | ArrayBuffer): boolean {
+        if (!this.connection || !this.connection.isOpen()) return false;
+        this.connection.send(data);
+        return true;
+    }
+
+    public onStateChanged(callback: (state: BackendState, retryInSeconds: number) => void): void {
+        this.onStateChangedCallback = callback;
+    }
+
+    public onOpen(callback: () => void): void {
+        this.onOpenCallback = callback;
+    }
+
+    public onMessage(callback: (data: string | ArrayBuffer) => void): void {
+        this.onMessageCallback = callback;
+    }
+
+    // `code` is the close code, or null when the connection was dropped on purpose
+    public onDisconnected(callback: (code: number | null) => void): void {
+        this.onDisconnectedCallback = callback;
+    }
+
+    private connect(): void {
+        console.log(`Attempting to connect to ${this.config.label} at ${this.transport.description}...`);
+        if (this.reconnectAttempts === 0) {
+            this.setState('connecting');
+        }
+
+        this.protocolVersion = null;
+        this.protocolRejected = false;
+        this.loginRequired = false;
+
+        const connection: TransportConnection = this.transport.connect({
+            onOpen: () => {
+                console.log(`Connection to ${this.config.label} established`);
+                // Not logged: it carries the password or token
+                this.auth.handshake(message => this.send(JSON.stringify(message)));
+                this.reconnectAttempts = 0;
+                this.setState('connected');
+                if (this.onOpenCallback) {
+                    this.onOpenCallback();
+                }
+            },
+            onMessage: data => {
+                if (this.onMessageCallback) {
+                    this.onMessageCallback(data);
+                }
+            },
+            onClose: code => this.handleClose(connection, code)
+        });
+        this.connection = connection;
+    }
+
+    private handleClose(connection: TransportConnection, code: number): void {
+        console.log(`Connection to ${this.config.label} closed (code ${code})`);
+        // Ignore close events from connections we have already replaced
+        if (this.connection !== connection) return;
+
+        this.connection = null;
+        this.auth.connectionClosed();
+        if (this.onDisconnectedCallback) {
+            this.onDisconnectedCallback(code);
+        }
+
+        if (this.protocolRejected) {
+            this.setState('incompatible');
+            return;
+        }
+        // Neither would reconnecting without valid credentials; signing in reconnects
+        if (code === AUTH_FAILURE_CLOSE_CODE) {
+            this.loginRequired = true;
+            this.auth.handleAuthFailure();
+        }
+        if (this.loginRequired) {
+            this.setState('unauthorized');
+            return;
+        }
+        this.scheduleReconnect();
+    }
+
+    // Close the connection without a reconnect; its close event is ignored
+    private drop(reason: string): void {
+        this.clearReconnectTimers();
+        const connection = this.connection;
+        if (!connection) return;
+
+        this.connection = null;
+        this.auth.connectionClosed();
+        connection.close(1000, reason);
+        if (this.onDisconnectedCallback) {
+            this.onDisconnectedCallback(null);
+        }
+    }
+
+    private scheduleReconnect(): void {
+        this.clearReconnectTimers();
+
+        const maxAttempts = this.config.maxReconnectAttempts;
+        if (this.reconnectAttempts >= maxAttempts) {
+            console.error(`Giving up on ${this.config.label} after ${this.reconnectAttempts} reconnection attempts`);
+            this.setState('failed');
+            return;
+        }
+
+        // Exponential backoff with "equal jitter": half of the delay is fixed, the other half random
+        const exponentialDelay = Math.min(this.config.maxReconnectDelayMs, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts);
+        const delay = exponentialDelay / 2 + Math.random() * (exponentialDelay / 2);
+        this.reconnectAttempts++;
+
+        console.log(`Reconnecting to ${this.config.label} in ${Math.round(delay)}ms (attempt ${this.reconnectAttempts}/${maxAttempts})`);
+
+        const reconnectAt = Date.now() + delay;
+        const updateCountdown = () => {
+            const secondsLeft = Math.max(0, Math.ceil((reconnectAt - Date.now()) / 1000));
+            this.setState('reconnecting', secondsLeft);
+        };
+        updateCountdown();
+        this.countdownTimer = window.setInterval(updateCountdown, 1000);
+
+        this.reconnectTimer = window.setTimeout(() => {
+            this.clearReconnectTimers();
+            this.connect();
+        }, delay);
+    }
+
+    private clearReconnectTimers(): void {
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.countdownTimer !== null) {
+            clearInterval(this.countdownTimer);
+            this.countdownTimer = null;
+        }
+    }
+
+    private setState(state: BackendState, retryInSeconds: number = 0): void {
+        this.state = state;
+        if (this.onStateChangedCallback) {
+            this.onStateChangedCallback(state, retryInSeconds);
+        }
+    }
+}
@@ -0,0 +1,196 @@
+// Commands sent to many cameras at once, with progress per device and a retry
+// for the devices that failed
+
+import { CameraCatalog, CameraInfo } from './camera.js';
+import { CommandChannel, CommandResult, commandTarget } from './commands.js';
+import { CommandKind, DeviceCommand, StreamAction } from './messages.js';
+
+const BULK_CONCURRENCY = 8; // Devices worked on at the same time
+
+// refresh:        ask for the device state again and restart the stream
+// emergency-stop: stop the stream and power the device off
+export type BulkOperationKind = 'refresh' | 'emergency-stop';
+
+export type BulkDeviceState = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BulkDeviceProgress {
+    cameraId: string;
+    state: BulkDeviceState;
+    message: string | null; // Why the device failed
+}
+
+export interface BulkOperation {
+    kind: BulkOperationKind;
+    startedAt: Date;
+    devices: BulkDeviceProgress[];
+    finished: boolean;
+}
+
+interface BulkStep {
+    label: string; // Prefixes the failure message
+    send: (camera: CameraInfo) => Promise<CommandResult>;
+}
+
+export function describeBulkOperation(kind: BulkOperationKind): string {
+    return kind === 'refresh' ? 'Refresh All' : 'Emergency Stop';
+}
+
+export function countBulkDevices(operation: BulkOperation, state: BulkDeviceState): number {
+    return operation.devices.filter(device => device.state === state).length;
+}
+
+export class BulkOperationRunner {
+    private catalog: CameraCatalog;
+    private commandChannel: CommandChannel;
+    private current: BulkOperation | null = null;
+    private steps: Record<BulkOperationKind, BulkStep[]>;
+    private onProgressCallback: ((operation: BulkOperation) => void) | null = null;
+    private onDeviceDoneCallback: ((kind: BulkOperationKind, cameraId: string) => void) | null = null;
+
+    constructor(catalog: CameraCatalog, commandChannel: CommandChannel) {
+        this.catalog = catalog;
+        this.commandChannel = commandChannel;
+
+        // Every step runs even when an earlier one failed: a backend that cannot
+        // refresh can still restart the stream, and an emergency stop should try everything
+        const streamControl = (action: StreamAction) => (camera: CameraInfo) =>
+            this.commandChannel.sendCommand(CommandKind.StreamControl, { ...commandTarget(camera), action });
+        this.steps = {
+            'refresh': [
+                {
+                    label: 'Refresh',
+                    send: camera => this.commandChannel.sendCommand(CommandKind.RefreshDevice, commandTarget(camera))
+                },
+                { label: 'Stream start', send: streamControl(StreamAction.Start) }
+            ],
+            'emergency-stop': [
+                { label: 'Stream stop', send: streamControl(StreamAction.Stop) },
+                {
+                    label: 'Power off',
+                    send: camera => this.commandChannel.sendCommand(CommandKind.DeviceCommand, {
+                        ...commandTarget(camera),
+                        command: DeviceCommand.Off
+                    })
+                }
+            ]
+        };
+    }
+
+    // Start an operation on the given cameras. Returns null while another one is still running.
+    public run(kind: BulkOperationKind, cameraIds: string[]): BulkOperation | null {
+        if (this.isRunning()) {
+            console.warn(`Not starting ${describeBulkOperation(kind)}: another bulk operation is running`);
+            return null;
+        }
+
+        const operation: BulkOperation = {
+            kind,
+            startedAt: new Date(),
+            devices: cameraIds.map(cameraId => ({ cameraId, state: 'pending', message: null })),
+            finished: false
+        };
+        this.current = operation;
+        console.log(`${describeBulkOperation(kind)} on ${cameraIds.length} camera(s)`);
+        this.process(operation);
+        return operation;
+    }
+
+    // Run the last operation again for the devices that failed
+    public retryFailed(): void {
+        const operation = this.current;
+        if (!operation || !operation.finished) return;
+
+        const failed = operation.devices.filter(device => device.state === 'failed');
+        if (failed.length === 0) return;
+
+        failed.forEach(device => {
+            device.state = 'pending';
+            device.message = null;
+        });
+        operation.finished = false;
+        console.log(`Retrying ${describeBulkOperation(operation.kind)} on ${failed.length} camera(s)`);
+        this.process(operation);
+    }
+
+    public getCurrent(): BulkOperation | null {
+        return this.current;
+    }
+
+    public isRunning(): boolean {
+        return this.current !== null && !this.current.finished;
+    }
+
+    // Called whenever a device of the current operation changes state
+    public onProgress(callback: (operation: BulkOperation) => void): void {
+        this.onProgressCallback = callback;
+    }
+
+    // Called for every device on which the operation succeeded
+    public onDeviceDone(callback: (kind: BulkOperationKind, cameraId: string) => void): void {
+        this.onDeviceDoneCallback = callback;
+    }
+
+    // Work through the pending devices, BULK_CONCURRENCY at a time
+    private process(operation: BulkOperation): void {
+        const queue = operation.devices.filter(device => device.state === 'pending');
+        let active = 0;
+
+        const next = () => {
+            const device = queue.shift();
+            if (!device) {
+                if (active === 0 && !operation.finished) {
+                    operation.finished = true;
+                    const failed = countBulkDevices(operation, 'failed');
+                    console.log(`${describeBulkOperation(operation.kind)} finished, ${failed} of ${operation.devices.length} failed`);
+                    this.notify(operation);
+                }
+                return;
+            }
+
+            active++;
+            this.runDevice(operation, device).then(() => {
+                active--;
+                next();
+            });
+        };
+
+        this.notify(operation);
+        for (let i = 0; i < BULK_CONCURRENCY; i++) {
+            next();
+        }
+    }
+
+    private runDevice(operation: BulkOperation, device: BulkDeviceProgress): Promise<void> {
+        const camera = this.catalog.getCamera(device.cameraId);
+        if (!camera) {
+            device.state = 'failed';
+            device.message = 'Camera no longer exists';
+            this.notify(operation);
+            return Promise.resolve();
+        }
+
+        device.state = 'running';
+        this.notify(operation);
+
+        const failures: string[] = [];
+        return this.steps[operation.kind].reduce((chain, step) => chain
+            .then(() => step.send(camera))
+            .then(result => {
+                if (!result.ok) failures.push(`${step.label}: ${result.message}`);
+            }), Promise.resolve())
+            .then(() => {
+                device.state = failures.length === 0 ? 'done' : 'failed';
+                device.message = failures.length === 0 ? null : failures.join('; ');
+                this.notify(operation);
+                if (device.state === 'done' && this.onDeviceDoneCallback) {
+                    this.onDeviceDoneCallback(operation.kind, device.cameraId);
+                }
+            });
+    }
+
+    private notify(operation: BulkOperation): void {
+        if (this.current === operation && this.onProgressCallback) {
+            this.onProgressCallback(operation);
+        }
+    }
+}
@@ -1,106 +1,303 @@
 // Camera management interfaces and classes
 
+import { EventEmitter, Unsubscribe } from './events.js';
+import { CameraMetrics, FrameMetricsTracker, createEmptyMetrics } from './metrics.js';
+import { StreamMode, streamModeOf } from './messages.js';
+import { parseCameraId } from './backends.js';
+
+// Lifecycle state of a camera as reported by the backend
+export type CameraStatus = 'Disconnected' | 'Connected' | 'Standby' | 'Error';
+
+export interface StatusTransition {
+    from: CameraStatus;
+    to: CameraStatus;
+    at: Date;
+}
+
 export interface CameraInfo {
+    id: string; // The catalog key, see cameraIdOf
+    backendId: string; // The backend that owns the device
+    deviceId: string; // The device ID on that backend. Equals the IP for pre-v2 devices
     ip: string;
+    kind: string; // DevicePayload.kind, e.g. "Camera" or "WebRtcCamera"
     lastSeen: Date;
-    status: 'Disconnected' | 'Connected' | 'Standby' | 'Error';
-    element: HTMLImageElement | null;
+    status: CameraStatus;
+    streamMode: StreamMode; // Advertised by the backend; JPEG frames are used until a video session is up
+    statusChangedAt: Date;
+    statusHistory: StatusTransition[];
+    inactive: boolean; // Client-side: no frames or messages within the inactivity timeout
     label: HTMLElement | null;
     frameCount: number;
+    lastSequence: number | null; // From v2 frame headers
+    lastCaptureTime: Date | null;
+    metrics: CameraMetrics;
+}
+
+// Expected lifecycle transitions: a camera in Error recovers through Connected or
+// Disconnected. The backend is the source of truth, so other transitions (an
+// Error camera going to Standby without reconnecting) are still applied, only logged.
+const STATUS_TRANSITIONS: Record<CameraStatus, CameraStatus[]> = {
+    Disconnected: ['Connected', 'Standby', 'Error'],
+    Connected: ['Standby', 'Disconnected', 'Error'],
+    Standby: ['Connected', 'Disconnected', 'Error'],
+    Error: ['Connected', 'Disconnected']
+};
+
+const MAX_STATUS_HISTORY = 20;
+
+// Frames further behind the last one than this mean the sender restarted its counter
+const SEQUENCE_REORDER_WINDOW = 1024;
+
+// Assumed for devices announced without a kind, e.g. discovered through their frames
+const DEFAULT_DEVICE_KIND = 'Camera';
+
+// Map a backend status string onto a camera lifecycle state
+export function parseCameraStatus(status: unknown): CameraStatus | null {
+    if (typeof status !== 'string') {
+        return null;
+    }
+
+    switch (status.toLowerCase()) {
+        case 'connected':
+        case 'online':
+        case 'streaming':
+            return 'Connected';
+        case 'standby':
+        case 'idle':
+            return 'Standby';
+        case 'disconnected':
+        case 'offline':
+            return 'Disconnected';
+        case 'error':
+            return 'Error';
+        default:
+            return null;
+    }
+}
+
+// Distance from one frame sequence number to the next, accounting for u32 wrap-around
+export function sequenceDelta(previous: number, next: number): number {
+    return (next - previous) >>> 0;
+}
+
+// A sequence number far behind the last one: the camera or backend restarted and counts from 0 again
+export function isSequenceRestart(lastSequence: number | null, sequence: number | null): boolean {
+    if (lastSequence === null || sequence === null) {
+        return false;
+    }
+    const delta = sequenceDelta(lastSequence, sequence);
+    return delta >= 0x80000000 && sequenceDelta(sequence, lastSequence) > SEQUENCE_REORDER_WINDOW;
+}
+
+// A frame whose sequence number is slightly behind the last one seen, or equal to it,
+// is stale or a duplicate
+export function isFrameOutOfOrder(lastSequence: number | null, sequence: number | null): boolean {
+    if (lastSequence === null || sequence === null) {
+        return false;
+    }
+    const delta = sequenceDelta(lastSequence, sequence);
+    return delta === 0 || (delta >= 0x80000000 && !isSequenceRestart(lastSequence, sequence));
+}
+
+export function isValidStatusTransition(from: CameraStatus, to: CameraStatus): boolean {
+    return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Events published by the catalog. `updated` fires for every change to a
+// camera, including the more specific status, frame and metrics events.
+export interface CameraCatalogEvents {
+    added: CameraInfo;
+    updated: CameraInfo;
+    removed: CameraInfo;
+    statusChanged: { camera: CameraInfo; transition: StatusTransition };
+    inactivityChanged: CameraInfo; // `camera.inactive` flipped
+    frame: CameraInfo;
+    metrics: CameraInfo;
 }
 
 export class CameraCatalog {
     private cameras: Map<string, CameraInfo> = new Map();
+    private metricsTrackers: Map<string, FrameMetricsTracker> = new Map();
     private inactivityTimeout: number = 30000; // 30 seconds
-    private onCameraAddedCallback: ((camera: CameraInfo) => void) | null = null;
-    private onCameraUpdatedCallback: ((camera: CameraInfo) => void) | null = null;
+    private inactivityTimeouts: Map<string, number> = new Map(); // Per-camera overrides
+    private events: EventEmitter<CameraCatalogEvents> = new EventEmitter();
 
-    public addOrUpdateCamera(ip: string): CameraInfo {
-        let camera = this.cameras.get(ip);
+    public addOrUpdateCamera(id: string): CameraInfo {
+        let camera = this.cameras.get(id);
         let isNewCamera = false;
 
         if (!camera) {
             // New camera discovered
-            camera = {
-                ip,
-                lastSeen: new Date(),
-                status: 'Connected',
-                element: null,
-                label: null,
-                frameCount: 0
-            };
-            this.cameras.set(ip, camera);
-            console.log(`New camera discovered: ${ip}`);
+            camera = this.createCamera(id, id, 'Connected');
+            this.cameras.set(id, camera);
+            console.log(`New camera discovered: ${id}`);
             isNewCamera = true;
         } else {
             // Update existing camera
             camera.lastSeen = new Date();
-            camera.status = 'Connected';
+            this.markActive(camera);
         }
         
         camera.frameCount++;
         
-        // Trigger callbacks
-        if (isNewCamera && this.onCameraAddedCallback) {
-            this.onCameraAddedCallback(camera);
-        } else if (!isNewCamera && this.onCameraUpdatedCallback) {
-            this.onCameraUpdatedCallback(camera);
-        }
+        this.events.emit(isNewCamera ? 'added' : 'updated', camera);
         
         return camera;
     }
 
-    public addCamera(ip: string): CameraInfo {
-        if (this.cameras.has(ip)) {
-            console.log(`Camera ${ip} already exists`);
-            return this.cameras.get(ip)!;
+    // `ip` defaults to the device ID, which is the IP address for devices that
+    // predate protocol v2. The stream mode follows from the device kind.
+    public addCamera(id: string, ip: string = id, status: CameraStatus = 'Connected', kind: string = DEFAULT_DEVICE_KIND): CameraInfo {
+        if (this.cameras.has(id)) {
+            console.log(`Camera ${id} already exists`);
+            return this.cameras.get(id)!;
         }
 
-        const camera: CameraInfo = {
-            ip,
-            lastSeen: new Date(),
-            status: 'Connected',
-            element: null,
-            label: null,
-            frameCount: 0
-        };
+        const camera = this.createCamera(id, ip, status);
+        camera.kind = kind;
+        camera.streamMode = streamModeOf(kind);
         
-        this.cameras.set(ip, camera);
-        console.log(`Camera added: ${ip}`);
+        this.cameras.set(id, camera);
+        console.log(`Camera added: ${id}`);
         
-        // Trigger callback
-        if (this.onCameraAddedCallback) {
-            this.onCameraAddedCallback(camera);
-        }
+        this.events.emit('added', camera);
         
         return camera;
     }
 
-    public updateCameraFrame(ip: string): CameraInfo | null {
-        const camera = this.cameras.get(ip);
+    // Record a received frame. `sequence` and `capturedAt` come from v2 frame
+    // headers and are null for legacy frames; `bytes` is the frame's size on the wire.
+    public updateCameraFrame(
+        id: string,
+        sequence: number | null = null,
+        capturedAt: Date | null = null,
+        bytes: number = 0
+    ): CameraInfo | null {
+        const camera = this.cameras.get(id);
         if (!camera) {
             return null; // Camera not found
         }
         
-        // Update camera info
-    camera.lastSeen = new Date();
-    camera.status = 'Connected';
-    camera.frameCount++;
+        // Update camera info. Frames only prove the camera is alive; the
+        // lifecycle status is left to the backend.
+        camera.lastSeen = new Date();
+        this.markActive(camera);
+        camera.frameCount++;
+
+        if (sequence !== null) {
+            if (isSequenceRestart(camera.lastSequence, sequence)) {
+                console.log(`Camera ${id} restarted its frame sequence at #${sequence} (last #${camera.lastSequence})`);
+            } else if (camera.lastSequence !== null) {
+                const gap = sequenceDelta(camera.lastSequence, sequence) - 1;
+                if (gap > 0) {
+                    camera.metrics.droppedFrames += gap;
+                    console.warn(`Camera ${id} dropped ${gap} frame(s) before #${sequence}`);
+                }
+            }
+            camera.lastSequence = sequence;
+        }
+        camera.lastCaptureTime = capturedAt;
+
+        const tracker = this.getMetricsTracker(id);
+        tracker.recordFrame(capturedAt, bytes);
+        const metricsChanged = tracker.update(camera.metrics);
         
-        // Trigger callback
-        if (this.onCameraUpdatedCallback) {
-            this.onCameraUpdatedCallback(camera);
+        this.events.emit('frame', camera);
+        if (metricsChanged) {
+            this.events.emit('metrics', camera);
         }
+        this.events.emit('updated', camera);
         
         return camera;
     }
 
-    public hasCamera(ip: string): boolean {
-        return this.cameras.has(ip);
+    // Apply a backend status to a camera; unexpected transitions are logged.
+    // Returns whether the camera exists.
+    public setCameraStatus(id: string, status: CameraStatus): boolean {
+        const camera = this.cameras.get(id);
+        if (!camera) {
+            return false; // Camera not found
+        }
+
+        camera.lastSeen = new Date();
+        this.markActive(camera);
+
+        let transition: StatusTransition | null = null;
+        if (camera.status !== status) {
+            if (!isValidStatusTransition(camera.status, status)) {
+                console.warn(`Unexpected status transition for ${id}: ${camera.status} -> ${status}`);
+            }
+
+            transition = { from: camera.status, to: status, at: new Date() };
+            camera.statusHistory.push(transition);
+            if (camera.statusHistory.length > MAX_STATUS_HISTORY) {
+                camera.statusHistory.shift();
+            }
+            camera.status = status;
+            camera.statusChangedAt = transition.at;
+            // The stream starts a new sequence when the camera comes back
+            if (transition.from === 'Connected') {
+                camera.lastSequence = null;
+            }
+            console.log(`Camera ${id} status: ${transition.from} -> ${transition.to}`);
+        }
+
+        if (transition) {
+            this.events.emit('statusChanged', { camera, transition });
+        }
+        this.events.emit('updated', camera);
+
+        return true;
+    }
+
+    // Reconcile the catalog against the device list from a backend's Init message.
+    // Cameras still reported by the backend are kept (and refreshed), new ones are
+    // added and cameras of that backend that are no longer present are removed (each
+    // with a `removed` event). Returns the IDs of the removed cameras.
+    public reconcileCameras(
+        backendId: string,
+        devices: { id: string; ip: string; status: CameraStatus; kind: string }[]
+    ): string[] {
+        const present = new Map(devices.map(device => [device.id, device]));
+        const removed: string[] = [];
+
+        this.cameras.forEach((camera, id) => {
+            if (camera.backendId === backendId && !present.has(id)) {
+                removed.push(id);
+            }
+        });
+        removed.forEach(id => this.removeCamera(id));
+
+        present.forEach((device, id) => {
+            if (!this.cameras.has(id)) {
+                this.addCamera(id, device.ip, device.status, device.kind);
+            } else {
+                // The backend may have restarted; its frame sequences start over
+                this.cameras.get(id)!.lastSequence = null;
+                this.setKind(id, device.kind);
+                this.setCameraStatus(id, device.status);
+            }
+        });
+
+        console.log(`Reconciled cameras of ${backendId}: ${present.size} present, ${removed.length} removed`);
+        return removed;
+    }
+
+    public setKind(id: string, kind: string): void {
+        const camera = this.cameras.get(id);
+        if (!camera || camera.kind === kind) return;
+
+        camera.kind = kind;
+        camera.streamMode = streamModeOf(kind);
+        this.events.emit('updated', camera);
+    }
+
+    public hasCamera(id: string): boolean {
+        return this.cameras.has(id);
     }
 
-    public getCamera(ip: string): CameraInfo | undefined {
-        return this.cameras.get(ip);
+    public getCamera(id: string): CameraInfo | undefined {
+        return this.cameras.get(id);
     }
 
     public getAllCameras(): CameraInfo[] {
@@ -108,44 +305,117 @@ export class CameraCatalog {
     }
 
     public getActiveCameras(): CameraInfo[] {
-    return this.getAllCameras().filter(camera => camera.status === 'Connected');
+        return this.findCameras(camera => camera.status === 'Connected' && !camera.inactive);
     }
 
-    public markInactive(ip: string): void {
-        const camera = this.cameras.get(ip);
+    public findCameras(predicate: (camera: CameraInfo) => boolean): CameraInfo[] {
+        return this.getAllCameras().filter(predicate);
+    }
+
+    // Count a frame that arrived out of order (or duplicated); it is not displayed
+    public recordOutOfOrderFrame(id: string): void {
+        const camera = this.cameras.get(id);
         if (camera) {
-            camera.status = 'Disconnected';
-            console.log(`Camera marked as inactive: ${ip}`);
+            camera.metrics.outOfOrderFrames++;
         }
     }
 
-    public removeCamera(ip: string): void {
-        const camera = this.cameras.get(ip);
-        if (camera) {
-            // Clean up DOM elements
-            if (camera.element) {
-                camera.element.remove();
-            }
-            if (camera.label) {
-                camera.label.remove();
+    // Record the decoded image size; only notifies listeners when it changes
+    public updateCameraResolution(id: string, width: number, height: number): void {
+        const camera = this.cameras.get(id);
+        if (!camera || (camera.metrics.width === width && camera.metrics.height === height)) {
+            return;
+        }
+
+        camera.metrics.width = width;
+        camera.metrics.height = height;
+        console.log(`Camera ${id} resolution: ${width}x${height}`);
+
+        this.events.emit('metrics', camera);
+        this.events.emit('updated', camera);
+    }
+
+    // Recompute rolling metrics so they decay when frames stop arriving
+    private refreshMetrics(): void {
+        this.cameras.forEach((camera, id) => {
+            const tracker = this.metricsTrackers.get(id);
+            if (tracker && tracker.update(camera.metrics)) {
+                this.events.emit('metrics', camera);
+                this.events.emit('updated', camera);
             }
-            this.cameras.delete(ip);
-            console.log(`Camera removed: ${ip}`);
+        });
+    }
+
+    private getMetricsTracker(id: string): FrameMetricsTracker {
+        let tracker = this.metricsTrackers.get(id);
+        if (!tracker) {
+            tracker = new FrameMetricsTracker();
+            this.metricsTrackers.set(id, tracker);
+        }
+        return tracker;
+    }
+
+    // Client-side inactivity only; the backend lifecycle status is left untouched.
+    // Frames after the silence, e.g. after a reconnect, may start a new sequence.
+    public markInactive(id: string): void {
+        const camera = this.cameras.get(id);
+        if (camera && !camera.inactive) {
+            camera.inactive = true;
+            camera.lastSequence = null;
+            console.log(`Camera marked as inactive: ${id}`);
+
+            this.events.emit('inactivityChanged', camera);
+            this.events.emit('updated', camera);
+        }
+    }
+
+    // Clear the inactivity flag; `updated` is left to the caller
+    private markActive(camera: CameraInfo): void {
+        if (camera.inactive) {
+            camera.inactive = false;
+            console.log(`Camera active again: ${camera.id}`);
+            this.events.emit('inactivityChanged', camera);
+        }
+    }
+
+    // Listeners of the `removed` event clean up the UI and anything else held per camera
+    public removeCamera(id: string): void {
+        const camera = this.cameras.get(id);
+        if (camera) {
+            this.cameras.delete(id);
+            this.metricsTrackers.delete(id);
+            console.log(`Camera removed: ${id}`);
+            this.events.emit('removed', camera);
         }
     }
 
     public startInactivityMonitoring(): void {
         setInterval(() => {
             const now = new Date();
-            this.cameras.forEach((camera, ip) => {
+            this.cameras.forEach((camera, id) => {
                 const timeSinceLastSeen = now.getTime() - camera.lastSeen.getTime();
-                if (timeSinceLastSeen > this.inactivityTimeout && camera.status === 'Connected') {
-                    this.markInactive(ip);
+                const timeout = this.inactivityTimeouts.get(id) ?? this.inactivityTimeout;
+                if (timeSinceLastSeen > timeout && camera.status === 'Connected' && !camera.inactive) {
+                    this.markInactive(id);
                 }
             });
+            this.refreshMetrics();
         }, 5000); // Check every 5 seconds
     }
 
+    // Override the inactivity timeout for one camera; null restores the default
+    public setInactivityTimeout(id: string, timeout: number | null): void {
+        if (timeout === null) {
+            this.inactivityTimeouts.delete(id);
+        } else {
+            this.inactivityTimeouts.set(id, timeout);
+        }
+    }
+
+    public getInactivityTimeout(id: string): number {
+        return this.inactivityTimeouts.get(id) ?? this.inactivityTimeout;
+    }
+
     public getCameraCount(): number {
         return this.cameras.size;
     }
@@ -154,27 +424,47 @@ export class CameraCatalog {
         return this.getActiveCameras().length;
     }
 
-    public onCameraAdded(callback: (camera: CameraInfo) => void): void {
-        this.onCameraAddedCallback = callback;
+    public on<K extends keyof CameraCatalogEvents>(event: K, listener: (payload: CameraCatalogEvents[K]) => void): Unsubscribe {
+        return this.events.on(event, listener);
     }
 
-    public onCameraUpdated(callback: (camera: CameraInfo) => void): void {
-        this.onCameraUpdatedCallback = callback;
+    public onCameraAdded(callback: (camera: CameraInfo) => void): Unsubscribe {
+        return this.on('added', callback);
+    }
+
+    public onCameraUpdated(callback: (camera: CameraInfo) => void): Unsubscribe {
+        return this.on('updated', callback);
+    }
+
+    public onCameraRemoved(callback: (camera: CameraInfo) => void): Unsubscribe {
+        return this.on('removed', callback);
+    }
+
+    private createCamera(id: string, ip: string, status: CameraStatus): CameraInfo {
+        const now = new Date();
+        const { backendId, deviceId } = parseCameraId(id);
+        return {
+            id,
+            backendId,
+            deviceId,
+            ip,
+            kind: DEFAULT_DEVICE_KIND,
+            lastSeen: now,
+            status,
+            streamMode: 'jpeg',
+            statusChangedAt: now,
+            statusHistory: [],
+            inactive: false,
+            label: null,
+            frameCount: 0,
+            lastSequence: null,
+            lastCaptureTime: null,
+            metrics: createEmptyMetrics()
+        };
     }
 
     public clearAll(): void {
-        // Clean up DOM elements for all cameras
-        this.cameras.forEach((camera, ip) => {
-            if (camera.element) {
-                camera.element.remove();
-            }
-            if (camera.label) {
-                camera.label.remove();
-            }
-        });
-        
-        // Clear the map
-        this.cameras.clear();
+        Array.from(this.cameras.keys()).forEach(id => this.removeCamera(id));
         console.log('All cameras cleared');
     }
 }
\ No newline at end of file
@@ -0,0 +1,386 @@
+// Traffic capture: record every message exchanged with the backend into a
+// session file, and play such a file back as if it came from the backend
+
+import { AUTH_MESSAGE_KIND, DecodeError, DecodeResult, WsMessageKind } from './messages.js';
+import { Transport, TransportConnection, TransportHandlers } from './transport.js';
+
+const CAPTURE_FORMAT = 'nestrest-capture';
+const CAPTURE_VERSION = 1;
+const MAX_CAPTURE_BYTES = 100 * 1024 * 1024; // Stop capturing beyond 100 MB of payload
+
+const REDACTED = '<redacted>';
+
+// Capture files get shared for debugging, so passwords and tokens stay out of them
+function redactSecrets(text: string): string {
+    if (!text.includes('"Auth')) return text;
+
+    try {
+        const message = JSON.parse(text);
+        if (message?.kind !== AUTH_MESSAGE_KIND && message?.kind !== WsMessageKind.AuthOk) return text;
+        ['password', 'token'].forEach(field => {
+            if (typeof message.payload?.[field] === 'string') message.payload[field] = REDACTED;
+        });
+        return JSON.stringify(message);
+    } catch (error) {
+        return text;
+    }
+}
+
+export type CaptureEntry =
+    | { t: number; event: 'open' }
+    | { t: number; event: 'close'; code: number }
+    | { t: number; event: 'message'; direction: 'in' | 'out'; text: string }
+    | { t: number; event: 'message'; direction: 'in' | 'out'; binary: string }; // base64
+
+// `t` is milliseconds since the capture started
+export interface CaptureFile {
+    format: typeof CAPTURE_FORMAT;
+    version: number;
+    startedAt: string; // ISO timestamp
+    source: string; // Transport description
+    entries: CaptureEntry[];
+}
+
+function toBase64(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let binary = '';
+    // Chunked to stay below the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function fromBase64(data: string): ArrayBuffer {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+}
+
+function isCaptureEntry(value: unknown): value is CaptureEntry {
+    if (typeof value !== 'object' || value === null) return false;
+    const entry = value as Record<string, unknown>;
+    if (typeof entry.t !== 'number') return false;
+
+    switch (entry.event) {
+        case 'open':
+            return true;
+        case 'close':
+            return typeof entry.code === 'number';
+        case 'message':
+            return (entry.direction === 'in' || entry.direction === 'out') &&
+                (typeof entry.text === 'string' || typeof entry.binary === 'string');
+        default:
+            return false;
+    }
+}
+
+export function decodeCaptureFile(value: unknown): DecodeResult<CaptureFile> {
+    if (typeof value !== 'object' || value === null) {
+        return { ok: false, errors: [{ path: '', message: 'expected object' }] };
+    }
+    const file = value as Record<string, unknown>;
+    if (file.format !== CAPTURE_FORMAT) {
+        return { ok: false, errors: [{ path: 'format', message: `expected "${CAPTURE_FORMAT}"` }] };
+    }
+    if (file.version !== CAPTURE_VERSION) {
+        return { ok: false, errors: [{ path: 'version', message: `unsupported capture version ${JSON.stringify(file.version)}` }] };
+    }
+    if (!Array.isArray(file.entries)) {
+        return { ok: false, errors: [{ path: 'entries', message: 'expected array' }] };
+    }
+
+    const errors: DecodeError[] = [];
+    file.entries.forEach((entry, index) => {
+        if (!isCaptureEntry(entry)) {
+            errors.push({ path: `entries[${index}]`, message: 'invalid capture entry' });
+        }
+    });
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    return {
+        ok: true,
+        value: {
+            format: CAPTURE_FORMAT,
+            version: CAPTURE_VERSION,
+            startedAt: typeof file.startedAt === 'string' ? file.startedAt : '',
+            source: typeof file.source === 'string' ? file.source : 'unknown',
+            entries: file.entries as CaptureEntry[]
+        }
+    };
+}
+
+// Records traffic while capturing; fed by CapturingTransport
+export class TrafficCapture {
+    private file: CaptureFile | null = null;
+    private startTime: number = 0;
+    private bytes: number = 0;
+    private onLimitReachedCallback: (() => void) | null = null;
+    private onCaptureChangedCallback: ((capturing: boolean) => void) | null = null;
+
+    public isCapturing(): boolean {
+        return this.file !== null;
+    }
+
+    public start(source: string): void {
+        if (this.file) return;
+
+        this.file = { format: CAPTURE_FORMAT, version: CAPTURE_VERSION, startedAt: new Date().toISOString(), source, entries: [] };
+        this.startTime = performance.now();
+        this.bytes = 0;
+        console.log('Traffic capture started');
+        if (this.onCaptureChangedCallback) {
+            this.onCaptureChangedCallback(true);
+        }
+    }
+
+    // Returns the finished capture, or null when none was running
+    public stop(): CaptureFile | null {
+        const file = this.file;
+        this.file = null;
+        if (file) {
+            console.log(`Traffic capture stopped: ${file.entries.length} entries, ${(this.bytes / 1024 / 1024).toFixed(1)} MB`);
+            if (this.onCaptureChangedCallback) {
+                this.onCaptureChangedCallback(false);
+            }
+        }
+        return file;
+    }
+
+    public recordMessage(direction: 'in' | 'out', data: string | ArrayBuffer): void {
+        if (!this.file) return;
+
+        const t = this.elapsed();
+        if (typeof data === 'string') {
+            this.file.entries.push({ t, event: 'message', direction, text: redactSecrets(data) });
+            this.bytes += data.length;
+        } else {
+            this.file.entries.push({ t, event: 'message', direction, binary: toBase64(data) });
+            this.bytes += data.byteLength;
+        }
+
+        if (this.bytes > MAX_CAPTURE_BYTES) {
+            console.warn(`Traffic capture exceeded ${MAX_CAPTURE_BYTES / 1024 / 1024} MB`);
+            if (this.onLimitReachedCallback) {
+                this.onLimitReachedCallback();
+            }
+        }
+    }
+
+    public recordOpen(): void {
+        this.file?.entries.push({ t: this.elapsed(), event: 'open' });
+    }
+
+    public recordClose(code: number): void {
+        this.file?.entries.push({ t: this.elapsed(), event: 'close', code });
+    }
+
+    // The owner is expected to stop (and save) the capture
+    public onLimitReached(callback: () => void): void {
+        this.onLimitReachedCallback = callback;
+    }
+
+    public onCaptureChanged(callback: (capturing: boolean) => void): void {
+        this.onCaptureChangedCallback = callback;
+    }
+
+    private elapsed(): number {
+        return Math.round(performance.now() - this.startTime);
+    }
+}
+
+// Wraps another transport and reports its traffic to a TrafficCapture
+export class CapturingTransport implements Transport {
+    public readonly description: string;
+    private inner: Transport;
+    private capture: TrafficCapture;
+
+    constructor(inner: Transport, capture: TrafficCapture) {
+        this.inner = inner;
+        this.capture = capture;
+        this.description = inner.description;
+    }
+
+    public connect(handlers: TransportHandlers): TransportConnection {
+        const connection = this.inner.connect({
+            onOpen: () => {
+                this.capture.recordOpen();
+                handlers.onOpen();
+            },
+            onMessage: data => {
+                this.capture.recordMessage('in', data);
+                handlers.onMessage(data);
+            },
+            onClose: (code, reason) => {
+                this.capture.recordClose(code);
+                handlers.onClose(code, reason);
+            }
+        });
+
+        return {
+            isOpen: () => connection.isOpen(),
+            send: data => {
+                this.capture.recordMessage('out', data);
+                connection.send(data);
+            },
+            close: (code, reason) => connection.close(code, reason)
+        };
+    }
+}
+
+export interface PlaybackProgress {
+    position: number; // Entries delivered so far
+    total: number;
+    elapsedMs: number; // Capture time of the last delivered entry
+    durationMs: number;
+    playing: boolean;
+    speed: number;
+}
+
+// Plays a capture back. Inbound messages, opens and closes are delivered with
+// their original spacing divided by the speed; outbound messages are skipped
+// and whatever the dashboard sends is dropped. The position survives
+// reconnects, so a captured close is followed by the rest of the capture.
+export class CapturePlaybackTransport implements Transport {
+    public readonly description: string;
+    private entries: CaptureEntry[];
+    private position: number = 0;
+    private playing: boolean = true;
+    private speed: number = 1;
+    private timer: number | null = null;
+    private handlers: TransportHandlers | null = null;
+    private open: boolean = false;
+    private onProgressCallback: ((progress: PlaybackProgress) => void) | null = null;
+
+    constructor(file: CaptureFile) {
+        this.entries = file.entries.filter(entry => entry.event !== 'message' || entry.direction === 'in');
+        this.description = `capture playback (${file.source}, ${file.startedAt})`;
+    }
+
+    public connect(handlers: TransportHandlers): TransportConnection {
+        this.handlers = handlers;
+        this.open = false;
+
+        // A capture started mid-session has no open entry; open right away
+        if (this.entries[this.position]?.event !== 'open') {
+            this.deliverOpen();
+        }
+        this.schedule();
+
+        return {
+            isOpen: () => this.open && this.handlers === handlers,
+            send: data => console.log('Capture playback drops outbound message:', data),
+            close: code => {
+                if (this.handlers !== handlers) return;
+                this.stopTimer();
+                this.handlers = null;
+                this.open = false;
+                setTimeout(() => handlers.onClose(code ?? 1000, ''), 0);
+            }
+        };
+    }
+
+    public play(): void {
+        if (this.playing) return;
+        this.playing = true;
+        this.schedule();
+        this.notify();
+    }
+
+    public pause(): void {
+        this.playing = false;
+        this.stopTimer();
+        this.notify();
+    }
+
+    // Deliver the next entry now; pauses playback
+    public step(): void {
+        this.pause();
+        this.deliverNext();
+    }
+
+    public setSpeed(speed: number): void {
+        this.speed = speed;
+        if (this.playing) this.schedule();
+        this.notify();
+    }
+
+    public getProgress(): PlaybackProgress {
+        const last = this.entries[this.position - 1];
+        return {
+            position: this.position,
+            total: this.entries.length,
+            elapsedMs: last?.t ?? 0,
+            durationMs: this.entries[this.entries.length - 1]?.t ?? 0,
+            playing: this.playing,
+            speed: this.speed
+        };
+    }
+
+    public onProgress(callback: (progress: PlaybackProgress) => void): void {
+        this.onProgressCallback = callback;
+    }
+
+    private schedule(): void {
+        this.stopTimer();
+        const next = this.entries[this.position];
+        if (!this.playing || !this.handlers || !next) return;
+
+        const previousTime = this.entries[this.position - 1]?.t ?? next.t;
+        const delay = Math.max(0, next.t - previousTime) / this.speed;
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.deliverNext();
+            this.schedule();
+        }, delay);
+    }
+
+    private deliverNext(): void {
+        const entry = this.entries[this.position];
+        const handlers = this.handlers;
+        if (!entry || !handlers) return;
+        this.position++;
+
+        if (entry.event === 'open') {
+            this.deliverOpen();
+        } else if (entry.event === 'close') {
+            // The dashboard reconnects, which resumes playback
+            this.stopTimer();
+            this.handlers = null;
+            this.open = false;
+            handlers.onClose(entry.code, 'Captured close');
+        } else if (this.open) {
+            handlers.onMessage('text' in entry ? entry.text : fromBase64(entry.binary));
+        }
+
+        if (this.position >= this.entries.length) {
+            this.playing = false;
+            console.log('Capture playback finished');
+        }
+        this.notify();
+    }
+
+    private deliverOpen(): void {
+        if (this.open || !this.handlers) return;
+        this.open = true;
+        this.handlers.onOpen();
+    }
+
+    private stopTimer(): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private notify(): void {
+        if (this.onProgressCallback) {
+            this.onProgressCallback(this.getProgress());
+        }
+    }
+}
@@ -0,0 +1,143 @@
+// Outbound command channel with request correlation, acks and timeouts
+
+import { CommandKind, CommandMessage, CommandPayloads, CommandResultPayload, StreamQualityPayload } from './messages.js';
+import { CameraInfo } from './camera.js';
+
+const DEFAULT_COMMAND_TIMEOUT = 10000; // 10 seconds
+
+export type CommandFailureReason = 'rejected' | 'timeout' | 'disconnected' | 'not-sent';
+
+export type CommandResult = { ok: true } | { ok: false; reason: CommandFailureReason; message: string };
+
+// Address fields for a command aimed at a camera. The device ID is only sent when
+// it differs from the IP, so pre-v2 backends see the payload they always did.
+export function commandTarget(camera: CameraInfo): { ip: string; device_id?: string } {
+    return camera.id !== camera.ip ? { ip: camera.ip, device_id: camera.id } : { ip: camera.ip };
+}
+
+// Short description for logs and the timeline, e.g. "StreamControl stop"
+export function describeCommand(kind: CommandKind, payload: CommandPayloads[CommandKind]): string {
+    if ('command' in payload) {
+        return `${kind} ${payload.command}`;
+    }
+    if ('action' in payload) {
+        return 'mode' in payload ? `${kind} ${payload.action} ${payload.mode}` : `${kind} ${payload.action}`;
+    }
+    if (kind !== CommandKind.StreamQuality) {
+        return kind; // Signaling and refresh requests carry nothing worth showing
+    }
+    const quality = payload as StreamQualityPayload;
+    return quality.max_width !== undefined
+        ? `${kind} ${quality.max_width}×${quality.max_height} @ ${quality.target_fps} fps`
+        : `${kind} reset`;
+}
+
+// A command as reported to `onCommandSettled` listeners
+export interface SentCommand {
+    kind: CommandKind;
+    requestId: string;
+    payload: CommandPayloads[CommandKind];
+    sentAt: Date;
+}
+
+interface PendingCommand extends SentCommand {
+    timer: number;
+    resolve: (result: CommandResult) => void;
+}
+
+export class CommandChannel {
+    private pending: Map<string, PendingCommand> = new Map();
+    private nextId: number = 0;
+    private send: (data: unknown) => boolean;
+    private timeout: number;
+    private onCommandSettledCallback: ((command: SentCommand, result: CommandResult) => void) | null = null;
+
+    constructor(send: (data: unknown) => boolean, timeout: number = DEFAULT_COMMAND_TIMEOUT) {
+        this.send = send;
+        this.timeout = timeout;
+    }
+
+    // Send a command and resolve once the backend acks or rejects it, or it times out.
+    // The returned promise never rejects.
+    public sendCommand<K extends CommandKind>(kind: K, payload: CommandPayloads[K]): Promise<CommandResult> {
+        const requestId = this.createRequestId();
+        const message: CommandMessage<K> = { kind, request_id: requestId, payload };
+
+        return new Promise(resolve => {
+            if (!this.send(message)) {
+                const result: CommandResult = { ok: false, reason: 'not-sent', message: 'Not connected to the backend' };
+                this.report({ kind, requestId, payload, sentAt: new Date() }, result);
+                resolve(result);
+                return;
+            }
+
+            const timer = window.setTimeout(() => {
+                this.settle(requestId, { ok: false, reason: 'timeout', message: `No reply within ${this.timeout / 1000}s` });
+            }, this.timeout);
+
+            this.pending.set(requestId, { kind, requestId, payload, sentAt: new Date(), timer, resolve });
+        });
+    }
+
+    public handleAck(payload: CommandResultPayload): void {
+        if (!this.settle(payload.request_id, { ok: true })) {
+            console.warn(`Received ack for unknown or expired command ${payload.request_id}`);
+        }
+    }
+
+    public handleError(payload: CommandResultPayload): void {
+        const message = payload.message ?? 'Rejected by backend';
+        if (!this.settle(payload.request_id, { ok: false, reason: 'rejected', message })) {
+            console.warn(`Received error for unknown or expired command ${payload.request_id}: ${message}`);
+        }
+    }
+
+    // Fail every pending command `filter` accepts, e.g. when the connection drops
+    public failAll(message: string, filter: (command: SentCommand) => boolean = () => true): void {
+        Array.from(this.pending.values()).filter(filter).forEach(command => {
+            this.settle(command.requestId, { ok: false, reason: 'disconnected', message });
+        });
+    }
+
+    public getPendingCount(): number {
+        return this.pending.size;
+    }
+
+    // Called once for every command, after it was acked, rejected, timed out or could not be sent
+    public onCommandSettled(callback: (command: SentCommand, result: CommandResult) => void): void {
+        this.onCommandSettledCallback = callback;
+    }
+
+    private settle(requestId: string, result: CommandResult): boolean {
+        const command = this.pending.get(requestId);
+        if (!command) {
+            return false;
+        }
+
+        clearTimeout(command.timer);
+        this.pending.delete(requestId);
+
+        const elapsed = Date.now() - command.sentAt.getTime();
+        if (result.ok) {
+            console.log(`${command.kind} ${requestId} acknowledged after ${elapsed}ms`);
+        } else {
+            console.error(`${command.kind} ${requestId} failed (${result.reason}): ${result.message}`);
+        }
+
+        this.report(command, result);
+        command.resolve(result);
+        return true;
+    }
+
+    private report(command: SentCommand, result: CommandResult): void {
+        if (this.onCommandSettledCallback) {
+            const { kind, requestId, payload, sentAt } = command;
+            this.onCommandSettledCallback({ kind, requestId, payload, sentAt }, result);
+        }
+    }
+
+    private createRequestId(): string {
+        this.nextId++;
+        return `${Date.now().toString(36)}-${this.nextId}`;
+    }
+}
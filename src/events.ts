@@ -0,0 +1,41 @@
+// Typed multi-subscriber event emitter
+
+// Calling the returned function removes the listener again
+export type Unsubscribe = () => void;
+
+type Listener<T> = (payload: T) => void;
+
+// `Events` maps each event name to its payload type
+export class EventEmitter<Events extends object> {
+    private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+    public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): Unsubscribe {
+        let listeners = this.listeners[event];
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners[event] = listeners;
+        }
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    // A failing listener is logged and does not stop the others
+    public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const listeners = this.listeners[event];
+        if (!listeners) return;
+
+        Array.from(listeners).forEach(listener => {
+            try {
+                listener(payload);
+            } catch (error) {
+                console.error(`Listener for "${String(event)}" failed:`, error);
+            }
+        });
+    }
+
+    public listenerCount(event: keyof Events): number {
+        return this.listeners[event]?.size ?? 0;
+    }
+}
@@ -0,0 +1,120 @@
+// Narrowing the camera grid by status, room, tag, device kind or a name/IP search.
+// The filter lives in the page URL, so a bookmark opens straight to a room.
+
+import { CameraInfo, CameraStatus, parseCameraStatus } from './camera.js';
+import { CameraSettings } from './settings.js';
+
+export interface CameraFilter {
+    status?: CameraStatus;
+    room?: string;
+    tag?: string;
+    kind?: string;
+    search?: string; // Case-insensitive; matches the display name, IP or device ID
+}
+
+// URL parameter of each filter field
+const FILTER_PARAMS: Record<keyof CameraFilter, string> = {
+    status: 'status',
+    room: 'room',
+    tag: 'tag',
+    kind: 'kind',
+    search: 'q'
+};
+
+// Rooms and tags are compared without surrounding whitespace and case
+function normalize(value: string): string {
+    return value.trim().toLowerCase();
+}
+
+export function roomOf(settings: CameraSettings): string | null {
+    return settings.location?.trim() || null;
+}
+
+// "porch, Outdoor ,,night" -> ["porch", "Outdoor", "night"], without duplicates
+export function parseTags(text: string): string[] {
+    const tags: string[] = [];
+    text.split(',').map(tag => tag.trim()).forEach(tag => {
+        if (tag && !tags.some(existing => normalize(existing) === normalize(tag))) {
+            tags.push(tag);
+        }
+    });
+    return tags;
+}
+
+// What the filter bar offers: the rooms, tags and device kinds of the known cameras
+export interface FilterOptions {
+    rooms: string[];
+    tags: string[];
+    kinds: string[];
+}
+
+export function collectFilterOptions(cameras: CameraInfo[], getSettings: (cameraId: string) => CameraSettings): FilterOptions {
+    const rooms: string[] = [];
+    const tags: string[] = [];
+    const kinds: string[] = [];
+    const addUnique = (values: string[], value: string) => {
+        if (!values.some(existing => normalize(existing) === normalize(value))) values.push(value);
+    };
+
+    cameras.forEach(camera => {
+        const settings = getSettings(camera.id);
+        const room = roomOf(settings);
+        if (room) addUnique(rooms, room);
+        (settings.tags ?? []).forEach(tag => addUnique(tags, tag));
+        addUnique(kinds, camera.kind);
+    });
+    const byName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+    return { rooms: rooms.sort(byName), tags: tags.sort(byName), kinds: kinds.sort(byName) };
+}
+
+export function isFilterEmpty(filter: CameraFilter): boolean {
+    return Object.values(filter).every(value => value === undefined);
+}
+
+export function matchesFilter(camera: CameraInfo, settings: CameraSettings, displayName: string, filter: CameraFilter): boolean {
+    if (filter.status !== undefined && camera.status !== filter.status) return false;
+    if (filter.kind !== undefined && camera.kind !== filter.kind) return false;
+    if (filter.room !== undefined && normalize(roomOf(settings) ?? '') !== normalize(filter.room)) return false;
+    if (filter.tag !== undefined && !(settings.tags ?? []).some(tag => normalize(tag) === normalize(filter.tag!))) return false;
+    if (filter.search !== undefined) {
+        const search = normalize(filter.search);
+        return [displayName, camera.ip, camera.deviceId].some(text => text.toLowerCase().includes(search));
+    }
+    return true;
+}
+
+// Read the filter from the page URL, e.g. `?room=Nursery&status=Connected`
+export function filterFromUrl(params: URLSearchParams): CameraFilter {
+    const filter: CameraFilter = {};
+    const status = params.get(FILTER_PARAMS.status);
+    if (status !== null) {
+        const parsed = parseCameraStatus(status);
+        if (parsed) {
+            filter.status = parsed;
+        } else {
+            console.warn(`Ignoring unknown status filter "${status}"`);
+        }
+    }
+    (['room', 'tag', 'kind', 'search'] as const).forEach(field => {
+        const value = params.get(FILTER_PARAMS[field])?.trim();
+        if (value) filter[field] = value;
+    });
+    return filter;
+}
+
+// Replace the filter parameters of the page URL without adding a history entry;
+// other parameters such as `?simulate` are kept
+export function writeFilterToUrl(filter: CameraFilter): void {
+    const url = new URL(window.location.href);
+    (Object.keys(FILTER_PARAMS) as (keyof CameraFilter)[]).forEach(field => {
+        const value = filter[field];
+        if (value !== undefined) {
+            url.searchParams.set(FILTER_PARAMS[field], value);
+        } else {
+            url.searchParams.delete(FILTER_PARAMS[field]);
+        }
+    });
+    if (url.href !== window.location.href) {
+        window.history.replaceState(window.history.state, '', url);
+    }
+}
@@ -0,0 +1,246 @@
+// Decodes camera frames with createImageBitmap and draws them onto per-camera
+// canvases, in the frame worker when the browser supports OffscreenCanvas
+
+// Messages exchanged with the frame worker
+export type FrameWorkerRequest =
+    | { type: 'register'; cameraId: string; canvas: OffscreenCanvas }
+    | { type: 'unregister'; cameraId: string }
+    | { type: 'frame'; cameraId: string; blob: Blob; wantBitmap: boolean };
+
+export type FrameWorkerResult =
+    | { type: 'rendered'; cameraId: string; width: number; height: number; bitmap: ImageBitmap | null }
+    | { type: 'failed'; cameraId: string; message: string };
+
+// A frame that has been drawn. `bitmap` is only set when it was asked for and
+// must be closed by the receiver.
+export interface RenderedFrame {
+    width: number;
+    height: number;
+    bitmap: ImageBitmap | null;
+}
+
+interface RenderTarget {
+    canvas: HTMLCanvasElement;
+    context: CanvasRenderingContext2D | null; // Only without the worker
+    viewport: HTMLElement; // Observed for visibility; the canvas is hidden while the card plays video
+    intersecting: boolean;
+    busy: boolean; // A frame is being decoded
+    pending: { blob: Blob; wantBitmap: boolean } | null; // Newest waiting frame; older ones are dropped
+    failed: boolean; // Lost its canvas when the worker failed, until the next frame is drawn
+}
+
+function supportsOffscreenRendering(): boolean {
+    return typeof Worker !== 'undefined' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+}
+
+export class FrameRenderer {
+    private worker: Worker | null = null;
+    private targets: Map<string, RenderTarget> = new Map();
+    private observer: IntersectionObserver | null = null;
+    private droppedFrames: number = 0;
+    private onFrameRenderedCallback: ((cameraId: string, frame: RenderedFrame) => void) | null = null;
+    private onVisibilityChangedCallback: ((cameraId: string, visible: boolean) => void) | null = null;
+    private onRenderFailedCallback: ((cameraId: string, failed: boolean) => void) | null = null;
+
+    constructor() {
+        this.startWorker();
+
+        if (typeof IntersectionObserver !== 'undefined') {
+            this.observer = new IntersectionObserver(entries => this.handleIntersections(entries));
+        }
+        document.addEventListener('visibilitychange', () => {
+            this.targets.forEach((target, cameraId) => this.notifyVisibility(cameraId));
+        });
+    }
+
+    // Take over a card's canvas. With the worker the canvas can no longer be drawn on here.
+    public register(cameraId: string, canvas: HTMLCanvasElement, viewport: HTMLElement): void {
+        this.unregister(cameraId);
+
+        const target: RenderTarget = { canvas, viewport, context: null, intersecting: true, busy: false, pending: null, failed: false };
+        if (this.worker) {
+            const offscreen = canvas.transferControlToOffscreen();
+            this.postToWorker({ type: 'register', cameraId, canvas: offscreen }, [offscreen]);
+        } else {
+            target.context = canvas.getContext('2d');
+        }
+
+        this.targets.set(cameraId, target);
+        this.observer?.observe(viewport);
+    }
+
+    public unregister(cameraId: string): void {
+        const target = this.targets.get(cameraId);
+        if (!target) return;
+
+        this.observer?.unobserve(target.viewport);
+        this.targets.delete(cameraId);
+        this.postToWorker({ type: 'unregister', cameraId });
+    }
+
+    // On screen and in a visible tab
+    public isVisible(cameraId: string): boolean {
+        const target = this.targets.get(cameraId);
+        return target !== undefined && target.intersecting && document.visibilityState === 'visible';
+    }
+
+    // Decode and draw a frame. While the previous frame of the camera is still
+    // being decoded only the newest frame is kept.
+    public render(cameraId: string, blob: Blob, wantBitmap: boolean): void {
+        const target = this.targets.get(cameraId);
+        if (!target) return;
+
+        if (target.busy) {
+            if (target.pending) this.droppedFrames++;
+            target.pending = { blob, wantBitmap };
+            return;
+        }
+
+        target.busy = true;
+        if (this.worker) {
+            this.postToWorker({ type: 'frame', cameraId, blob, wantBitmap });
+        } else {
+            this.renderOnMainThread(cameraId, target, blob, wantBitmap);
+        }
+    }
+
+    // Frames skipped because a newer one arrived while decoding
+    public getDroppedFrameCount(): number {
+        return this.droppedFrames;
+    }
+
+    public onFrameRendered(callback: (cameraId: string, frame: RenderedFrame) => void): void {
+        this.onFrameRenderedCallback = callback;
+    }
+
+    public onVisibilityChanged(callback: (cameraId: string, visible: boolean) => void): void {
+        this.onVisibilityChangedCallback = callback;
+    }
+
+    // Called with true for each camera when the worker fails, and with false once it draws again
+    public onRenderFailed(callback: (cameraId: string, failed: boolean) => void): void {
+        this.onRenderFailedCallback = callback;
+    }
+
+    private startWorker(): void {
+        if (!supportsOffscreenRendering()) {
+            console.warn('OffscreenCanvas not supported, decoding frames on the main thread');
+            return;
+        }
+
+        try {
+            this.worker = new Worker(new URL('./frame-worker.js', import.meta.url), { type: 'module' });
+        } catch (error) {
+            console.warn('Failed to start frame worker, decoding frames on the main thread:', error);
+            return;
+        }
+
+        this.worker.onmessage = (event: MessageEvent<FrameWorkerResult>) => {
+            const result = event.data;
+            if (result.type === 'rendered') {
+                this.finishFrame(result.cameraId, { width: result.width, height: result.height, bitmap: result.bitmap });
+            } else {
+                console.error(`Failed to decode frame from ${result.cameraId}: ${result.message}`);
+                this.finishFrame(result.cameraId, null);
+            }
+        };
+        this.worker.onerror = (event: ErrorEvent) => {
+            console.error('Frame worker failed, decoding frames on the main thread:', event.message);
+            this.handleWorkerFailure();
+        };
+    }
+
+    // Frames in flight are lost with the worker, and canvases handed to it cannot be
+    // drawn on again: give every card a new canvas and continue on the main thread
+    private handleWorkerFailure(): void {
+        this.worker?.terminate();
+        this.worker = null;
+
+        this.targets.forEach((target, cameraId) => {
+            const canvas = document.createElement('canvas');
+            canvas.className = target.canvas.className;
+            canvas.style.cssText = target.canvas.style.cssText;
+            target.canvas.replaceWith(canvas);
+            target.canvas = canvas;
+            target.context = canvas.getContext('2d');
+            target.busy = false;
+            target.pending = null;
+            this.setFailed(cameraId, target, true);
+        });
+    }
+
+    private setFailed(cameraId: string, target: RenderTarget, failed: boolean): void {
+        target.failed = failed;
+        if (this.onRenderFailedCallback) {
+            this.onRenderFailedCallback(cameraId, failed);
+        }
+    }
+
+    private postToWorker(request: FrameWorkerRequest, transfer: Transferable[] = []): void {
+        this.worker?.postMessage(request, transfer);
+    }
+
+    private renderOnMainThread(cameraId: string, target: RenderTarget, blob: Blob, wantBitmap: boolean): void {
+        createImageBitmap(blob).then(bitmap => {
+            const context = target.context;
+            if (context) {
+                if (target.canvas.width !== bitmap.width || target.canvas.height !== bitmap.height) {
+                    target.canvas.width = bitmap.width;
+                    target.canvas.height = bitmap.height;
+                }
+                context.drawImage(bitmap, 0, 0);
+            }
+
+            const frame: RenderedFrame = { width: bitmap.width, height: bitmap.height, bitmap: wantBitmap ? bitmap : null };
+            if (!wantBitmap) bitmap.close();
+            this.finishFrame(cameraId, frame);
+        }).catch(error => {
+            console.error(`Failed to decode frame from ${cameraId}:`, error);
+            this.finishFrame(cameraId, null);
+        });
+    }
+
+    // Report a decoded frame (null when decoding failed) and start on the pending one
+    private finishFrame(cameraId: string, frame: RenderedFrame | null): void {
+        const target = this.targets.get(cameraId);
+        if (!target) {
+            frame?.bitmap?.close();
+            return;
+        }
+
+        target.busy = false;
+        if (frame && target.failed) {
+            this.setFailed(cameraId, target, false);
+        }
+        if (frame && this.onFrameRenderedCallback) {
+            this.onFrameRenderedCallback(cameraId, frame);
+        } else {
+            frame?.bitmap?.close();
+        }
+
+        const pending = target.pending;
+        if (pending) {
+            target.pending = null;
+            this.render(cameraId, pending.blob, pending.wantBitmap);
+        }
+    }
+
+    private handleIntersections(entries: IntersectionObserverEntry[]): void {
+        entries.forEach(entry => {
+            this.targets.forEach((target, cameraId) => {
+                if (target.viewport === entry.target && target.intersecting !== entry.isIntersecting) {
+                    target.intersecting = entry.isIntersecting;
+                    this.notifyVisibility(cameraId);
+                }
+            });
+        });
+    }
+
+    private notifyVisibility(cameraId: string): void {
+        if (this.onVisibilityChangedCallback) {
+            this.onVisibilityChangedCallback(cameraId, this.isVisible(cameraId));
+        }
+    }
+}
@@ -0,0 +1,54 @@
+// Web worker that decodes camera frames and draws them onto transferred canvases
+
+import { FrameWorkerRequest, FrameWorkerResult } from './frame-renderer.js';
+
+// The project compiles against the DOM library, so describe the worker scope we use
+const workerScope = self as unknown as {
+    onmessage: ((event: MessageEvent<FrameWorkerRequest>) => void) | null;
+    postMessage(message: FrameWorkerResult, transfer?: Transferable[]): void;
+};
+
+const contexts: Map<string, OffscreenCanvasRenderingContext2D> = new Map();
+
+function renderFrame(cameraId: string, blob: Blob, wantBitmap: boolean): void {
+    createImageBitmap(blob).then(bitmap => {
+        const context = contexts.get(cameraId);
+        if (context) {
+            const canvas = context.canvas;
+            if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+                canvas.width = bitmap.width;
+                canvas.height = bitmap.height;
+            }
+            context.drawImage(bitmap, 0, 0);
+        }
+
+        const { width, height } = bitmap;
+        if (wantBitmap) {
+            workerScope.postMessage({ type: 'rendered', cameraId, width, height, bitmap }, [bitmap]);
+        } else {
+            bitmap.close();
+            workerScope.postMessage({ type: 'rendered', cameraId, width, height, bitmap: null });
+        }
+    }).catch(error => {
+        workerScope.postMessage({ type: 'failed', cameraId, message: String(error) });
+    });
+}
+
+workerScope.onmessage = (event: MessageEvent<FrameWorkerRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'register': {
+            const context = request.canvas.getContext('2d');
+            if (context) {
+                contexts.set(request.cameraId, context);
+            }
+            break;
+        }
+        case 'unregister':
+            contexts.delete(request.cameraId);
+            break;
+        case 'frame':
+            renderFrame(request.cameraId, request.blob, request.wantBitmap);
+            break;
+    }
+};
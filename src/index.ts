@@ -1,139 +1,687 @@
-// WebSocket URL for the backend
-const WS_URL = "ws://127.0.0.1:8081/web-ws";
-
 import { 
     WsMessage, 
     WsMessageKind, 
     AnyWsMessage,
+    InitMessage,
+    AddDeviceMessage,
+    UpdateDeviceMessage,
+    RemoveDeviceMessage,
+    DevicePayload,
+    PROTOCOL_VERSION,
+    MIN_PROTOCOL_VERSION,
     parseWsMessage,
+    parseBinaryFrame,
+    deviceIdOf,
+    formatDecodeErrors,
+    negotiateProtocolVersion,
     isInitMessage,
     isAddDeviceMessage,
     isUpdateDeviceMessage,
-    isRemoveDeviceMessage
+    isRemoveDeviceMessage,
+    isCommandAckMessage,
+    isCommandErrorMessage,
+    isWebRtcOfferMessage,
+    isWebRtcCandidateMessage,
+    isMseStartMessage,
+    isMediaSessionEndedMessage,
+    isAuthOkMessage,
+    CommandMessage,
+    MP4_SEGMENT_CONTENT_TYPE,
+    AUDIO_CONTENT_TYPE,
+    decodeAudioChunk,
+    CommandKind
 } from './messages.js';
 
-import { CameraInfo, CameraCatalog } from './camera.js';
-import { CameraGridUI } from './ui.js';
+import { CameraInfo, CameraCatalog, CameraStatus, parseCameraStatus, isFrameOutOfOrder } from './camera.js';
+import { AlertManager, AlertNotifier, AlertSeverity } from './alerts.js';
+import { CommandChannel, CommandResult, SentCommand, describeCommand } from './commands.js';
+import { formatResolution } from './metrics.js';
+import { RecordingManager, downloadBlob, recordingFileName } from './recording.js';
+import { ReplayManager } from './replay.js';
+import { MotionDetector } from './motion.js';
+import { FrameRenderer, RenderedFrame } from './frame-renderer.js';
+import { StreamThrottler } from './stream-throttle.js';
+import { DEFAULT_QUALITY_SETTINGS, StreamQualityController, formatQuality } from './quality.js';
+import { MediaSessionManager } from './media.js';
+import { AudioMonitor, DEFAULT_AUDIO_SETTINGS, PushToTalk } from './audio.js';
+import { BulkOperationKind, BulkOperationRunner } from './bulk.js';
+import {
+    BackendConfig,
+    BackendConnection,
+    DEFAULT_BACKEND,
+    PRIMARY_BACKEND_ID,
+    SIMULATOR_URL_PREFIX,
+    cameraIdOf,
+    localizeTarget,
+    parseCameraId,
+    qualifyMessage
+} from './backends.js';
+import { SettingsStore } from './settings.js';
+import { collectFilterOptions, filterFromUrl, writeFilterToUrl } from './filters.js';
+import { TimelineStore } from './timeline.js';
+import { SnapshotStore, createSnapshot } from './snapshots.js';
+import { Transport, WebSocketTransport } from './transport.js';
+import { SIMULATOR_SCENARIOS, SimulatorScenario, SimulatorTransport } from './simulator.js';
+import { CapturePlaybackTransport, CapturingTransport, TrafficCapture, decodeCaptureFile } from './capture.js';
+import {
+    AlertListUI,
+    AlertRulesUI,
+    BackendsUI,
+    BulkOperationUI,
+    CameraGridUI,
+    CapturePlaybackUI,
+    ConnectionStatusUI,
+    CameraFilterUI,
+    ErrorBannerUI,
+    LoginUI,
+    SnapshotGalleryUI,
+    TimelineUI,
+    ToastType,
+    ToastUI
+} from './ui.js';
+
+const ALERT_TOAST_TYPES: Record<AlertSeverity, ToastType> = { info: 'info', warning: 'warning', critical: 'error' };
 
 class WebSocketManager {
-    private socket: WebSocket | null = null;
+    private backends: Map<string, BackendConnection> = new Map(); // In the configured order
+    private backendsOverridden: boolean; // The page URL picked the backends; they are not saved
+    private capture: TrafficCapture; // Captures the first backend
+    private capturedBackendId: string | null = null;
+    private playback: CapturePlaybackTransport | null = null;
+    private playbackUI: CapturePlaybackUI;
     private cameraCatalog: CameraCatalog;
     private gridUI: CameraGridUI;
+    private commandChannel: CommandChannel;
+    private recordingManager: RecordingManager;
+    private replayManager: ReplayManager;
+    private motionDetector: MotionDetector;
+    private frameRenderer: FrameRenderer;
+    private streamThrottler: StreamThrottler;
+    private qualityController: StreamQualityController;
+    private mediaSessions: MediaSessionManager;
+    private audioMonitor: AudioMonitor;
+    private pushToTalk: PushToTalk;
+    private bulkOperations: BulkOperationRunner;
+    private bulkOperationUI: BulkOperationUI;
+    private alertManager: AlertManager;
+    private timeline: TimelineStore;
+    private snapshots: SnapshotStore;
+    private toasts: ToastUI;
+    private settingsStore: SettingsStore;
+    private connectionStatus: ConnectionStatusUI;
+    private errorBanner: ErrorBannerUI;
+    private loginUI: LoginUI;
+    private loginQueue: { backendId: string; message: string | null }[] = []; // The first one is shown
+    private backendsUI: BackendsUI;
+    private filterUI: CameraFilterUI;
 
-    constructor() {
+    constructor(params: URLSearchParams) {
+        this.capture = new TrafficCapture();
+        this.capture.onLimitReached(() => {
+            this.stopCapture();
+            this.toasts.show('Capture size limit reached, capture saved', 'warning');
+        });
+        this.playbackUI = new CapturePlaybackUI();
+        this.playbackUI.onExit(() => this.exitPlayback());
         this.cameraCatalog = new CameraCatalog();
-        this.gridUI = new CameraGridUI();
+        this.commandChannel = new CommandChannel(data => this.sendCommand(data as CommandMessage<CommandKind>));
+        this.recordingManager = new RecordingManager();
+        this.replayManager = new ReplayManager();
+        this.motionDetector = new MotionDetector();
+        this.frameRenderer = new FrameRenderer();
+        this.frameRenderer.onFrameRendered((cameraId, frame) => this.handleRenderedFrame(cameraId, frame));
+        this.frameRenderer.onRenderFailed((cameraId, failed) => this.gridUI.setRenderFailed(cameraId, failed));
+        this.mediaSessions = new MediaSessionManager(this.cameraCatalog, this.commandChannel);
+        this.mediaSessions.onVideoFrame((cameraId, video) => this.handleVideoFrame(cameraId, video));
+        this.toasts = new ToastUI();
+        this.settingsStore = new SettingsStore();
+        this.gridUI = new CameraGridUI(
+            this.commandChannel,
+            this.recordingManager,
+            this.replayManager,
+            this.motionDetector,
+            this.settingsStore,
+            this.frameRenderer,
+            this.mediaSessions
+        );
+        this.mediaSessions.onModeChanged((cameraId, mode) => this.gridUI.setStreamMode(cameraId, mode));
+
+        // The filter comes from the page URL and is written back to it
+        const filter = filterFromUrl(params);
+        this.gridUI.setFilter(filter);
+        this.filterUI = new CameraFilterUI(filter);
+        this.filterUI.onFilterChanged(filter => {
+            this.gridUI.setFilter(filter);
+            writeFilterToUrl(filter);
+        });
+
+        this.timeline = new TimelineStore(this.settingsStore.getTimelineRetentionDays());
+        const timelineUI = new TimelineUI(
+            this.timeline,
+            () => this.cameraCatalog.getAllCameras().map(camera => camera.id),
+            id => this.settingsStore.getDisplayName(id)
+        );
+        timelineUI.onRetentionChanged(days => {
+            this.settingsStore.setTimelineRetentionDays(days);
+            this.timeline.setRetentionDays(days);
+        });
+
+        this.snapshots = new SnapshotStore();
+        const snapshotGalleryUI = new SnapshotGalleryUI(this.snapshots, this.settingsStore.getSnapshotOnAlert());
+        snapshotGalleryUI.onSnapshotOnAlertChanged(enabled => this.settingsStore.setSnapshotOnAlert(enabled));
+        this.gridUI.onSnapshot(cameraId => this.takeSnapshot(cameraId, null));
+
+        this.alertManager = new AlertManager(this.cameraCatalog, id => this.settingsStore.getDisplayName(id));
+        this.alertManager.setSettings(this.settingsStore.getAlertSettings());
+        new AlertNotifier(this.alertManager);
+        new AlertListUI(this.alertManager);
+        const alertRulesUI = new AlertRulesUI(this.settingsStore.getAlertSettings());
+        alertRulesUI.onSettingsChanged(settings => {
+            this.settingsStore.setAlertSettings(settings);
+            this.alertManager.setSettings(settings);
+        });
+        this.alertManager.on('raised', alert => {
+            this.toasts.show(alert.message, ALERT_TOAST_TYPES[alert.rule.severity], 10000);
+            if (alert.cameraId !== null && this.cameraCatalog.hasCamera(alert.cameraId) && this.settingsStore.getSnapshotOnAlert()) {
+                this.takeSnapshot(alert.cameraId, alert.message);
+            }
+        });
+
+        this.streamThrottler = new StreamThrottler(this.cameraCatalog, this.commandChannel);
+        this.streamThrottler.setEnabled(this.settingsStore.getPauseHiddenStreams());
+        this.streamThrottler.setKeepStreaming(cameraId => this.needsFrames(cameraId));
+        this.streamThrottler.onPausedChanged((cameraId, paused) => {
+            this.alertManager.setStreamStopRequested(cameraId, paused);
+        });
+        this.frameRenderer.onVisibilityChanged((cameraId, visible) => {
+            this.streamThrottler.setVisible(cameraId, visible);
+        });
+        this.gridUI.onStreamCommand((cameraId, streaming) => this.setStreamStopRequested(cameraId, !streaming));
+
+        this.audioMonitor = new AudioMonitor();
+        this.audioMonitor.onLevel((cameraId, level) => this.gridUI.setAudioLevel(cameraId, level));
+        this.audioMonitor.onLoudChanged((cameraId, level) => {
+            this.gridUI.setLoud(cameraId, level !== null);
+            this.alertManager.setLoudNoise(cameraId, level);
+        });
+        this.pushToTalk = new PushToTalk(this.cameraCatalog, this.commandChannel, (cameraId, data) => this.sendBinary(cameraId, data));
+        this.pushToTalk.onTalkChanged((cameraId, talking, error) => {
+            this.gridUI.setTalking(cameraId, talking);
+            if (error) {
+                this.toasts.show(`Push-to-talk to ${this.settingsStore.getDisplayName(cameraId)} failed: ${error}`, 'error');
+            }
+        });
+        this.gridUI.onTalk((cameraId, talking) => {
+            if (talking) {
+                this.pushToTalk.start(cameraId);
+            } else {
+                this.pushToTalk.stop(cameraId);
+            }
+        });
+
+        this.bulkOperations = new BulkOperationRunner(this.cameraCatalog, this.commandChannel);
+        this.bulkOperationUI = new BulkOperationUI(id => this.settingsStore.getDisplayName(id));
+        this.bulkOperations.onProgress(operation => this.bulkOperationUI.render(operation));
+        this.bulkOperations.onDeviceDone((kind, cameraId) => {
+            const running = kind === 'refresh';
+            this.gridUI.setToggleStates(cameraId, running, running);
+            this.setStreamStopRequested(cameraId, !running);
+        });
+        this.bulkOperationUI.onConfirm((kind, cameraIds) => this.startBulkOperation(kind, cameraIds));
+        this.bulkOperationUI.onRetry(() => this.bulkOperations.retryFailed());
+
+        this.qualityController = new StreamQualityController(this.cameraCatalog, this.commandChannel);
+        this.qualityController.onQualityChanged((cameraId, quality, thumbnail) => {
+            this.gridUI.setAppliedQuality(cameraId, `${formatQuality(quality)}${thumbnail ? ' (thumbnail)' : ''}`);
+        });
+        // The unfocused cards of the focus view are thumbnails and get a smaller stream
+        this.gridUI.onFocusChanged(focusedCameraId => {
+            this.cameraCatalog.getAllCameras().forEach(camera => {
+                this.qualityController.setThumbnail(camera.id, focusedCameraId !== null && camera.id !== focusedCameraId);
+            });
+        });
+
+        this.settingsStore.onSettingsChanged((cameraId: string | null) => {
+            const cameraIds = cameraId !== null ? [cameraId] : this.cameraCatalog.getAllCameras().map(camera => camera.id);
+            cameraIds.forEach(id => this.applyCameraSettings(id));
+            this.gridUI.refreshSettings(cameraId);
+            this.updateFilterOptions();
+            if (cameraId === null) {
+                // Bulk changes include imports, which also replace the alert rules
+                alertRulesUI.setSettings(this.settingsStore.getAlertSettings());
+                this.alertManager.setSettings(this.settingsStore.getAlertSettings());
+                this.timeline.setRetentionDays(this.settingsStore.getTimelineRetentionDays());
+                this.streamThrottler.setEnabled(this.settingsStore.getPauseHiddenStreams());
+                const backends = this.settingsStore.getBackends();
+                if (!this.backendsOverridden && JSON.stringify(backends) !== JSON.stringify(this.getBackendConfigs())) {
+                    this.applyBackends(backends);
+                }
+            }
+        });
+
+        this.motionDetector.onMotionChanged((cameraId, active) => {
+            this.gridUI.setMotionActive(cameraId, active);
+            if (active) {
+                this.toasts.show(`Motion detected on ${this.settingsStore.getDisplayName(cameraId)}`, 'warning');
+            }
+        });
+        this.connectionStatus = new ConnectionStatusUI();
+        this.errorBanner = new ErrorBannerUI();
+        this.connectionStatus.onRetryRequested(backendId => this.backends.get(backendId)?.retryNow());
+
+        this.loginUI = new LoginUI();
+        this.loginUI.onLogin(credentials => {
+            const backend = this.getLoginBackend();
+            if (!backend) return;
+            backend.getAuth().setCredentials(credentials);
+            backend.retryNow();
+        });
+        this.loginUI.onCancel(() => {
+            this.loginQueue.shift();
+            this.showNextLogin();
+        });
+        this.loginUI.onLogout(() => this.logout());
+
+        this.backendsUI = new BackendsUI();
+        this.backendsUI.onBackendsChanged(configs => {
+            this.settingsStore.setBackends(configs);
+            this.applyBackends(configs);
+        });
         
-        // Set up catalog callbacks to update UI
+        // Set up catalog subscriptions to update the UI and per-camera state
         this.cameraCatalog.onCameraAdded((camera: CameraInfo) => {
+            this.applyCameraSettings(camera.id);
             this.gridUI.addCamera(camera);
+            this.updateFilterOptions();
         });
         
         this.cameraCatalog.onCameraUpdated((camera: CameraInfo) => {
             this.gridUI.updateCamera(camera);
+            this.mediaSessions.update(camera);
+        });
+
+        // No more frames will end a motion event of a camera that went away or silent
+        const endMotion = (camera: CameraInfo) => {
+            if (camera.status !== 'Connected' || camera.inactive) {
+                this.motionDetector.handleSignalLost(camera.id);
+            }
+        };
+        this.cameraCatalog.on('statusChanged', ({ camera }) => endMotion(camera));
+        this.cameraCatalog.on('inactivityChanged', endMotion);
+
+        // Finish any recording and drop buffered state before the card goes
+        this.cameraCatalog.onCameraRemoved((camera: CameraInfo) => {
+            this.recordingManager.stopRecording(camera.id);
+            this.replayManager.removeCamera(camera.id);
+            this.motionDetector.removeCamera(camera.id);
+            this.streamThrottler.removeCamera(camera.id);
+            this.qualityController.removeCamera(camera.id);
+            this.pushToTalk.stop(camera.id);
+            this.audioMonitor.removeCamera(camera.id);
+            this.gridUI.removeCamera(camera.id);
+            this.updateFilterOptions();
         });
         
+        this.recordTimelineEvents();
         this.cameraCatalog.startInactivityMonitoring();
-        this.connect();
-    }
-
-    private connect(): void {
-        console.log('Attempting to connect to WebSocket...');
-
-        this.socket = new WebSocket(WS_URL);
-
-        // Connection opened
-        this.socket.addEventListener('open', (event: Event) => {
-            console.log('WebSocket connection established');
-            // Update connection status in UI
-            const statusIndicator = document.getElementById('connectionIndicator');
-            const statusText = document.getElementById('connectionStatus');
-            if (statusIndicator) statusIndicator.classList.add('connected');
-            if (statusText) statusText.textContent = 'Connected';
-        });
-
-        // Listen for messages from the server
-        this.socket.addEventListener('message', (event: MessageEvent) => {
-            // Check if we received binary data (image)
-            if (event.data instanceof ArrayBuffer) {
-                this.handleBinaryMessage(event.data);
-            } else if (event.data instanceof Blob) {
-                // Convert Blob to ArrayBuffer
-                event.data.arrayBuffer().then(arrayBuffer => {
-                    this.handleBinaryMessage(arrayBuffer);
-                });
-            } else if (typeof event.data === 'string') {
-                this.handleTextMessage(event.data);
-            } else {
-                console.log('Unknown data type received:', event.data);
+
+        const overridden = backendsFromUrl(params, this.settingsStore.getBackends());
+        this.backendsOverridden = overridden !== null;
+        this.applyBackends(overridden ?? this.settingsStore.getBackends());
+    }
+
+    private updateFilterOptions(): void {
+        this.filterUI.setOptions(collectFilterOptions(this.cameraCatalog.getAllCameras(), id => this.settingsStore.get(id)));
+    }
+
+    // Push a camera's saved settings into the catalog and motion detector
+    private applyCameraSettings(cameraId: string): void {
+        const settings = this.settingsStore.get(cameraId);
+        this.cameraCatalog.setInactivityTimeout(cameraId, settings.inactivityTimeoutMs ?? null);
+        if (settings.motion) {
+            this.motionDetector.updateSettings(cameraId, settings.motion);
+            this.streamThrottler.refresh(cameraId);
+        }
+        this.qualityController.setSettings(cameraId, settings.quality ?? DEFAULT_QUALITY_SETTINGS);
+        this.audioMonitor.setSettings(cameraId, settings.audio ?? DEFAULT_AUDIO_SETTINGS);
+    }
+
+    // Persist everything the dashboard learns about cameras in the event timeline
+    private recordTimelineEvents(): void {
+        this.cameraCatalog.on('added', camera => {
+            this.timeline.record({ cameraId: camera.id, type: 'device-added', status: camera.status, message: `Added (${camera.status})` });
+        });
+        this.cameraCatalog.on('removed', camera => {
+            this.timeline.record({ cameraId: camera.id, type: 'device-removed', message: 'Removed' });
+        });
+        this.cameraCatalog.on('statusChanged', ({ camera, transition }) => {
+            this.timeline.record({
+                cameraId: camera.id,
+                type: 'status',
+                status: transition.to,
+                message: `Status ${transition.from} → ${transition.to}`
+            });
+        });
+        this.cameraCatalog.on('inactivityChanged', camera => {
+            this.timeline.record({
+                cameraId: camera.id,
+                type: 'inactivity',
+                inactive: camera.inactive,
+                message: camera.inactive ? 'No frames or messages, marked inactive' : 'Active again'
+            });
+        });
+        this.commandChannel.onCommandSettled((command: SentCommand, result: CommandResult) => {
+            // ICE candidates are too chatty to keep
+            if (command.kind === CommandKind.WebRtcCandidate) return;
+
+            const description = describeCommand(command.kind, command.payload);
+            this.timeline.record({
+                cameraId: deviceIdOf(command.payload),
+                type: 'command',
+                message: result.ok
+                    ? `${description} acknowledged`
+                    : `${description} failed (${result.reason}): ${result.message}`
+            });
+        });
+        this.alertManager.on('raised', alert => {
+            this.timeline.record({ cameraId: alert.cameraId, type: 'alert', message: `${alert.rule.severity}: ${alert.message}` });
+        });
+    }
+
+    // Bring the open connections in line with the backend list: connect new backends,
+    // drop removed ones with their cameras and apply changed labels, addresses and policies
+    private applyBackends(configs: BackendConfig[]): void {
+        Array.from(this.backends.keys())
+            .filter(backendId => !configs.some(config => config.id === backendId))
+            .forEach(backendId => this.removeBackend(backendId));
+
+        // Capture and playback stay with the first backend
+        const capturedBackendId = configs[0]?.id ?? null;
+        const previousCapturedId = this.capturedBackendId;
+        this.capturedBackendId = capturedBackendId;
+
+        const backends = new Map<string, BackendConnection>();
+        configs.forEach(config => {
+            const backend = this.backends.get(config.id);
+            if (!backend) {
+                backends.set(config.id, this.addBackend(config));
+                return;
+            }
+
+            const moved = (config.id === capturedBackendId) !== (config.id === previousCapturedId);
+            const urlChanged = backend.getConfig().url !== config.url;
+            backend.setConfig(config);
+            if ((moved || urlChanged) && !this.playback) {
+                backend.switchTransport(this.createLiveTransport(config));
             }
+            this.connectionStatus.setState(config.id, config.label, backend.getState());
+            backends.set(config.id, backend);
         });
+        this.backends = backends;
+
+        this.gridUI.setBackends(configs.map(({ id, label }) => ({ id, label })));
+        this.backendsUI.setBackends(configs, this.backendsOverridden ? 'Picked by the page URL; edit the saved backends without it' : null);
+        this.updateSessions();
+    }
+
+    private getBackendConfigs(): BackendConfig[] {
+        return Array.from(this.backends.values()).map(backend => backend.getConfig());
+    }
+
+    private addBackend(config: BackendConfig): BackendConnection {
+        const backend = new BackendConnection(config, this.createLiveTransport(config));
+        const backendId = config.id;
 
-        // Connection closed
-        this.socket.addEventListener('close', (event: CloseEvent) => {
-            console.log('WebSocket connection closed');
+        backend.onStateChanged((state, retryInSeconds) => {
+            const label = backend.getConfig().label;
+            this.connectionStatus.setState(backendId, label, state, retryInSeconds);
+            this.gridUI.setBackendState(backendId, state);
+            this.backendsUI.setState(backendId, state);
+            // A backend paused on purpose does not raise backend-disconnected
+            if (state === 'paused') {
+                this.alertManager.removeBackend(backendId);
+            } else if (state !== 'connected') {
+                this.alertManager.setBackendConnected(backendId, label, false);
+            }
         });
+        backend.onOpen(() => {
+            const label = backend.getConfig().label;
+            this.alertManager.setBackendConnected(backendId, label, true);
+            this.qualityController.resetConnection(cameraId => parseCameraId(cameraId).backendId === backendId);
+            this.timeline.record({ cameraId: null, type: 'connection', connected: true, backendId, message: `Connected to ${label}` });
+        });
+        backend.onMessage(data => {
+            if (typeof data === 'string') {
+                this.handleTextMessage(backend, data);
+            } else {
+                this.handleBinaryMessage(backend, data);
+            }
+        });
+        backend.onDisconnected(code => this.handleDisconnected(backend, code));
 
-        // Error handling
-        this.socket.addEventListener('error', (event: Event) => {
-            console.error('WebSocket error:', event);
+        const auth = backend.getAuth();
+        this.gridUI.setBackendRole(backendId, auth.isSignedIn() ? auth.getRole() : null);
+        auth.onSessionChanged(role => {
+            this.gridUI.setBackendRole(backendId, role);
+            this.updateSessions();
         });
+        auth.onLoginRequired(message => this.requestLogin(backendId, message));
+
+        this.backends.set(backendId, backend);
+        if (this.playback && backendId !== this.capturedBackendId) {
+            this.connectionStatus.setState(backendId, config.label, backend.getState());
+        } else {
+            backend.start();
+        }
+        return backend;
+    }
+
+    private removeBackend(backendId: string): void {
+        const backend = this.backends.get(backendId);
+        if (!backend) return;
+
+        console.log(`Removing backend ${backend.getConfig().label}`);
+        backend.dispose();
+        this.backends.delete(backendId);
+        this.cameraCatalog.findCameras(camera => camera.backendId === backendId)
+            .forEach(camera => this.cameraCatalog.removeCamera(camera.id));
+        this.alertManager.removeBackend(backendId);
+        this.connectionStatus.removeBackend(backendId);
+        this.loginQueue = this.loginQueue.filter(login => login.backendId !== backendId);
+        this.showNextLogin();
+    }
+
+    // `simulate:<scenario>` addresses run the built-in simulator. The first backend's traffic can be captured.
+    private createLiveTransport(config: BackendConfig): Transport {
+        const transport = createTransport(config.url);
+        return config.id === this.capturedBackendId ? new CapturingTransport(transport, this.capture) : transport;
+    }
+
+    private handleDisconnected(backend: BackendConnection, code: number | null): void {
+        const backendId = backend.getId();
+        const label = backend.getConfig().label;
+        if (code !== null) {
+            this.timeline.record({
+                cameraId: null,
+                type: 'connection',
+                connected: false,
+                backendId,
+                message: `Connection to ${label} lost (code ${code})`
+            });
+        }
+
+        const owned = (cameraId: string) => parseCameraId(cameraId).backendId === backendId;
+        this.commandChannel.failAll(
+            code !== null ? `Connection to ${label} was lost` : `Disconnected from ${label}`,
+            command => owned(deviceIdOf(command.payload))
+        );
+        this.mediaSessions.closeAll(owned);
+
+        // Without a connection none of the backend's cameras is reachable
+        this.cameraCatalog.findCameras(camera => camera.backendId === backendId)
+            .forEach(camera => this.cameraCatalog.markInactive(camera.id));
+    }
+
+    // Backends ask for a login one at a time
+    private requestLogin(backendId: string, message: string | null): void {
+        const queued = this.loginQueue.find(login => login.backendId === backendId);
+        if (queued) {
+            queued.message = message;
+        } else {
+            this.loginQueue.push({ backendId, message });
+        }
+        if (this.loginQueue[0]?.backendId === backendId) {
+            this.showNextLogin();
+        }
+    }
+
+    private showNextLogin(): void {
+        const next = this.loginQueue[0];
+        const backend = next ? this.backends.get(next.backendId) : undefined;
+        if (next && backend) {
+            this.loginUI.show(backend.getConfig().label, next.message);
+        } else {
+            this.loginUI.hide();
+        }
+    }
+
+    private getLoginBackend(): BackendConnection | null {
+        const next = this.loginQueue[0];
+        return next ? this.backends.get(next.backendId) ?? null : null;
+    }
+
+    private updateSessions(): void {
+        const several = this.backends.size > 1;
+        this.loginUI.setSessions(Array.from(this.backends.values())
+            .filter(backend => backend.getAuth().isSignedIn())
+            .map(backend => ({ label: several ? backend.getConfig().label : null, role: backend.getAuth().getRole() })));
+    }
+
+    // Viewers cannot command the cameras of their backend
+    private canControl(cameraId: string): boolean {
+        return this.backends.get(parseCameraId(cameraId).backendId)?.getAuth().getRole() !== 'viewer';
     }
 
-    private handleBinaryMessage(data: ArrayBuffer): void {
-        const view = new Uint8Array(data);
-        const ip = `${view[0]}.${view[1]}.${view[2]}.${view[3]}`;
-        const imageData = data.slice(4);
+    private handleBinaryMessage(backend: BackendConnection, data: ArrayBuffer): void {
+        if (backend.isProtocolRejected()) return;
+
+        // Frames received before Init are assumed to use the legacy layout
+        const result = parseBinaryFrame(data, backend.getProtocolVersion() ?? 1);
+        if (!result.ok) {
+            console.error(`Rejected malformed frame: ${formatDecodeErrors(result.errors)}`);
+            return;
+        }
+        const frame = result.value;
+        const id = cameraIdOf(backend.getId(), frame.deviceId);
         
         // Check if we have this camera registered
-        if (!this.cameraCatalog.hasCamera(ip)) {
-            console.error(`Received frame from unknown camera IP: ${ip}. Dropping frame.`);
+        const existing = this.cameraCatalog.getCamera(id);
+        if (!existing) {
+            console.error(`Received frame from unknown camera: ${id}. Dropping frame.`);
+            return;
+        }
+
+        // Video segments are counted as frames once the video element shows them
+        if (frame.contentType === MP4_SEGMENT_CONTENT_TYPE) {
+            this.mediaSessions.appendSegment(id, frame.data);
+            return;
+        }
+
+        // Audio has its own sequence numbers and does not count as a video frame
+        if (frame.contentType === AUDIO_CONTENT_TYPE) {
+            const chunk = decodeAudioChunk(frame.data);
+            if (chunk.ok) {
+                this.audioMonitor.handleChunk(id, chunk.value);
+            } else {
+                console.error(`Rejected malformed audio from ${id}: ${formatDecodeErrors(chunk.errors)}`);
+            }
+            return;
+        }
+
+        // Never replace a newer frame with an older one
+        if (isFrameOutOfOrder(existing.lastSequence, frame.sequence)) {
+            console.warn(`Dropping out-of-order frame #${frame.sequence} from ${id} (last #${existing.lastSequence})`);
+            this.cameraCatalog.recordOutOfOrderFrame(id);
             return;
         }
         
         // Update camera frame count and last seen
-        const camera = this.cameraCatalog.updateCameraFrame(ip);
+        const camera = this.cameraCatalog.updateCameraFrame(id, frame.sequence, frame.capturedAt, data.byteLength);
         if (!camera) {
-            console.error(`Failed to update camera ${ip}. This should not happen.`);
+            console.error(`Failed to update camera ${id}. This should not happen.`);
             return;
         }
         
-        this.displayImage(imageData, camera);
+        this.displayImage(frame.data, frame.contentType, camera);
     }
 
-    private handleTextMessage(data: string): void {
-        console.log('Received text message:', data);
+    private handleTextMessage(backend: BackendConnection, data: string): void {
+        console.log(`Received text message from ${backend.getConfig().label}:`, data);
         
-        const message = parseWsMessage(data);
-        if (!message) {
-            console.warn('Failed to parse message, ignoring');
+        if (backend.isProtocolRejected()) return;
+
+        const result = parseWsMessage(data);
+        if (!result.ok) {
+            console.error(`Rejected malformed message: ${formatDecodeErrors(result.errors)}`);
             return;
         }
 
-        this.handleStructuredMessage(message);
+        // From here on devices are addressed by their camera ID
+        this.handleStructuredMessage(backend, qualifyMessage(result.value, backend.getId()));
     }
 
-    private handleStructuredMessage(message: WsMessage): void {
+    private handleStructuredMessage(backend: BackendConnection, message: AnyWsMessage): void {
         console.log(`Handling ${message.kind} message:`, message.payload);
 
         if (isInitMessage(message)) {
-            this.handleInitMessage(message);
+            this.handleInitMessage(backend, message);
         } else if (isAddDeviceMessage(message)) {
             this.handleAddDeviceMessage(message);
         } else if (isUpdateDeviceMessage(message)) {
             this.handleUpdateDeviceMessage(message);
         } else if (isRemoveDeviceMessage(message)) {
             this.handleRemoveDeviceMessage(message);
+        } else if (isCommandAckMessage(message)) {
+            this.commandChannel.handleAck(message.payload);
+        } else if (isCommandErrorMessage(message)) {
+            this.commandChannel.handleError(message.payload);
+        } else if (isWebRtcOfferMessage(message)) {
+            this.mediaSessions.handleOffer(message.payload);
+        } else if (isWebRtcCandidateMessage(message)) {
+            this.mediaSessions.handleCandidate(message.payload);
+        } else if (isMseStartMessage(message)) {
+            this.mediaSessions.handleMseStart(message.payload);
+        } else if (isMediaSessionEndedMessage(message)) {
+            this.mediaSessions.handleSessionEnded(message.payload);
+        } else if (isAuthOkMessage(message)) {
+            backend.getAuth().handleAuthOk(message.payload);
+            if (this.loginQueue[0]?.backendId === backend.getId()) {
+                this.loginQueue.shift();
+                this.showNextLogin();
+            } else {
+                this.loginQueue = this.loginQueue.filter(login => login.backendId !== backend.getId());
+            }
         } else {
-            console.warn('Unknown message kind:', message.kind);
+            console.warn('Unknown message kind:', (message as WsMessage).kind);
         }
     }
 
-    private handleInitMessage(message: any): void {
+    private handleInitMessage(backend: BackendConnection, message: InitMessage): void {
         console.log('Handling init message:', message);
+
+        const version = negotiateProtocolVersion(message.payload);
+        if (version === null) {
+            this.rejectBackend(backend, message.payload.min_protocol_version, message.payload.protocol_version);
+            return;
+        }
+        backend.setProtocolVersion(version);
+        if (!Array.from(this.backends.values()).some(other => other.isProtocolRejected())) {
+            this.errorBanner.hide();
+        }
+        console.log(`Using protocol version ${version} with ${backend.getConfig().label}`);
         
-        const deviceCount = message.payload?.device_count || 0;
-        const existingDevices = message.payload?.devices || [];
+        const deviceCount = message.payload.device_count;
+        const existingDevices = message.payload.devices || [];
         
         console.log(`Initializing with ${deviceCount} devices`);
         
@@ -143,85 +691,403 @@ class WebSocketManager {
             console.log('Processing existing devices:', existingDevices);
         }
 
-        // Clear existing cameras if reinitializing
-        // this.cameraCatalog.clearAll(); // You might want to add this method to CameraCatalog
-        
-        // Initialize cameras for any existing devices
-        existingDevices.forEach((device: any) => {
-            if (device.ip) {
-                console.log(`Initializing existing device: ${device.ip}`);
-                this.cameraCatalog.addCamera(device.ip);
-            }
-        });
+        // Reconcile with the catalog: an Init also arrives after every reconnect, so keep
+        // cameras that still exist and drop the ones the backend no longer reports
+        const devices: { id: string; ip: string; status: CameraStatus; kind: string }[] = existingDevices
+            .map(device => ({
+                id: deviceIdOf(device),
+                ip: device.ip,
+                status: this.resolveDeviceStatus(device),
+                kind: device.kind
+            }));
+
+        this.cameraCatalog.reconcileCameras(backend.getId(), devices);
     }
 
-    private handleAddDeviceMessage(message: any): void {
+    private rejectBackend(backend: BackendConnection, backendMin: number | undefined, backendMax: number | undefined): void {
+        const backendRange = `${backendMin ?? backendMax ?? 1}-${backendMax ?? 1}`;
+        const name = this.backends.size > 1 ? `${backend.getConfig().label}: incompatible backend` : 'Incompatible backend';
+        const message = `${name}: it speaks protocol version ${backendRange}, ` +
+            `this dashboard supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}. Update the backend or the dashboard.`;
+        console.error(message);
+
+        this.errorBanner.show(message);
+        backend.rejectProtocol();
+    }
+
+    private handleAddDeviceMessage(message: AddDeviceMessage): void {
         console.log('Handling add device message:', message.payload);
         
-        const ip = message.payload.ip;
-        if (typeof ip !== 'string') {
-            console.error('Invalid IP in add device message:', ip);
-            return;
-        }
+        const id = deviceIdOf(message.payload);
         
         // Add the camera to the catalog
-        this.cameraCatalog.addCamera(ip);
-        console.log(`Device added: ${ip}`);
+        const status = this.resolveDeviceStatus(message.payload);
+        if (this.cameraCatalog.hasCamera(id)) {
+            this.cameraCatalog.setKind(id, message.payload.kind);
+            this.cameraCatalog.setCameraStatus(id, status);
+        } else {
+            this.cameraCatalog.addCamera(id, message.payload.ip, status, message.payload.kind);
+        }
+        console.log(`Device added: ${id}`);
     }
 
-    private handleUpdateDeviceMessage(message: any): void {
+    private handleUpdateDeviceMessage(message: UpdateDeviceMessage): void {
         console.log('Handling update device message:', message.payload);
-        // TODO: Implement update device message handling
+
+        const id = deviceIdOf(message.payload);
+
+        if (!this.cameraCatalog.hasCamera(id)) {
+            console.warn(`Received update for unknown device ${id}, adding it`);
+            this.cameraCatalog.addCamera(id, message.payload.ip, this.resolveDeviceStatus(message.payload), message.payload.kind);
+            return;
+        }
+
+        this.cameraCatalog.setKind(id, message.payload.kind);
+        // An update without a status leaves the current one
+        if (message.payload.status === undefined) return;
+
+        const status = parseCameraStatus(message.payload.status);
+        if (!status) {
+            console.error(`Unknown status in update device message for ${id}:`, message.payload.status);
+            return;
+        }
+        this.cameraCatalog.setCameraStatus(id, status);
     }
 
-    private handleRemoveDeviceMessage(message: any): void {
+    // Devices announced without a (known) status are assumed to be connected
+    private resolveDeviceStatus(device: DevicePayload): CameraStatus {
+        if (device.status === undefined) return 'Connected';
+
+        const status = parseCameraStatus(device.status);
+        if (!status) {
+            console.warn(`Unknown status for device ${device.ip}, assuming Connected:`, device.status);
+            return 'Connected';
+        }
+        return status;
+    }
+
+    private handleRemoveDeviceMessage(message: RemoveDeviceMessage): void {
         console.log('Handling remove device message:', message.payload);
         
-        const ip = message.payload.ip;
-        if (typeof ip !== 'string') {
-            console.error('Invalid IP in remove device message:', ip);
-            return;
-        }
+        const id = deviceIdOf(message.payload);
         
-        // Remove the camera from the catalog
-        this.cameraCatalog.removeCamera(ip);
-        console.log(`Device removed: ${ip}`);
+        this.cameraCatalog.removeCamera(id);
+        console.log(`Device removed: ${id}`);
     }
 
-    private displayImage(imageData: ArrayBuffer, camera: CameraInfo): void {
+    private displayImage(imageData: ArrayBuffer, contentType: string, camera: CameraInfo): void {
         // Convert ArrayBuffer to Blob
-        const blob = new Blob([imageData], { type: 'image/jpeg' });
-        const imageUrl = URL.createObjectURL(blob);
-        
-        // The camera element should already be created by the grid UI
-        if (!camera.element) {
-            console.warn(`Camera element not found for ${camera.ip}, waiting for grid UI to create it`);
+        const blob = new Blob([imageData], { type: contentType });
+        this.replayManager.addFrame(camera.id, blob);
+
+        // While the card shows a replay, live frames are only buffered, recorded and checked for motion
+        if (this.replayManager.isReplaying(camera.id)) {
+            if (this.needsFrames(camera.id)) {
+                this.processDetachedFrame(blob, camera);
+            }
             return;
         }
-        
-        console.log(`Updating image for camera ${camera.ip} (Frame #${camera.frameCount})`);
-        
-        // Clean up previous URL to prevent memory leaks
-        if (camera.element.src && camera.element.src.startsWith('blob:')) {
-            URL.revokeObjectURL(camera.element.src);
+
+        // Frames nobody can see are not decoded, unless recording or motion detection needs them
+        const needsFrames = this.needsFrames(camera.id);
+        if (!needsFrames && !this.frameRenderer.isVisible(camera.id)) {
+            return;
         }
-        
-        // Set new image
-        camera.element.src = imageUrl;
-        camera.element.onerror = (e) => {
-            console.error(`Image from ${camera.ip} failed to load:`, e);
-        };
+        this.frameRenderer.render(camera.id, blob, needsFrames);
+    }
+
+    // Recording and motion detection work on every frame, visible or not
+    private needsFrames(cameraId: string): boolean {
+        return this.recordingManager.isRecording(cameraId) || this.motionDetector.isEnabled(cameraId);
+    }
+
+    private handleRenderedFrame(cameraId: string, frame: RenderedFrame): void {
+        // Replayed frames are drawn through the same renderer
+        if (!this.replayManager.isReplaying(cameraId)) {
+            this.cameraCatalog.updateCameraResolution(cameraId, frame.width, frame.height);
+            if (frame.bitmap) {
+                this.recordingManager.addFrame(cameraId, frame.bitmap);
+                this.motionDetector.analyzeFrame(cameraId, frame.bitmap);
+            }
+        }
+        frame.bitmap?.close();
+    }
+
+    // Frames of a video session take the place of decoded JPEG frames
+    private handleVideoFrame(cameraId: string, video: HTMLVideoElement): void {
+        this.cameraCatalog.updateCameraFrame(cameraId, null, null);
+        if (video.videoWidth > 0 && video.videoHeight > 0) {
+            this.cameraCatalog.updateCameraResolution(cameraId, video.videoWidth, video.videoHeight);
+        }
+        if (!this.needsFrames(cameraId) || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+
+        createImageBitmap(video).then(bitmap => {
+            this.recordingManager.addFrame(cameraId, bitmap);
+            this.motionDetector.analyzeFrame(cameraId, bitmap);
+            bitmap.close();
+        }).catch(error => {
+            console.error(`Failed to capture video frame from ${cameraId}:`, error);
+        });
+    }
+
+    // Save the frame the card shows to the gallery; `alert` is the message of the alert that asked for it
+    private takeSnapshot(cameraId: string, alert: string | null): void {
+        const cameraName = this.settingsStore.getDisplayName(cameraId);
+        this.grabFrame(cameraId)
+            .then(frame => {
+                if (!frame) throw new Error('no frame received yet');
+                return createSnapshot(frame, cameraId, cameraName, alert).finally(() => frame.close());
+            })
+            .then(snapshot => this.snapshots.add(snapshot))
+            .then(snapshot => {
+                console.log(`Snapshot of ${cameraId} saved (${snapshot.width}x${snapshot.height})`);
+                if (alert === null) {
+                    this.toasts.show(`Snapshot of ${cameraName} saved`, 'success');
+                }
+            })
+            .catch((error: Error) => {
+                console.error(`Failed to take a snapshot of ${cameraId}:`, error);
+                this.toasts.show(`Snapshot of ${cameraName} failed: ${error.message}`, 'error');
+            });
+    }
+
+    // The current frame at full resolution: the playing video, else the shown JPEG frame
+    private grabFrame(cameraId: string): Promise<ImageBitmap | null> {
+        const video = this.mediaSessions.getActiveVideo(cameraId);
+        if (video && !this.replayManager.isReplaying(cameraId) && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+            return createImageBitmap(video);
+        }
+        const frame = this.replayManager.getDisplayedFrame(cameraId);
+        return frame ? createImageBitmap(frame.blob) : Promise.resolve(null);
+    }
+
+    // Live frames of a card that shows something else, e.g. a replay
+    private processDetachedFrame(blob: Blob, camera: CameraInfo): void {
+        createImageBitmap(blob).then(bitmap => {
+            this.recordingManager.addFrame(camera.id, bitmap);
+            this.motionDetector.analyzeFrame(camera.id, bitmap);
+            bitmap.close();
+        }).catch(error => {
+            console.error(`Failed to decode frame from ${camera.id} for recording and motion detection:`, error);
+        });
+    }
+
+    public setPauseHiddenStreams(pause: boolean): void {
+        this.settingsStore.setPauseHiddenStreams(pause);
+        this.streamThrottler.setEnabled(pause);
     }
 
-    public sendMessage(data: any): void {
-        if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-            this.socket.send(JSON.stringify(data));
-            console.log('Sent message:', data);
+    public sendMessage(backend: BackendConnection, data: any): boolean {
+        if (backend.send(JSON.stringify(data))) {
+            console.log(`Sent message to ${backend.getConfig().label}:`, data);
+            return true;
         } else {
-            console.error('WebSocket is not open');
+            console.error(`Connection to ${backend.getConfig().label} is not open`);
+            return false;
         }
     }
 
+    // Debug messages go to the first backend
+    public sendText(message: string): boolean {
+        const backend = this.backends.values().next().value;
+        return backend ? this.sendMessage(backend, message) : false;
+    }
+
+    // Commands go to the backend that owns the camera, addressed the way that backend knows it
+    private sendCommand(message: CommandMessage<CommandKind>): boolean {
+        const { backendId, payload } = localizeTarget(message.payload);
+        const backend = this.backends.get(backendId);
+        if (!backend) {
+            console.error(`Not sending ${message.kind}: unknown backend ${backendId}`);
+            return false;
+        }
+        return this.sendMessage(backend, { ...message, payload });
+    }
+
+    // Sign out of every backend we are signed in to; each asks for a login again
+    public logout(): void {
+        this.backends.forEach(backend => {
+            if (backend.getAuth().isSignedIn()) {
+                backend.logout();
+            }
+        });
+    }
+
+    public sendBinary(cameraId: string, data: ArrayBuffer): boolean {
+        return this.backends.get(parseCameraId(cameraId).backendId)?.send(data) ?? false;
+    }
+
+    public getCommandChannel(): CommandChannel {
+        return this.commandChannel;
+    }
+
+    public getProtocolVersion(backendId: string = PRIMARY_BACKEND_ID): number | null {
+        return this.backends.get(backendId)?.getProtocolVersion() ?? null;
+    }
+
+    public startAllRecording(): void {
+        this.cameraCatalog.getActiveCameras().forEach(camera => {
+            this.recordingManager.startRecording(camera.id, this.settingsStore.getDisplayName(camera.id));
+            this.streamThrottler.refresh(camera.id);
+        });
+    }
+
+    public stopAllRecording(): void {
+        this.recordingManager.stopAll();
+        this.cameraCatalog.getAllCameras().forEach(camera => this.streamThrottler.refresh(camera.id));
+    }
+
+    // Runs on the selected cameras, or on all of them when none are selected.
+    // An emergency stop is confirmed first.
+    public runBulkOperation(kind: BulkOperationKind): void {
+        if (this.bulkOperations.isRunning()) {
+            this.toasts.show('Another bulk operation is still running', 'warning');
+            return;
+        }
+
+        const selected = this.gridUI.getSelectedCameraIds();
+        const candidates = selected.length > 0 ? selected : this.cameraCatalog.getAllCameras().map(camera => camera.id);
+        if (candidates.length === 0) {
+            this.toasts.show('There are no cameras', 'info');
+            return;
+        }
+        // Cameras of backends we only view are left out
+        const cameraIds = candidates.filter(cameraId => this.canControl(cameraId));
+        if (cameraIds.length === 0) {
+            this.toasts.show('Viewers cannot control cameras', 'warning');
+            return;
+        }
+
+        if (kind === 'emergency-stop') {
+            this.bulkOperationUI.confirm(kind, cameraIds, selected.length > 0);
+        } else {
+            this.startBulkOperation(kind, cameraIds);
+        }
+    }
+
+    private startBulkOperation(kind: BulkOperationKind, cameraIds: string[]): void {
+        // Streams that do stop must not raise stream-stopped, even if powering off fails afterwards
+        if (kind === 'emergency-stop') {
+            cameraIds.forEach(cameraId => this.setStreamStopRequested(cameraId, true));
+        }
+        if (!this.bulkOperations.run(kind, cameraIds)) {
+            this.toasts.show('Another bulk operation is still running', 'warning');
+        }
+    }
+
+    // Streams stopped on purpose are neither resumed by the throttler nor alerted on
+    private setStreamStopRequested(cameraId: string, stopped: boolean): void {
+        this.streamThrottler.setUserStopped(cameraId, stopped);
+        this.alertManager.setStreamStopRequested(cameraId, stopped);
+    }
+
+    public exportSettings(): void {
+        const blob = new Blob([this.settingsStore.exportJson()], { type: 'application/json' });
+        downloadBlob(blob, 'nestrest-settings.json');
+    }
+
+    public importSettings(file: File): void {
+        file.text().then(json => {
+            const result = this.settingsStore.importJson(json);
+            if (result.ok) {
+                this.toasts.show(`Imported settings for ${Object.keys(result.value.cameras).length} cameras`, 'success');
+            } else {
+                console.error('Settings import failed:', result.errors);
+                this.toasts.show(`Settings import failed: ${formatDecodeErrors(result.errors)}`, 'error', 10000);
+            }
+        }).catch((error: Error) => {
+            console.error('Settings import failed:', error);
+            this.toasts.show(`Settings import failed: ${error.message}`, 'error', 10000);
+        });
+    }
+
+    public isCapturing(): boolean {
+        return this.capture.isCapturing();
+    }
+
+    public onCaptureChanged(callback: (capturing: boolean) => void): void {
+        this.capture.onCaptureChanged(callback);
+    }
+
+    public startCapture(): void {
+        const backend = this.capturedBackendId !== null ? this.backends.get(this.capturedBackendId) : undefined;
+        if (!backend || this.playback) {
+            this.toasts.show('There is no live backend to capture', 'warning');
+            return;
+        }
+        this.capture.start(backend.getDescription());
+        this.toasts.show('Capturing backend traffic', 'info');
+    }
+
+    // Stop capturing and download the session file
+    public stopCapture(): void {
+        const file = this.capture.stop();
+        if (!file) return;
+
+        const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+        downloadBlob(blob, recordingFileName('nestrest-capture', new Date(file.startedAt), 'json'));
+    }
+
+    // Replace the first backend's connection with a playback of a capture file and
+    // pause the others, whose cameras the capture does not contain
+    public loadCapture(file: File): void {
+        file.text().then(json => {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(json);
+            } catch (error) {
+                this.toasts.show(`Invalid capture file: ${error}`, 'error', 10000);
+                return;
+            }
+
+            const result = decodeCaptureFile(parsed);
+            if (!result.ok) {
+                console.error('Capture file rejected:', result.errors);
+                this.toasts.show(`Invalid capture file: ${formatDecodeErrors(result.errors)}`, 'error', 10000);
+                return;
+            }
+
+            const playback = new CapturePlaybackTransport(result.value);
+            this.playback = playback;
+            this.playbackUI.show(playback);
+            this.backends.forEach(backend => {
+                if (backend.getId() === this.capturedBackendId) {
+                    backend.switchTransport(playback);
+                } else {
+                    backend.stop();
+                }
+            });
+            this.toasts.show(`Playing back ${result.value.entries.length} captured messages`, 'info');
+        }).catch((error: Error) => {
+            console.error('Failed to load capture file:', error);
+            this.toasts.show(`Failed to load capture file: ${error.message}`, 'error', 10000);
+        });
+    }
+
+    private exitPlayback(): void {
+        this.playback = null;
+        this.playbackUI.hide();
+        this.backends.forEach(backend => {
+            if (backend.getId() === this.capturedBackendId) {
+                backend.switchTransport(this.createLiveTransport(backend.getConfig()));
+            } else {
+                backend.start();
+            }
+        });
+    }
+
+    public getSettingsStore(): SettingsStore {
+        return this.settingsStore;
+    }
+
+    public getRecordingManager(): RecordingManager {
+        return this.recordingManager;
+    }
+
+    public getAlertManager(): AlertManager {
+        return this.alertManager;
+    }
+
     public getCameraCatalog(): CameraCatalog {
         return this.cameraCatalog;
     }
@@ -231,10 +1097,44 @@ class WebSocketManager {
     }
 }
 
+// Backends picked by the page URL instead of the saved ones, or null.
+// `?simulate=<scenario>[,<scenario>...]` runs one built-in simulator per scenario,
+// `?backend=<ws url>` overrides the address of the first saved backend.
+function backendsFromUrl(params: URLSearchParams, saved: BackendConfig[]): BackendConfig[] | null {
+    const scenarios = params.get('simulate');
+    if (scenarios !== null) {
+        const list = scenarios.split(',');
+        return list.map((scenario, index) => ({
+            ...DEFAULT_BACKEND,
+            id: index === 0 ? PRIMARY_BACKEND_ID : `sim-${index + 1}`,
+            label: list.length > 1 ? `Simulator ${index + 1}` : 'Simulator',
+            url: `${SIMULATOR_URL_PREFIX}${scenario}`
+        }));
+    }
+
+    const url = params.get('backend');
+    if (url) {
+        return saved.map((backend, index) => index === 0 ? { ...backend, url } : backend);
+    }
+    return null;
+}
+
+function createTransport(url: string): Transport {
+    if (url.startsWith(SIMULATOR_URL_PREFIX)) {
+        const scenario = url.slice(SIMULATOR_URL_PREFIX.length);
+        if (SIMULATOR_SCENARIOS.includes(scenario as SimulatorScenario)) {
+            return new SimulatorTransport(scenario as SimulatorScenario);
+        }
+        console.warn(`Unknown simulator scenario "${scenario}", using "steady". Available: ${SIMULATOR_SCENARIOS.join(', ')}`);
+        return new SimulatorTransport('steady');
+    }
+    return new WebSocketTransport(url);
+}
+
 // Function to initialize WebSocket and global functions
 function initializeApp() {
-    console.log('Initializing WebSocket connection...');
-    const wsManager = new WebSocketManager();
+    console.log('Initializing backend connections...');
+    const wsManager = new WebSocketManager(new URLSearchParams(window.location.search));
 
     (window as any).wsManager = wsManager;
     (window as any).sendText = (message: string) => {
@@ -242,7 +1142,7 @@ function initializeApp() {
             console.error('message must be a string');
             return;
         }
-        wsManager.sendMessage(message);
+        wsManager.sendText(message);
     };
 
     // Debug functions for camera catalog and grid UI
@@ -260,15 +1160,77 @@ function initializeApp() {
             total: catalog.getCameraCount(),
             active: catalog.getActiveCameraCount(),
             cameras: catalog.getAllCameras().map(cam => ({
+                id: cam.id,
                 ip: cam.ip,
                 frameCount: cam.frameCount,
                 status: cam.status,
-                lastSeen: cam.lastSeen.toLocaleTimeString()
+                statusSince: cam.statusChangedAt.toLocaleTimeString(),
+                inactive: cam.inactive,
+                lastSeen: cam.lastSeen.toLocaleTimeString(),
+                fps: Number(cam.metrics.fps.toFixed(1)),
+                resolution: formatResolution(cam.metrics),
+                jitterMs: Math.round(cam.metrics.jitterMs),
+                latencyMs: cam.metrics.latencyMs !== null ? Math.round(cam.metrics.latencyMs) : null,
+                kilobytesPerSecond: Math.round(cam.metrics.bytesPerSecond / 1024),
+                droppedFrames: cam.metrics.droppedFrames,
+                outOfOrderFrames: cam.metrics.outOfOrderFrames,
+                lastCaptureTime: cam.lastCaptureTime?.toLocaleTimeString() ?? null
             }))
         };
     };
 
     (window as any).gridUI = wsManager.getGridUI();
+    (window as any).getAlerts = () => wsManager.getAlertManager().getAlerts();
+
+    // Global controls
+    document.getElementById('refreshAllBtn')?.addEventListener('click', () => wsManager.runBulkOperation('refresh'));
+    document.getElementById('emergencyStopBtn')?.addEventListener('click', () => wsManager.runBulkOperation('emergency-stop'));
+    document.getElementById('startAllRecordingBtn')?.addEventListener('click', () => wsManager.startAllRecording());
+    document.getElementById('stopAllRecordingBtn')?.addEventListener('click', () => wsManager.stopAllRecording());
+    document.getElementById('exportSettingsBtn')?.addEventListener('click', () => wsManager.exportSettings());
+
+    const captureButton = document.getElementById('captureTrafficBtn');
+    captureButton?.addEventListener('click', () => {
+        if (wsManager.isCapturing()) {
+            wsManager.stopCapture();
+        } else {
+            wsManager.startCapture();
+        }
+    });
+    wsManager.onCaptureChanged(capturing => {
+        if (!captureButton) return;
+        captureButton.classList.toggle('active', capturing);
+        (captureButton.querySelector('.capture-start-label') as HTMLElement).style.display = capturing ? 'none' : '';
+        (captureButton.querySelector('.capture-stop-label') as HTMLElement).style.display = capturing ? '' : 'none';
+    });
+
+    const captureInput = document.getElementById('loadCaptureInput') as HTMLInputElement | null;
+    document.getElementById('loadCaptureBtn')?.addEventListener('click', () => captureInput?.click());
+    captureInput?.addEventListener('change', () => {
+        const file = captureInput.files?.[0];
+        if (file) {
+            wsManager.loadCapture(file);
+        }
+        captureInput.value = '';
+    });
+
+    const pauseHiddenButton = document.getElementById('pauseHiddenStreamsBtn');
+    pauseHiddenButton?.classList.toggle('active', wsManager.getSettingsStore().getPauseHiddenStreams());
+    pauseHiddenButton?.addEventListener('click', () => {
+        const pause = !wsManager.getSettingsStore().getPauseHiddenStreams();
+        wsManager.setPauseHiddenStreams(pause);
+        pauseHiddenButton.classList.toggle('active', pause);
+    });
+
+    const importInput = document.getElementById('importSettingsInput') as HTMLInputElement | null;
+    document.getElementById('importSettingsBtn')?.addEventListener('click', () => importInput?.click());
+    importInput?.addEventListener('change', () => {
+        const file = importInput.files?.[0];
+        if (file) {
+            wsManager.importSettings(file);
+        }
+        importInput.value = '';
+    });
 }
 
 // Initialize immediately if DOM is already loaded, otherwise wait for it
@@ -0,0 +1,396 @@
+// Video sessions for cameras that advertise WebRTC or MSE streaming. Once such a
+// camera is connected the backend is asked for a session; when one cannot be
+// set up, or ends, the card falls back to JPEG frames.
+
+import { CameraCatalog, CameraInfo } from './camera.js';
+import { CommandChannel, commandTarget } from './commands.js';
+import {
+    CommandKind,
+    MediaSessionAction,
+    MediaSessionEndedPayload,
+    MseStartPayload,
+    StreamMode,
+    WebRtcCandidatePayload,
+    WebRtcOfferPayload,
+    deviceIdOf
+} from './messages.js';
+
+const SESSION_START_TIMEOUT = 15000; // The offer or MseStart must arrive within this time
+const MSE_BUFFER_SECONDS = 10; // Played video kept in the source buffer
+const MSE_MAX_LAG_SECONDS = 3; // Jump to the live edge when playback falls further behind
+
+type VideoMode = Exclude<StreamMode, 'jpeg'>;
+
+interface MediaSession {
+    cameraId: string;
+    mode: VideoMode;
+    video: HTMLVideoElement;
+    sessionId: string | null; // Known once the offer or MseStart arrives
+    active: boolean; // Video is playing in place of the JPEG frames
+    peer: RTCPeerConnection | null;
+    mediaSource: MediaSource | null;
+    sourceBuffer: SourceBuffer | null;
+    objectUrl: string | null;
+    segments: ArrayBuffer[]; // Waiting for the source buffer
+    startTimer: number | null;
+    frameCallback: number | null;
+}
+
+export class MediaSessionManager {
+    private catalog: CameraCatalog;
+    private commandChannel: CommandChannel;
+    private videos: Map<string, HTMLVideoElement> = new Map();
+    private sessions: Map<string, MediaSession> = new Map();
+    private fallback: Set<string> = new Set(); // Stay on JPEG until the camera reconnects
+    private onModeChangedCallback: ((cameraId: string, mode: StreamMode) => void) | null = null;
+    private onVideoFrameCallback: ((cameraId: string, video: HTMLVideoElement) => void) | null = null;
+
+    constructor(catalog: CameraCatalog, commandChannel: CommandChannel) {
+        this.catalog = catalog;
+        this.commandChannel = commandChannel;
+    }
+
+    public static isSupported(mode: VideoMode): boolean {
+        return mode === 'webrtc' ? typeof RTCPeerConnection !== 'undefined' : typeof MediaSource !== 'undefined';
+    }
+
+    // The card's video element, used while a session is active
+    public register(cameraId: string, video: HTMLVideoElement): void {
+        this.videos.set(cameraId, video);
+        const camera = this.catalog.getCamera(cameraId);
+        if (camera) this.update(camera);
+    }
+
+    public unregister(cameraId: string): void {
+        this.stop(cameraId);
+        this.videos.delete(cameraId);
+        this.fallback.delete(cameraId);
+    }
+
+    // Start or end the camera's session to match its advertised mode and status
+    public update(camera: CameraInfo): void {
+        const session = this.sessions.get(camera.id);
+        if (camera.status !== 'Connected') {
+            if (session) this.teardown(session);
+            this.fallback.delete(camera.id);
+            return;
+        }
+
+        // Inactive cameras include all of them while the backend is unreachable
+        const video = this.videos.get(camera.id);
+        if (session || !video || camera.inactive || camera.streamMode === 'jpeg' || this.fallback.has(camera.id)) return;
+
+        if (!MediaSessionManager.isSupported(camera.streamMode)) {
+            console.warn(`${camera.streamMode} is not supported by this browser, ${camera.id} streams JPEG`);
+            this.fallback.add(camera.id);
+            return;
+        }
+        this.start(camera, camera.streamMode, video);
+    }
+
+    public getMode(cameraId: string): StreamMode {
+        const session = this.sessions.get(cameraId);
+        return session && session.active ? session.mode : 'jpeg';
+    }
+
+    // The card's video element while it plays in place of the JPEG frames
+    public getActiveVideo(cameraId: string): HTMLVideoElement | null {
+        const session = this.sessions.get(cameraId);
+        return session && session.active ? session.video : null;
+    }
+
+    public handleOffer(payload: WebRtcOfferPayload): void {
+        const session = this.findSession(deviceIdOf(payload), 'webrtc');
+        if (!session || session.peer) {
+            console.warn(`Ignoring unexpected WebRTC offer for ${deviceIdOf(payload)}`);
+            return;
+        }
+
+        session.sessionId = payload.session_id;
+        const camera = this.catalog.getCamera(session.cameraId);
+        const peer = new RTCPeerConnection();
+        session.peer = peer;
+
+        peer.ontrack = (event: RTCTrackEvent) => {
+            session.video.srcObject = event.streams[0] ?? new MediaStream([event.track]);
+            this.activate(session);
+        };
+        peer.onicecandidate = (event: RTCPeerConnectionIceEvent) => {
+            if (!event.candidate || !camera) return;
+            const candidate: WebRtcCandidatePayload = {
+                ...commandTarget(camera),
+                session_id: payload.session_id,
+                candidate: event.candidate.candidate
+            };
+            if (event.candidate.sdpMid !== null) candidate.sdp_mid = event.candidate.sdpMid;
+            if (event.candidate.sdpMLineIndex !== null) candidate.sdp_mline_index = event.candidate.sdpMLineIndex;
+            this.commandChannel.sendCommand(CommandKind.WebRtcCandidate, candidate);
+        };
+        peer.onconnectionstatechange = () => {
+            if (peer.connectionState === 'failed') {
+                this.fail(session, 'WebRTC connection failed');
+            }
+        };
+
+        peer.setRemoteDescription({ type: 'offer', sdp: payload.sdp })
+            .then(() => peer.createAnswer())
+            .then(answer => peer.setLocalDescription(answer).then(() => answer))
+            .then(answer => {
+                if (!camera) return;
+                return this.commandChannel.sendCommand(CommandKind.WebRtcAnswer, {
+                    ...commandTarget(camera),
+                    session_id: payload.session_id,
+                    sdp: answer.sdp ?? ''
+                }).then(result => {
+                    if (!result.ok) this.fail(session, `answer not accepted: ${result.message}`);
+                });
+            })
+            .catch(error => this.fail(session, `negotiation failed: ${error}`));
+    }
+
+    public handleCandidate(payload: WebRtcCandidatePayload): void {
+        const session = this.findSession(deviceIdOf(payload), 'webrtc');
+        if (!session || !session.peer || session.sessionId !== payload.session_id) {
+            console.warn(`Ignoring ICE candidate for unknown session ${payload.session_id}`);
+            return;
+        }
+
+        const candidate: RTCIceCandidateInit = { candidate: payload.candidate };
+        if (payload.sdp_mid !== undefined) candidate.sdpMid = payload.sdp_mid;
+        if (payload.sdp_mline_index !== undefined) candidate.sdpMLineIndex = payload.sdp_mline_index;
+        session.peer.addIceCandidate(candidate).catch(error => {
+            console.warn(`Failed to add ICE candidate for ${session.cameraId}:`, error);
+        });
+    }
+
+    public handleMseStart(payload: MseStartPayload): void {
+        const session = this.findSession(deviceIdOf(payload), 'mse');
+        if (!session || session.mediaSource) {
+            console.warn(`Ignoring unexpected MseStart for ${deviceIdOf(payload)}`);
+            return;
+        }
+
+        session.sessionId = payload.session_id;
+        if (!MediaSource.isTypeSupported(payload.mime_type)) {
+            this.fail(session, `unsupported stream type ${payload.mime_type}`);
+            return;
+        }
+
+        const mediaSource = new MediaSource();
+        session.mediaSource = mediaSource;
+        session.objectUrl = URL.createObjectURL(mediaSource);
+        mediaSource.addEventListener('sourceopen', () => {
+            try {
+                const sourceBuffer = mediaSource.addSourceBuffer(payload.mime_type);
+                sourceBuffer.mode = 'segments';
+                sourceBuffer.addEventListener('updateend', () => this.appendPending(session));
+                sourceBuffer.addEventListener('error', () => this.fail(session, 'source buffer error'));
+                session.sourceBuffer = sourceBuffer;
+                this.appendPending(session);
+            } catch (error) {
+                this.fail(session, `cannot play ${payload.mime_type}: ${error}`);
+            }
+        }, { once: true });
+        session.video.src = session.objectUrl;
+        this.activate(session);
+    }
+
+    // A fragmented MP4 segment from a binary frame
+    public appendSegment(cameraId: string, data: ArrayBuffer): void {
+        const session = this.findSession(cameraId, 'mse');
+        if (!session || !session.mediaSource) {
+            console.warn(`Dropping media segment from ${cameraId} without an MSE session`);
+            return;
+        }
+        session.segments.push(data);
+        this.appendPending(session);
+    }
+
+    public handleSessionEnded(payload: MediaSessionEndedPayload): void {
+        const session = this.sessions.get(deviceIdOf(payload));
+        if (!session || (session.sessionId !== null && session.sessionId !== payload.session_id)) return;
+
+        console.log(`Media session of ${session.cameraId} ended${payload.reason ? `: ${payload.reason}` : ''}, falling back to JPEG`);
+        this.fallback.add(session.cameraId);
+        this.teardown(session);
+    }
+
+    // A connection is gone and its sessions with it: close the sessions of the cameras
+    // `filter` accepts (by default all of them) and try again after reconnecting
+    public closeAll(filter: (cameraId: string) => boolean = () => true): void {
+        this.sessions.forEach(session => {
+            if (filter(session.cameraId)) this.teardown(session);
+        });
+        Array.from(this.fallback).filter(filter).forEach(cameraId => this.fallback.delete(cameraId));
+    }
+
+    public onModeChanged(callback: (cameraId: string, mode: StreamMode) => void): void {
+        this.onModeChangedCallback = callback;
+    }
+
+    // Called for every video frame shown, in place of decoded JPEG frames
+    public onVideoFrame(callback: (cameraId: string, video: HTMLVideoElement) => void): void {
+        this.onVideoFrameCallback = callback;
+    }
+
+    private start(camera: CameraInfo, mode: VideoMode, video: HTMLVideoElement): void {
+        const session: MediaSession = {
+            cameraId: camera.id,
+            mode,
+            video,
+            sessionId: null,
+            active: false,
+            peer: null,
+            mediaSource: null,
+            sourceBuffer: null,
+            objectUrl: null,
+            segments: [],
+            startTimer: null,
+            frameCallback: null
+        };
+        this.sessions.set(camera.id, session);
+        session.startTimer = window.setTimeout(() => {
+            session.startTimer = null;
+            if (!session.active) this.fail(session, 'no session offered in time');
+        }, SESSION_START_TIMEOUT);
+
+        console.log(`Requesting ${mode} session for ${camera.id}`);
+        this.commandChannel.sendCommand(CommandKind.MediaSession, {
+            ...commandTarget(camera),
+            action: MediaSessionAction.Start,
+            mode
+        }).then(result => {
+            if (result.ok) return;
+            if (result.reason === 'not-sent' || result.reason === 'disconnected') {
+                this.teardown(session); // Requested again once the connection is back
+            } else {
+                this.fail(session, result.message);
+            }
+        });
+    }
+
+    private stop(cameraId: string): void {
+        const session = this.sessions.get(cameraId);
+        if (!session) return;
+
+        const camera = this.catalog.getCamera(cameraId);
+        if (camera) {
+            this.commandChannel.sendCommand(CommandKind.MediaSession, {
+                ...commandTarget(camera),
+                action: MediaSessionAction.Stop,
+                mode: session.mode
+            });
+        }
+        this.teardown(session);
+    }
+
+    // Give up on video for this camera until it reconnects; the backend resumes JPEG frames
+    private fail(session: MediaSession, reason: string): void {
+        if (this.sessions.get(session.cameraId) !== session) return;
+
+        console.warn(`${session.mode} session for ${session.cameraId} failed (${reason}), falling back to JPEG`);
+        this.fallback.add(session.cameraId);
+        this.stop(session.cameraId);
+    }
+
+    private activate(session: MediaSession): void {
+        if (session.active) return;
+        session.active = true;
+        if (session.startTimer !== null) {
+            clearTimeout(session.startTimer);
+            session.startTimer = null;
+        }
+
+        session.video.play().catch(error => console.warn(`Autoplay of ${session.cameraId} blocked:`, error));
+        this.watchFrames(session);
+        if (this.onModeChangedCallback) {
+            this.onModeChangedCallback(session.cameraId, session.mode);
+        }
+    }
+
+    private watchFrames(session: MediaSession): void {
+        const onFrame = () => {
+            if (this.sessions.get(session.cameraId) !== session) return;
+            if (this.onVideoFrameCallback) {
+                this.onVideoFrameCallback(session.cameraId, session.video);
+            }
+            session.frameCallback = session.video.requestVideoFrameCallback(onFrame);
+        };
+
+        if (typeof session.video.requestVideoFrameCallback === 'function') {
+            session.frameCallback = session.video.requestVideoFrameCallback(onFrame);
+        } else {
+            // Only a few times per second, but enough to keep the camera marked active
+            session.video.addEventListener('timeupdate', () => {
+                if (this.sessions.get(session.cameraId) === session && this.onVideoFrameCallback) {
+                    this.onVideoFrameCallback(session.cameraId, session.video);
+                }
+            });
+        }
+    }
+
+    // Feed queued segments one at a time, keeping the buffer short and playback near live
+    private appendPending(session: MediaSession): void {
+        const sourceBuffer = session.sourceBuffer;
+        if (!sourceBuffer || sourceBuffer.updating) return;
+
+        const video = session.video;
+        const buffered = sourceBuffer.buffered;
+        if (buffered.length > 0) {
+            const start = buffered.start(0);
+            const end = buffered.end(buffered.length - 1);
+            if (end - video.currentTime > MSE_MAX_LAG_SECONDS) {
+                video.currentTime = end - 0.5;
+            }
+            if (video.currentTime - start > MSE_BUFFER_SECONDS) {
+                sourceBuffer.remove(start, video.currentTime - MSE_BUFFER_SECONDS);
+                return; // Continues on updateend
+            }
+        }
+
+        const segment = session.segments.shift();
+        if (!segment) return;
+        try {
+            sourceBuffer.appendBuffer(segment);
+        } catch (error) {
+            this.fail(session, `cannot append segment: ${error}`);
+        }
+    }
+
+    private teardown(session: MediaSession): void {
+        if (this.sessions.get(session.cameraId) !== session) return;
+        this.sessions.delete(session.cameraId);
+
+        if (session.startTimer !== null) {
+            clearTimeout(session.startTimer);
+        }
+        if (session.frameCallback !== null) {
+            session.video.cancelVideoFrameCallback(session.frameCallback);
+        }
+        session.peer?.close();
+        if (session.mediaSource?.readyState === 'open') {
+            try {
+                session.mediaSource.endOfStream();
+            } catch (error) {
+                // Already ending
+            }
+        }
+
+        session.video.pause();
+        session.video.srcObject = null;
+        session.video.removeAttribute('src');
+        session.video.load();
+        if (session.objectUrl) {
+            URL.revokeObjectURL(session.objectUrl);
+        }
+
+        if (session.active && this.onModeChangedCallback) {
+            this.onModeChangedCallback(session.cameraId, 'jpeg');
+        }
+    }
+
+    private findSession(cameraId: string, mode: VideoMode): MediaSession | null {
+        const session = this.sessions.get(cameraId);
+        return session && session.mode === mode ? session : null;
+    }
+}
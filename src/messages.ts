@@ -1,10 +1,75 @@
 // WebSocket message structures for communication with Rust backend
 
+// Protocol versions this client understands. The backend advertises its own
+// range in the Init message; see negotiateProtocolVersion.
+//   1: legacy binary frames (4-byte IPv4 prefix + JPEG)
+//   2: binary frames carry a BinaryFrameHeader, devices may have a device_id
+export const PROTOCOL_VERSION = 2;
+export const MIN_PROTOCOL_VERSION = 1;
+
 export enum WsMessageKind {
     Init = "Init",
     AddDevice = "AddDevice",
     UpdateDevice = "UpdateDevice",
-    RemoveDevice = "RemoveDevice"
+    RemoveDevice = "RemoveDevice",
+    CommandAck = "CommandAck",
+    CommandError = "CommandError",
+    // Media session signaling, see MediaSessionManager
+    WebRtcOffer = "WebRtcOffer",
+    WebRtcCandidate = "WebRtcCandidate",
+    MseStart = "MseStart",
+    MediaSessionEnded = "MediaSessionEnded",
+    // Reply to an AuthMessage, see AuthManager
+    AuthOk = "AuthOk"
+}
+
+// Outbound command kinds sent from the dashboard to the backend
+export enum CommandKind {
+    DeviceCommand = "DeviceCommand",
+    StreamControl = "StreamControl",
+    StreamQuality = "StreamQuality",
+    MediaSession = "MediaSession",
+    WebRtcAnswer = "WebRtcAnswer",
+    WebRtcCandidate = "WebRtcCandidate",
+    Talk = "Talk",
+    RefreshDevice = "RefreshDevice"
+}
+
+export enum DeviceCommand {
+    On = "On",
+    Off = "Off"
+}
+
+export enum StreamAction {
+    Start = "start",
+    Stop = "stop"
+}
+
+export enum MediaSessionAction {
+    Start = "start",
+    Stop = "stop"
+}
+
+export enum TalkAction {
+    Start = "start",
+    Stop = "stop"
+}
+
+// How a camera delivers video:
+//   jpeg:   one JPEG per binary message (the default)
+//   webrtc: H.264 over a WebRTC session negotiated on the socket
+//   mse:    fragmented MP4 segments in binary messages, played through Media Source Extensions
+export type StreamMode = 'jpeg' | 'webrtc' | 'mse';
+
+// Device kinds that advertise a video streaming mode; any other kind streams JPEG
+const DEVICE_KIND_STREAM_MODES: Record<string, StreamMode> = {
+    Camera: 'jpeg',
+    WebRtcCamera: 'webrtc',
+    MseCamera: 'mse'
+};
+
+export function streamModeOf(kind: string): StreamMode {
+    return DEVICE_KIND_STREAM_MODES[kind] ?? 'jpeg';
 }
 
 export interface WsMessage<T = any> {
@@ -16,13 +81,162 @@ export interface WsMessage<T = any> {
 export interface InitPayload {
     device_count: number;
     devices?: DevicePayload[]; // Optional array of existing devices
-    // Add other init-specific fields as needed
+    protocol_version?: number; // Newest version the backend speaks (absent on pre-versioning backends)
+    min_protocol_version?: number; // Oldest version the backend still speaks
+}
+
+// Addresses a device; all RemoveDevice needs
+export interface DeviceRefPayload {
+    ip: string;
+    device_id?: string; // Protocol v2; falls back to `ip` when absent
+}
+
+export interface DevicePayload extends DeviceRefPayload {
+    kind: string;
+    status?: string; // Devices announced without one are assumed to be connected
+}
+
+// Catalog key for a device: its device ID, or the IP for pre-v2 backends
+export function deviceIdOf(payload: { ip: string; device_id?: string }): string {
+    return payload.device_id ?? payload.ip;
+}
+
+// Reply to an outbound command, correlated by request_id
+export interface CommandResultPayload {
+    request_id: string;
+    message?: string; // Human-readable reason, mainly for CommandError
+}
+
+// Outbound command payloads
+export interface DeviceCommandPayload {
+    ip: string;
+    device_id?: string;
+    command: DeviceCommand;
+}
+
+export interface StreamControlPayload {
+    ip: string;
+    device_id?: string;
+    action: StreamAction;
+}
+
+// Caps on what a camera streams. Omitted fields are left to the backend, so a
+// payload with only the address hands the stream quality back to it.
+export interface StreamQualityPayload {
+    ip: string;
+    device_id?: string;
+    max_width?: number;
+    max_height?: number;
+    target_fps?: number;
+    jpeg_quality?: number; // 1-100
+}
+
+// Ask the backend to start or end a video session for a camera. While a session
+// runs the backend sends no JPEG frames for it; they resume once it ends.
+export interface MediaSessionPayload {
+    ip: string;
+    device_id?: string;
+    action: MediaSessionAction;
+    mode: Exclude<StreamMode, 'jpeg'>;
+}
+
+export interface WebRtcAnswerPayload {
+    ip: string;
+    device_id?: string;
+    session_id: string;
+    sdp: string;
+}
+
+// Sent in both directions
+export interface WebRtcCandidatePayload {
+    ip: string;
+    device_id?: string;
+    session_id: string;
+    candidate: string;
+    sdp_mid?: string;
+    sdp_mline_index?: number;
+}
+
+// Push-to-talk. Between start and stop the dashboard sends the microphone as
+// binary frames with FrameCodec.Pcm16, addressed to the device.
+export interface TalkPayload {
+    ip: string;
+    device_id?: string;
+    action: TalkAction;
+    sample_rate?: number; // Hz; only sent with start
+}
+
+// Ask for a device's current state; the backend answers with an UpdateDevice message
+export interface RefreshDevicePayload {
+    ip: string;
+    device_id?: string;
+}
+
+// Authentication. When the backend requires it, the first message on a connection is an
+// AuthMessage with either credentials or a token from an earlier AuthOk. Sending another
+// one with the current token before it expires refreshes it. A backend that rejects the
+// authentication, or gets none, closes the connection with AUTH_FAILURE_CLOSE_CODE.
+export const AUTH_MESSAGE_KIND = "Auth";
+export const AUTH_FAILURE_CLOSE_CODE = 4001;
+
+// operator: full control; viewer: watch only, no power, stream or talk commands
+export type AuthRole = 'operator' | 'viewer';
+const AUTH_ROLES: AuthRole[] = ['operator', 'viewer'];
+
+export type AuthPayload =
+    | { token: string }
+    | { username: string; password: string; role?: AuthRole }; // role: ask for less than the account allows
+
+export interface AuthMessage {
+    kind: typeof AUTH_MESSAGE_KIND;
+    payload: AuthPayload;
+}
+
+export interface AuthOkPayload {
+    token: string;
+    role: AuthRole;
+    expires_in: number; // Seconds until the token expires
+}
+
+// Maps each outbound command kind to its payload type
+export interface CommandPayloads {
+    [CommandKind.DeviceCommand]: DeviceCommandPayload;
+    [CommandKind.StreamControl]: StreamControlPayload;
+    [CommandKind.StreamQuality]: StreamQualityPayload;
+    [CommandKind.MediaSession]: MediaSessionPayload;
+    [CommandKind.WebRtcAnswer]: WebRtcAnswerPayload;
+    [CommandKind.WebRtcCandidate]: WebRtcCandidatePayload;
+    [CommandKind.Talk]: TalkPayload;
+    [CommandKind.RefreshDevice]: RefreshDevicePayload;
+}
+
+// Inbound media session payloads
+export interface WebRtcOfferPayload {
+    ip: string;
+    device_id?: string;
+    session_id: string;
+    sdp: string;
+}
+
+// The segments follow as binary frames with FrameCodec.Mp4, the init segment first
+export interface MseStartPayload {
+    ip: string;
+    device_id?: string;
+    session_id: string;
+    mime_type: string; // e.g. video/mp4; codecs="avc1.42E01E"
 }
 
-export interface DevicePayload {
-    kind: string
+export interface MediaSessionEndedPayload {
     ip: string;
-    status: string;
+    device_id?: string;
+    session_id: string;
+    reason?: string;
+}
+
+export interface CommandMessage<K extends CommandKind = CommandKind> {
+    kind: K;
+    request_id: string;
+    payload: CommandPayloads[K];
 }
 
 // Type-safe message interfaces for each message kind
@@ -41,13 +255,50 @@ export interface UpdateDeviceMessage extends WsMessage<DevicePayload> {
     payload: DevicePayload;
 }
 
-export interface RemoveDeviceMessage extends WsMessage<DevicePayload> {
+export interface RemoveDeviceMessage extends WsMessage<DeviceRefPayload> {
     kind: WsMessageKind.RemoveDevice;
-    payload: DevicePayload;
+    payload: DeviceRefPayload;
+}
+
+export interface CommandAckMessage extends WsMessage<CommandResultPayload> {
+    kind: WsMessageKind.CommandAck;
+    payload: CommandResultPayload;
+}
+
+export interface CommandErrorMessage extends WsMessage<CommandResultPayload> {
+    kind: WsMessageKind.CommandError;
+    payload: CommandResultPayload;
+}
+
+export interface WebRtcOfferMessage extends WsMessage<WebRtcOfferPayload> {
+    kind: WsMessageKind.WebRtcOffer;
+    payload: WebRtcOfferPayload;
+}
+
+export interface WebRtcCandidateMessage extends WsMessage<WebRtcCandidatePayload> {
+    kind: WsMessageKind.WebRtcCandidate;
+    payload: WebRtcCandidatePayload;
+}
+
+export interface MseStartMessage extends WsMessage<MseStartPayload> {
+    kind: WsMessageKind.MseStart;
+    payload: MseStartPayload;
+}
+
+export interface MediaSessionEndedMessage extends WsMessage<MediaSessionEndedPayload> {
+    kind: WsMessageKind.MediaSessionEnded;
+    payload: MediaSessionEndedPayload;
+}
+
+export interface AuthOkMessage extends WsMessage<AuthOkPayload> {
+    kind: WsMessageKind.AuthOk;
+    payload: AuthOkPayload;
 }
 
 // Union type for all possible messages
-export type AnyWsMessage = InitMessage | AddDeviceMessage | UpdateDeviceMessage | RemoveDeviceMessage;
+export type AnyWsMessage = InitMessage | AddDeviceMessage | UpdateDeviceMessage | RemoveDeviceMessage |
+    CommandAckMessage | CommandErrorMessage | WebRtcOfferMessage | WebRtcCandidateMessage | MseStartMessage |
+    MediaSessionEndedMessage | AuthOkMessage;
 
 // Type guard functions to safely check message types
 export function isInitMessage(message: WsMessage): message is InitMessage {
@@ -66,24 +317,534 @@ export function isRemoveDeviceMessage(message: WsMessage): message is RemoveDevi
     return message.kind === WsMessageKind.RemoveDevice;
 }
 
-// Helper function to parse incoming WebSocket messages
-export function parseWsMessage(data: string): WsMessage | null {
-    try {
-        const parsed = JSON.parse(data);
-        
-        // Basic validation
-        if (typeof parsed === 'object' && 
-            parsed !== null && 
-            'kind' in parsed && 
-            'payload' in parsed &&
-            Object.values(WsMessageKind).includes(parsed.kind)) {
-            return parsed as WsMessage;
+export function isCommandAckMessage(message: WsMessage): message is CommandAckMessage {
+    return message.kind === WsMessageKind.CommandAck;
+}
+
+export function isCommandErrorMessage(message: WsMessage): message is CommandErrorMessage {
+    return message.kind === WsMessageKind.CommandError;
+}
+
+export function isWebRtcOfferMessage(message: WsMessage): message is WebRtcOfferMessage {
+    return message.kind === WsMessageKind.WebRtcOffer;
+}
+
+export function isWebRtcCandidateMessage(message: WsMessage): message is WebRtcCandidateMessage {
+    return message.kind === WsMessageKind.WebRtcCandidate;
+}
+
+export function isMseStartMessage(message: WsMessage): message is MseStartMessage {
+    return message.kind === WsMessageKind.MseStart;
+}
+
+export function isMediaSessionEndedMessage(message: WsMessage): message is MediaSessionEndedMessage {
+    return message.kind === WsMessageKind.MediaSessionEnded;
+}
+
+export function isAuthOkMessage(message: WsMessage): message is AuthOkMessage {
+    return message.kind === WsMessageKind.AuthOk;
+}
+
+// Structured decoding errors. `path` points at the offending field, e.g. "payload.devices[2].ip"
+export interface DecodeError {
+    path: string;
+    message: string;
+}
+
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; errors: DecodeError[] };
+
+export function formatDecodeErrors(errors: DecodeError[]): string {
+    return errors.map(error => error.path ? `${error.path}: ${error.message}` : error.message).join('; ');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function expectString(record: Record<string, unknown>, field: string, path: string, errors: DecodeError[]): string {
+    const value = record[field];
+    if (typeof value !== 'string' || value.length === 0) {
+        errors.push({ path: `${path}.${field}`, message: `expected non-empty string, got ${describe(value)}` });
+        return '';
+    }
+    return value;
+}
+
+function expectOptionalString(record: Record<string, unknown>, field: string, path: string, errors: DecodeError[]): string | undefined {
+    const value = record[field];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'string') {
+        errors.push({ path: `${path}.${field}`, message: `expected string, got ${describe(value)}` });
+        return undefined;
+    }
+    return value;
+}
+
+function expectOptionalInteger(record: Record<string, unknown>, field: string, path: string, errors: DecodeError[]): number | undefined {
+    const value = record[field];
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        errors.push({ path: `${path}.${field}`, message: `expected non-negative integer, got ${describe(value)}` });
+        return undefined;
+    }
+    return value;
+}
+
+// Per-kind payload decoders
+export function decodeDeviceRefPayload(value: unknown, path: string = 'payload'): DecodeResult<DeviceRefPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const payload: DeviceRefPayload = { ip: expectString(value, 'ip', path, errors) };
+
+    const deviceId = expectOptionalString(value, 'device_id', path, errors);
+    if (deviceId !== undefined) payload.device_id = deviceId;
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeDevicePayload(value: unknown, path: string = 'payload'): DecodeResult<DevicePayload> {
+    const ref = decodeDeviceRefPayload(value, path);
+    if (!ref.ok) {
+        return ref;
+    }
+
+    const record = value as Record<string, unknown>;
+    const errors: DecodeError[] = [];
+    const payload: DevicePayload = { ...ref.value, kind: expectString(record, 'kind', path, errors) };
+
+    const status = expectOptionalString(record, 'status', path, errors);
+    if (status !== undefined) payload.status = status;
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeInitPayload(value: unknown, path: string = 'payload'): DecodeResult<InitPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const deviceCount = expectOptionalInteger(value, 'device_count', path, errors);
+    if (value.device_count === undefined) {
+        errors.push({ path: `${path}.device_count`, message: 'missing required field' });
+    }
+
+    const payload: InitPayload = { device_count: deviceCount ?? 0 };
+
+    if (value.devices !== undefined) {
+        if (!Array.isArray(value.devices)) {
+            errors.push({ path: `${path}.devices`, message: `expected array, got ${describe(value.devices)}` });
+        } else {
+            // A malformed device is skipped; the rest of Init still counts
+            const devices: DevicePayload[] = [];
+            value.devices.forEach((device, index) => {
+                const result = decodeDevicePayload(device, `${path}.devices[${index}]`);
+                if (result.ok) {
+                    devices.push(result.value);
+                } else {
+                    console.warn(`Skipping malformed device in Init: ${formatDecodeErrors(result.errors)}`);
+                }
+            });
+            payload.devices = devices;
         }
-        
-        console.warn('Invalid message format:', parsed);
+    }
+
+    const protocolVersion = expectOptionalInteger(value, 'protocol_version', path, errors);
+    if (protocolVersion !== undefined) payload.protocol_version = protocolVersion;
+
+    const minProtocolVersion = expectOptionalInteger(value, 'min_protocol_version', path, errors);
+    if (minProtocolVersion !== undefined) payload.min_protocol_version = minProtocolVersion;
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeCommandResultPayload(value: unknown, path: string = 'payload'): DecodeResult<CommandResultPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const payload: CommandResultPayload = {
+        request_id: expectString(value, 'request_id', path, errors)
+    };
+
+    const message = expectOptionalString(value, 'message', path, errors);
+    if (message !== undefined) payload.message = message;
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+// Address and session fields shared by the media session payloads
+function decodeMediaSessionFields(
+    value: Record<string, unknown>,
+    path: string,
+    errors: DecodeError[]
+): { ip: string; device_id?: string; session_id: string } {
+    const fields: { ip: string; device_id?: string; session_id: string } = {
+        ip: expectString(value, 'ip', path, errors),
+        session_id: expectString(value, 'session_id', path, errors)
+    };
+    const deviceId = expectOptionalString(value, 'device_id', path, errors);
+    if (deviceId !== undefined) fields.device_id = deviceId;
+    return fields;
+}
+
+export function decodeWebRtcOfferPayload(value: unknown, path: string = 'payload'): DecodeResult<WebRtcOfferPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const payload: WebRtcOfferPayload = {
+        ...decodeMediaSessionFields(value, path, errors),
+        sdp: expectString(value, 'sdp', path, errors)
+    };
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeWebRtcCandidatePayload(value: unknown, path: string = 'payload'): DecodeResult<WebRtcCandidatePayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const payload: WebRtcCandidatePayload = {
+        ...decodeMediaSessionFields(value, path, errors),
+        candidate: expectString(value, 'candidate', path, errors)
+    };
+
+    const sdpMid = expectOptionalString(value, 'sdp_mid', path, errors);
+    if (sdpMid !== undefined) payload.sdp_mid = sdpMid;
+
+    const sdpMLineIndex = expectOptionalInteger(value, 'sdp_mline_index', path, errors);
+    if (sdpMLineIndex !== undefined) payload.sdp_mline_index = sdpMLineIndex;
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeMseStartPayload(value: unknown, path: string = 'payload'): DecodeResult<MseStartPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const payload: MseStartPayload = {
+        ...decodeMediaSessionFields(value, path, errors),
+        mime_type: expectString(value, 'mime_type', path, errors)
+    };
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeMediaSessionEndedPayload(value: unknown, path: string = 'payload'): DecodeResult<MediaSessionEndedPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const payload: MediaSessionEndedPayload = decodeMediaSessionFields(value, path, errors);
+
+    const reason = expectOptionalString(value, 'reason', path, errors);
+    if (reason !== undefined) payload.reason = reason;
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+export function decodeAuthOkPayload(value: unknown, path: string = 'payload'): DecodeResult<AuthOkPayload> {
+    if (!isRecord(value)) {
+        return { ok: false, errors: [{ path, message: `expected object, got ${describe(value)}` }] };
+    }
+
+    const errors: DecodeError[] = [];
+    const role = value.role;
+    if (!AUTH_ROLES.includes(role as AuthRole)) {
+        errors.push({ path: `${path}.role`, message: `expected one of ${AUTH_ROLES.join(', ')}, got ${JSON.stringify(role)}` });
+    }
+    const expiresIn = expectOptionalInteger(value, 'expires_in', path, errors);
+    if (value.expires_in === undefined) {
+        errors.push({ path: `${path}.expires_in`, message: 'missing required field' });
+    }
+
+    const payload: AuthOkPayload = {
+        token: expectString(value, 'token', path, errors),
+        role: role as AuthRole,
+        expires_in: expiresIn ?? 0
+    };
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, value: payload };
+}
+
+// Pick the protocol version to speak with the backend, or null if the version
+// ranges do not overlap. Backends that predate versioning are treated as version 1.
+export function negotiateProtocolVersion(payload: InitPayload): number | null {
+    const backendMax = payload.protocol_version ?? 1;
+    const backendMin = payload.min_protocol_version ?? backendMax;
+
+    const version = Math.min(backendMax, PROTOCOL_VERSION);
+    if (version < Math.max(backendMin, MIN_PROTOCOL_VERSION)) {
         return null;
+    }
+    return version;
+}
+
+// Helper function to parse and validate incoming WebSocket messages
+export function parseWsMessage(data: string): DecodeResult<AnyWsMessage> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(data);
     } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
-        return null;
+        return { ok: false, errors: [{ path: '', message: `invalid JSON: ${error}` }] };
+    }
+
+    if (!isRecord(parsed)) {
+        return { ok: false, errors: [{ path: '', message: `expected object, got ${describe(parsed)}` }] };
+    }
+    if (!('payload' in parsed)) {
+        return { ok: false, errors: [{ path: 'payload', message: 'missing required field' }] };
     }
-}
\ No newline at end of file
+
+    switch (parsed.kind) {
+        case WsMessageKind.Init: {
+            const result = decodeInitPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.Init, payload: result.value } } : result;
+        }
+        case WsMessageKind.AddDevice: {
+            const result = decodeDevicePayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.AddDevice, payload: result.value } } : result;
+        }
+        case WsMessageKind.UpdateDevice: {
+            const result = decodeDevicePayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.UpdateDevice, payload: result.value } } : result;
+        }
+        case WsMessageKind.RemoveDevice: {
+            const result = decodeDeviceRefPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.RemoveDevice, payload: result.value } } : result;
+        }
+        case WsMessageKind.CommandAck: {
+            const result = decodeCommandResultPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.CommandAck, payload: result.value } } : result;
+        }
+        case WsMessageKind.CommandError: {
+            const result = decodeCommandResultPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.CommandError, payload: result.value } } : result;
+        }
+        case WsMessageKind.WebRtcOffer: {
+            const result = decodeWebRtcOfferPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.WebRtcOffer, payload: result.value } } : result;
+        }
+        case WsMessageKind.WebRtcCandidate: {
+            const result = decodeWebRtcCandidatePayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.WebRtcCandidate, payload: result.value } } : result;
+        }
+        case WsMessageKind.MseStart: {
+            const result = decodeMseStartPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.MseStart, payload: result.value } } : result;
+        }
+        case WsMessageKind.MediaSessionEnded: {
+            const result = decodeMediaSessionEndedPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.MediaSessionEnded, payload: result.value } } : result;
+        }
+        case WsMessageKind.AuthOk: {
+            const result = decodeAuthOkPayload(parsed.payload);
+            return result.ok ? { ok: true, value: { kind: WsMessageKind.AuthOk, payload: result.value } } : result;
+        }
+        default:
+            return { ok: false, errors: [{ path: 'kind', message: `unknown message kind ${JSON.stringify(parsed.kind)}` }] };
+    }
+}
+
+// Binary frame formats.
+//
+// Legacy (protocol v1): [4 bytes IPv4 address][JPEG data]
+//
+// v2 (protocol >= 2), all integers big-endian:
+//   0  u16  magic "NR" (0x4E52)
+//   2  u8   header version (2)
+//   3  u8   codec (see FrameCodec)
+//   4  u16  total header length in bytes, payload starts here
+//   6  u16  device ID length N
+//   8  u64  capture timestamp, milliseconds since the Unix epoch
+//   16 u32  sequence number, wraps around
+//   20 N    device ID (UTF-8)
+// Fields added in later header versions go between the device ID and the payload.
+const FRAME_MAGIC = 0x4E52;
+const FRAME_HEADER_VERSION = 2;
+const FRAME_HEADER_MIN_LENGTH = 20;
+const LEGACY_FRAME_HEADER_LENGTH = 4;
+
+export enum FrameCodec {
+    Jpeg = 0,
+    Png = 1,
+    Webp = 2,
+    Mp4 = 3, // Fragmented MP4 segment of an MSE session
+    Pcm16 = 4 // Audio chunk, see encodeAudioChunk; used in both directions
+}
+
+export const MP4_SEGMENT_CONTENT_TYPE = 'video/mp4';
+export const AUDIO_CONTENT_TYPE = 'audio/L16';
+
+const FRAME_CONTENT_TYPES: Record<FrameCodec, string> = {
+    [FrameCodec.Jpeg]: 'image/jpeg',
+    [FrameCodec.Png]: 'image/png',
+    [FrameCodec.Webp]: 'image/webp',
+    [FrameCodec.Mp4]: MP4_SEGMENT_CONTENT_TYPE,
+    [FrameCodec.Pcm16]: AUDIO_CONTENT_TYPE
+};
+
+export interface BinaryFrame {
+    headerVersion: number; // 1 for legacy frames
+    deviceId: string;
+    sequence: number | null; // null for legacy frames
+    capturedAt: Date | null; // null for legacy frames
+    contentType: string;
+    data: ArrayBuffer;
+}
+
+// Parse a binary frame. The negotiated protocol version decides which layout to expect.
+export function parseBinaryFrame(data: ArrayBuffer, protocolVersion: number): DecodeResult<BinaryFrame> {
+    if (protocolVersion < 2) {
+        return parseLegacyBinaryFrame(data);
+    }
+
+    if (data.byteLength < FRAME_HEADER_MIN_LENGTH) {
+        return { ok: false, errors: [{ path: 'header', message: `frame too short (${data.byteLength} bytes)` }] };
+    }
+
+    const view = new DataView(data);
+    const errors: DecodeError[] = [];
+
+    if (view.getUint16(0) !== FRAME_MAGIC) {
+        errors.push({ path: 'header.magic', message: `expected 0x${FRAME_MAGIC.toString(16)}, got 0x${view.getUint16(0).toString(16)}` });
+    }
+
+    const headerVersion = view.getUint8(2);
+    if (headerVersion < FRAME_HEADER_VERSION) {
+        errors.push({ path: 'header.version', message: `unsupported header version ${headerVersion}` });
+    }
+
+    const codec = view.getUint8(3);
+    const contentType = FRAME_CONTENT_TYPES[codec as FrameCodec];
+    if (!contentType) {
+        errors.push({ path: 'header.codec', message: `unknown codec ${codec}` });
+    }
+
+    const headerLength = view.getUint16(4);
+    const deviceIdLength = view.getUint16(6);
+    if (headerLength < FRAME_HEADER_MIN_LENGTH + deviceIdLength || headerLength > data.byteLength) {
+        errors.push({ path: 'header.length', message: `invalid header length ${headerLength} for a ${data.byteLength} byte frame` });
+    }
+
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    const deviceId = new TextDecoder().decode(new Uint8Array(data, FRAME_HEADER_MIN_LENGTH, deviceIdLength));
+    if (deviceId.length === 0) {
+        return { ok: false, errors: [{ path: 'header.deviceId', message: 'empty device ID' }] };
+    }
+
+    return {
+        ok: true,
+        value: {
+            headerVersion,
+            deviceId,
+            sequence: view.getUint32(16),
+            capturedAt: new Date(Number(view.getBigUint64(8))),
+            contentType: contentType!,
+            data: data.slice(headerLength)
+        }
+    };
+}
+
+function parseLegacyBinaryFrame(data: ArrayBuffer): DecodeResult<BinaryFrame> {
+    if (data.byteLength <= LEGACY_FRAME_HEADER_LENGTH) {
+        return { ok: false, errors: [{ path: 'header', message: `frame too short (${data.byteLength} bytes)` }] };
+    }
+
+    const view = new Uint8Array(data);
+    return {
+        ok: true,
+        value: {
+            headerVersion: 1,
+            deviceId: `${view[0]}.${view[1]}.${view[2]}.${view[3]}`,
+            sequence: null,
+            capturedAt: null,
+            contentType: FRAME_CONTENT_TYPES[FrameCodec.Jpeg],
+            data: data.slice(LEGACY_FRAME_HEADER_LENGTH)
+        }
+    };
+}
+
+// Build a v2 frame, the inverse of parseBinaryFrame. Used by the simulator.
+export function encodeBinaryFrame(
+    deviceId: string,
+    sequence: number,
+    capturedAt: Date,
+    codec: FrameCodec,
+    data: ArrayBuffer
+): ArrayBuffer {
+    const deviceIdBytes = new TextEncoder().encode(deviceId);
+    const headerLength = FRAME_HEADER_MIN_LENGTH + deviceIdBytes.length;
+    const frame = new Uint8Array(headerLength + data.byteLength);
+    const view = new DataView(frame.buffer);
+
+    view.setUint16(0, FRAME_MAGIC);
+    view.setUint8(2, FRAME_HEADER_VERSION);
+    view.setUint8(3, codec);
+    view.setUint16(4, headerLength);
+    view.setUint16(6, deviceIdBytes.length);
+    view.setBigUint64(8, BigInt(capturedAt.getTime()));
+    view.setUint32(16, sequence >>> 0);
+    frame.set(deviceIdBytes, FRAME_HEADER_MIN_LENGTH);
+    frame.set(new Uint8Array(data), headerLength);
+    return frame.buffer;
+}
+
+// Payload of a FrameCodec.Pcm16 frame, big-endian:
+//   0  u32  sample rate in Hz
+//   4  ...  mono signed 16-bit samples
+const AUDIO_CHUNK_HEADER_LENGTH = 4;
+
+export interface AudioChunk {
+    sampleRate: number;
+    samples: Float32Array<ArrayBuffer>; // -1 to 1
+}
+
+export function decodeAudioChunk(data: ArrayBuffer): DecodeResult<AudioChunk> {
+    if (data.byteLength < AUDIO_CHUNK_HEADER_LENGTH || (data.byteLength - AUDIO_CHUNK_HEADER_LENGTH) % 2 !== 0) {
+        return { ok: false, errors: [{ path: 'audio', message: `invalid audio chunk length ${data.byteLength}` }] };
+    }
+
+    const view = new DataView(data);
+    const sampleRate = view.getUint32(0);
+    if (sampleRate < 3000 || sampleRate > 192000) {
+        return { ok: false, errors: [{ path: 'audio.sampleRate', message: `unsupported sample rate ${sampleRate}` }] };
+    }
+
+    const samples = new Float32Array((data.byteLength - AUDIO_CHUNK_HEADER_LENGTH) / 2);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getInt16(AUDIO_CHUNK_HEADER_LENGTH + i * 2) / 32768;
+    }
+    return { ok: true, value: { sampleRate, samples } };
+}
+
+export function encodeAudioChunk(chunk: AudioChunk): ArrayBuffer {
+    const data = new ArrayBuffer(AUDIO_CHUNK_HEADER_LENGTH + chunk.samples.length * 2);
+    const view = new DataView(data);
+    view.setUint32(0, chunk.sampleRate);
+    chunk.samples.forEach((sample, i) => {
+        view.setInt16(AUDIO_CHUNK_HEADER_LENGTH + i * 2, Math.max(-32768, Math.min(32767, Math.round(sample * 32768))));
+    });
+    return data;
+}
@@ -0,0 +1,142 @@
+// Per-camera stream metrics computed over a rolling time window
+
+const DEFAULT_METRICS_WINDOW = 5000; // 5 seconds
+
+export interface CameraMetrics {
+    fps: number; // Rolling frames per second
+    jitterMs: number; // Standard deviation of the inter-frame arrival interval
+    latencyMs: number | null; // Mean capture-to-arrival latency; null without v2 frame headers
+    bytesPerSecond: number; // Rolling frame payload throughput
+    width: number | null; // Decoded image resolution
+    height: number | null;
+    droppedFrames: number; // Gaps in the v2 sequence numbers
+    outOfOrderFrames: number;
+}
+
+export function createEmptyMetrics(): CameraMetrics {
+    return {
+        fps: 0,
+        jitterMs: 0,
+        latencyMs: null,
+        bytesPerSecond: 0,
+        width: null,
+        height: null,
+        droppedFrames: 0,
+        outOfOrderFrames: 0
+    };
+}
+
+interface ArrivalSample {
+    at: number; // performance.now()
+    bytes: number;
+}
+
+interface LatencySample {
+    at: number;
+    latencyMs: number;
+}
+
+export class FrameMetricsTracker {
+    private arrivals: ArrivalSample[] = [];
+    private latencies: LatencySample[] = [];
+    private window: number;
+
+    constructor(window: number = DEFAULT_METRICS_WINDOW) {
+        this.window = window;
+    }
+
+    // `capturedAt` comes from v2 frame headers. Latency assumes the camera and
+    // browser clocks are roughly in sync.
+    public recordFrame(capturedAt: Date | null, bytes: number = 0): void {
+        const now = performance.now();
+        this.arrivals.push({ at: now, bytes });
+        if (capturedAt) {
+            this.latencies.push({ at: now, latencyMs: Date.now() - capturedAt.getTime() });
+        }
+        this.prune(now);
+    }
+
+    // Write the current rolling values into `metrics`; returns whether anything changed
+    public update(metrics: CameraMetrics): boolean {
+        this.prune(performance.now());
+
+        const fps = this.computeFps();
+        const jitterMs = this.computeJitter();
+        const latencyMs = this.latencies.length > 0
+            ? this.latencies.reduce((sum, sample) => sum + sample.latencyMs, 0) / this.latencies.length
+            : null;
+        const bytesPerSecond = this.computeThroughput();
+
+        const changed = fps !== metrics.fps || jitterMs !== metrics.jitterMs || latencyMs !== metrics.latencyMs ||
+            bytesPerSecond !== metrics.bytesPerSecond;
+        metrics.fps = fps;
+        metrics.jitterMs = jitterMs;
+        metrics.latencyMs = latencyMs;
+        metrics.bytesPerSecond = bytesPerSecond;
+        return changed;
+    }
+
+    private computeFps(): number {
+        if (this.arrivals.length < 2) {
+            return 0;
+        }
+        const span = this.arrivals[this.arrivals.length - 1]!.at - this.arrivals[0]!.at;
+        return span > 0 ? ((this.arrivals.length - 1) * 1000) / span : 0;
+    }
+
+    // Bytes of all frames after the first, over the span they arrived in
+    private computeThroughput(): number {
+        if (this.arrivals.length < 2) {
+            return 0;
+        }
+        const span = this.arrivals[this.arrivals.length - 1]!.at - this.arrivals[0]!.at;
+        const bytes = this.arrivals.slice(1).reduce((sum, arrival) => sum + arrival.bytes, 0);
+        return span > 0 ? (bytes * 1000) / span : 0;
+    }
+
+    private computeJitter(): number {
+        if (this.arrivals.length < 3) {
+            return 0;
+        }
+
+        const intervals: number[] = [];
+        for (let i = 1; i < this.arrivals.length; i++) {
+            intervals.push(this.arrivals[i]!.at - this.arrivals[i - 1]!.at);
+        }
+        const mean = intervals.reduce((sum, interval) => sum + interval, 0) / intervals.length;
+        const variance = intervals.reduce((sum, interval) => sum + (interval - mean) ** 2, 0) / intervals.length;
+        return Math.sqrt(variance);
+    }
+
+    private prune(now: number): void {
+        const cutoff = now - this.window;
+        while (this.arrivals.length > 0 && this.arrivals[0]!.at < cutoff) {
+            this.arrivals.shift();
+        }
+        while (this.latencies.length > 0 && this.latencies[0]!.at < cutoff) {
+            this.latencies.shift();
+        }
+    }
+}
+
+export function formatFps(metrics: CameraMetrics): string {
+    return metrics.fps > 0 ? metrics.fps.toFixed(1) : 'N/A';
+}
+
+export function formatResolution(metrics: CameraMetrics): string {
+    return metrics.width !== null && metrics.height !== null ? `${metrics.width}×${metrics.height}` : 'N/A';
+}
+
+export function formatLatency(metrics: CameraMetrics): string {
+    return metrics.latencyMs !== null ? `${Math.round(metrics.latencyMs)} ms` : 'N/A';
+}
+
+export function formatJitter(metrics: CameraMetrics): string {
+    return metrics.fps > 0 ? `${Math.round(metrics.jitterMs)} ms` : 'N/A';
+}
+
+export function formatThroughput(metrics: CameraMetrics): string {
+    if (metrics.fps <= 0) return 'N/A';
+    const kilobytes = metrics.bytesPerSecond / 1024;
+    return kilobytes >= 1024 ? `${(kilobytes / 1024).toFixed(1)} MB/s` : `${Math.round(kilobytes)} kB/s`;
+}
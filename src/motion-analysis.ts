@@ -0,0 +1,107 @@
+// Frame differencing for motion detection. Kept free of DOM access so it can
+// run both in the motion worker and on the main thread.
+
+// Analysis resolution; frames are downscaled to this before differencing
+export const MOTION_ANALYSIS_WIDTH = 80;
+export const MOTION_ANALYSIS_HEIGHT = 60;
+
+// Grey-level difference above which a pixel counts as changed
+export const MOTION_PIXEL_THRESHOLD = 25;
+
+// Zone vertices are normalized to the frame: (0, 0) top-left, (1, 1) bottom-right
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface MotionZone {
+    kind: 'include' | 'exclude';
+    points: Point[];
+}
+
+function isInsidePolygon(x: number, y: number, points: Point[]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i]!;
+        const b = points[j]!;
+        if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+// 1 for pixels that take part in the analysis. Without include zones the whole
+// frame is included; exclude zones always win.
+export function buildZoneMask(zones: MotionZone[], width: number, height: number): Uint8Array {
+    const includes = zones.filter(zone => zone.kind === 'include' && zone.points.length >= 3);
+    const excludes = zones.filter(zone => zone.kind === 'exclude' && zone.points.length >= 3);
+    const mask = new Uint8Array(width * height);
+
+    for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+            const x = (col + 0.5) / width;
+            const y = (row + 0.5) / height;
+            const included = includes.length === 0 || includes.some(zone => isInsidePolygon(x, y, zone.points));
+            const excluded = excludes.some(zone => isInsidePolygon(x, y, zone.points));
+            mask[row * width + col] = included && !excluded ? 1 : 0;
+        }
+    }
+    return mask;
+}
+
+export function toGrayscale(rgba: Uint8ClampedArray): Uint8Array {
+    const gray = new Uint8Array(rgba.length / 4);
+    for (let i = 0; i < gray.length; i++) {
+        const offset = i * 4;
+        gray[i] = (rgba[offset]! * 77 + rgba[offset + 1]! * 150 + rgba[offset + 2]! * 29) >> 8;
+    }
+    return gray;
+}
+
+// Fraction (0..1) of masked pixels that changed between two greyscale frames
+export function motionScore(previous: Uint8Array, current: Uint8Array, mask: Uint8Array): number {
+    let considered = 0;
+    let changed = 0;
+    for (let i = 0; i < current.length; i++) {
+        if (!mask[i]) continue;
+        considered++;
+        if (Math.abs(current[i]! - previous[i]!) > MOTION_PIXEL_THRESHOLD) {
+            changed++;
+        }
+    }
+    return considered > 0 ? changed / considered : 0;
+}
+
+// Stateful differencing for one camera
+export class MotionAnalyzer {
+    private previous: Uint8Array | null = null;
+    private mask: Uint8Array = buildZoneMask([], MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT);
+
+    public setZones(zones: MotionZone[]): void {
+        this.mask = buildZoneMask(zones, MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT);
+    }
+
+    // `rgba` must be MOTION_ANALYSIS_WIDTH x MOTION_ANALYSIS_HEIGHT pixels
+    public analyze(rgba: Uint8ClampedArray): number {
+        const current = toGrayscale(rgba);
+        const score = this.previous ? motionScore(this.previous, current, this.mask) : 0;
+        this.previous = current;
+        return score;
+    }
+
+    public reset(): void {
+        this.previous = null;
+    }
+}
+
+// Messages exchanged with the motion worker
+export type MotionWorkerRequest =
+    | { type: 'frame'; cameraId: string; bitmap: ImageBitmap }
+    | { type: 'zones'; cameraId: string; zones: MotionZone[] }
+    | { type: 'reset'; cameraId: string };
+
+export interface MotionWorkerResult {
+    cameraId: string;
+    score: number;
+}
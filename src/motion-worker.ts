@@ -0,0 +1,47 @@
+// Web worker that runs motion analysis off the main thread
+
+import {
+    MOTION_ANALYSIS_HEIGHT,
+    MOTION_ANALYSIS_WIDTH,
+    MotionAnalyzer,
+    MotionWorkerRequest,
+    MotionWorkerResult
+} from './motion-analysis.js';
+
+// The project compiles against the DOM library, so describe the worker scope we use
+const workerScope = self as unknown as {
+    onmessage: ((event: MessageEvent<MotionWorkerRequest>) => void) | null;
+    postMessage(message: MotionWorkerResult): void;
+};
+
+const analyzers: Map<string, MotionAnalyzer> = new Map();
+const canvas = new OffscreenCanvas(MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT);
+const context = canvas.getContext('2d', { willReadFrequently: true })!;
+
+function getAnalyzer(cameraId: string): MotionAnalyzer {
+    let analyzer = analyzers.get(cameraId);
+    if (!analyzer) {
+        analyzer = new MotionAnalyzer();
+        analyzers.set(cameraId, analyzer);
+    }
+    return analyzer;
+}
+
+workerScope.onmessage = (event: MessageEvent<MotionWorkerRequest>) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'frame': {
+            context.drawImage(request.bitmap, 0, 0, MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT);
+            request.bitmap.close();
+            const pixels = context.getImageData(0, 0, MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT).data;
+            workerScope.postMessage({ cameraId: request.cameraId, score: getAnalyzer(request.cameraId).analyze(pixels) });
+            break;
+        }
+        case 'zones':
+            getAnalyzer(request.cameraId).setZones(request.zones);
+            break;
+        case 'reset':
+            analyzers.delete(request.cameraId);
+            break;
+    }
+};
@@ -0,0 +1,229 @@
+// Opt-in motion detection per camera
+
+import {
+    MOTION_ANALYSIS_HEIGHT,
+    MOTION_ANALYSIS_WIDTH,
+    MotionAnalyzer,
+    MotionWorkerRequest,
+    MotionWorkerResult,
+    MotionZone
+} from './motion-analysis.js';
+
+const MOTION_ANALYSIS_INTERVAL = 200; // Analyze at most 5 frames per second per camera
+const MOTION_END_DELAY = 2000; // Motion ends after 2 seconds without changes
+
+export interface MotionSettings {
+    enabled: boolean;
+    sensitivity: number; // 1 (least sensitive) to 100 (most sensitive)
+    minDurationMs: number; // Motion must last this long before it counts as an event
+    zones: MotionZone[];
+}
+
+export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
+    enabled: false,
+    sensitivity: 50,
+    minDurationMs: 1000,
+    zones: []
+};
+
+// Fraction of changed pixels needed to count as motion: 20% at sensitivity 1, 0.5% at 100
+function scoreThreshold(sensitivity: number): number {
+    const clamped = Math.max(1, Math.min(100, sensitivity));
+    return 0.005 + 0.195 * (100 - clamped) / 99;
+}
+
+interface MotionState {
+    settings: MotionSettings;
+    lastAnalysisAt: number;
+    analysisPending: boolean;
+    motionSince: number | null;
+    lastMotionAt: number;
+    active: boolean;
+    fallbackAnalyzer: MotionAnalyzer | null; // Only used without the worker
+}
+
+export class MotionDetector {
+    private states: Map<string, MotionState> = new Map();
+    private worker: Worker | null = null;
+    private fallbackContext: CanvasRenderingContext2D | null = null;
+    private onMotionChangedCallback: ((cameraId: string, active: boolean) => void) | null = null;
+
+    constructor() {
+        this.startWorker();
+    }
+
+    public getSettings(cameraId: string): MotionSettings {
+        return this.getState(cameraId).settings;
+    }
+
+    public updateSettings(cameraId: string, changes: Partial<MotionSettings>): void {
+        const state = this.getState(cameraId);
+        state.settings = { ...state.settings, ...changes };
+
+        if (changes.zones) {
+            state.fallbackAnalyzer?.setZones(state.settings.zones);
+            this.postToWorker({ type: 'zones', cameraId, zones: state.settings.zones });
+        }
+        if (changes.enabled === false) {
+            this.reset(cameraId);
+        }
+        console.log(`Motion settings for ${cameraId}:`, state.settings);
+    }
+
+    public isEnabled(cameraId: string): boolean {
+        return this.states.get(cameraId)?.settings.enabled ?? false;
+    }
+
+    public isMotionActive(cameraId: string): boolean {
+        return this.states.get(cameraId)?.active ?? false;
+    }
+
+    // Feed a decoded frame; frames are sampled, not all analyzed
+    public analyzeFrame(cameraId: string, frame: ImageBitmap): void {
+        const state = this.states.get(cameraId);
+        if (!state || !state.settings.enabled || state.analysisPending) {
+            return;
+        }
+
+        const now = performance.now();
+        if (now - state.lastAnalysisAt < MOTION_ANALYSIS_INTERVAL) {
+            return;
+        }
+        state.lastAnalysisAt = now;
+
+        if (this.worker) {
+            state.analysisPending = true;
+            createImageBitmap(frame, { resizeWidth: MOTION_ANALYSIS_WIDTH, resizeHeight: MOTION_ANALYSIS_HEIGHT })
+                .then(bitmap => this.postToWorker({ type: 'frame', cameraId, bitmap }, [bitmap]))
+                .catch(error => {
+                    state.analysisPending = false;
+                    console.error(`Failed to prepare frame for motion analysis (${cameraId}):`, error);
+                });
+        } else {
+            this.analyzeOnMainThread(cameraId, state, frame);
+        }
+    }
+
+    // End motion in progress and compare from the next frame on; called when the
+    // camera stops delivering frames, since motion only ends on an analyzed frame
+    public handleSignalLost(cameraId: string): void {
+        this.reset(cameraId);
+    }
+
+    public removeCamera(cameraId: string): void {
+        this.postToWorker({ type: 'reset', cameraId });
+        this.states.delete(cameraId);
+    }
+
+    public onMotionChanged(callback: (cameraId: string, active: boolean) => void): void {
+        this.onMotionChangedCallback = callback;
+    }
+
+    private startWorker(): void {
+        if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+            console.warn('Motion worker not supported, analyzing on the main thread');
+            return;
+        }
+
+        try {
+            this.worker = new Worker(new URL('./motion-worker.js', import.meta.url), { type: 'module' });
+        } catch (error) {
+            console.warn('Failed to start motion worker, analyzing on the main thread:', error);
+            return;
+        }
+
+        this.worker.onmessage = (event: MessageEvent<MotionWorkerResult>) => {
+            const state = this.states.get(event.data.cameraId);
+            if (state) {
+                state.analysisPending = false;
+                this.handleScore(event.data.cameraId, state, event.data.score);
+            }
+        };
+        this.worker.onerror = (event: ErrorEvent) => {
+            console.error('Motion worker failed, falling back to the main thread:', event.message);
+            this.worker?.terminate();
+            this.worker = null;
+            this.states.forEach(state => { state.analysisPending = false; });
+        };
+    }
+
+    private postToWorker(request: MotionWorkerRequest, transfer: Transferable[] = []): void {
+        this.worker?.postMessage(request, transfer);
+    }
+
+    private analyzeOnMainThread(cameraId: string, state: MotionState, frame: ImageBitmap): void {
+        if (!this.fallbackContext) {
+            const canvas = document.createElement('canvas');
+            canvas.width = MOTION_ANALYSIS_WIDTH;
+            canvas.height = MOTION_ANALYSIS_HEIGHT;
+            this.fallbackContext = canvas.getContext('2d', { willReadFrequently: true });
+            if (!this.fallbackContext) return;
+        }
+        if (!state.fallbackAnalyzer) {
+            state.fallbackAnalyzer = new MotionAnalyzer();
+            state.fallbackAnalyzer.setZones(state.settings.zones);
+        }
+
+        this.fallbackContext.drawImage(frame, 0, 0, MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT);
+        const pixels = this.fallbackContext.getImageData(0, 0, MOTION_ANALYSIS_WIDTH, MOTION_ANALYSIS_HEIGHT).data;
+        this.handleScore(cameraId, state, state.fallbackAnalyzer.analyze(pixels));
+    }
+
+    private handleScore(cameraId: string, state: MotionState, score: number): void {
+        if (!state.settings.enabled) return;
+
+        const now = performance.now();
+        if (score >= scoreThreshold(state.settings.sensitivity)) {
+            state.lastMotionAt = now;
+            state.motionSince ??= now;
+            if (!state.active && now - state.motionSince >= state.settings.minDurationMs) {
+                this.setActive(cameraId, state, true);
+            }
+        } else if (now - state.lastMotionAt > MOTION_END_DELAY) {
+            // Short pauses do not break up an event
+            state.motionSince = null;
+            if (state.active) {
+                this.setActive(cameraId, state, false);
+            }
+        }
+    }
+
+    private setActive(cameraId: string, state: MotionState, active: boolean): void {
+        state.active = active;
+        console.log(`Motion ${active ? 'started' : 'ended'} on ${cameraId}`);
+        if (this.onMotionChangedCallback) {
+            this.onMotionChangedCallback(cameraId, active);
+        }
+    }
+
+    private reset(cameraId: string): void {
+        const state = this.states.get(cameraId);
+        if (!state) return;
+
+        state.motionSince = null;
+        state.analysisPending = false;
+        state.fallbackAnalyzer?.reset();
+        this.postToWorker({ type: 'reset', cameraId });
+        this.postToWorker({ type: 'zones', cameraId, zones: state.settings.zones });
+        if (state.active) {
+            this.setActive(cameraId, state, false);
+        }
+    }
+
+    private getState(cameraId: string): MotionState {
+        let state = this.states.get(cameraId);
+        if (!state) {
+            state = {
+                settings: { ...DEFAULT_MOTION_SETTINGS },
+                lastAnalysisAt: 0,
+                analysisPending: false,
+                motionSince: null,
+                lastMotionAt: 0,
+                active: false,
+                fallbackAnalyzer: null
+            };
+            this.states.set(cameraId, state);
+        }
+        return state;
+    }
+}
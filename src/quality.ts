@@ -0,0 +1,250 @@
+// Stream quality per camera: caps picked on the card, or an automatic mode that
+// steps through quality levels based on measured throughput and frame lag
+
+import { CameraCatalog, CameraInfo } from './camera.js';
+import { CommandChannel, commandTarget } from './commands.js';
+import { CommandKind, StreamQualityPayload } from './messages.js';
+
+const QUALITY_CHECK_INTERVAL = 2000;
+const LEVEL_SETTLE_TIME = 6000; // Metrics cover 5 seconds; judge a level only once they reflect it
+const LEVEL_UP_TIME = 15000; // A level must run cleanly this long before trying the next one
+const CEILING_TIME = 60000; // How long a throughput the link could not sustain is remembered
+const MAX_FRAME_LAG = 1000; // ms; step down beyond this capture-to-arrival latency
+const LOW_FRAME_LAG = 300; // ms; step up only below this
+const MIN_FPS_RATIO = 0.7; // Step down when fewer frames than this share of the target arrive
+const GOOD_FPS_RATIO = 0.9;
+
+// backend: leave the stream to the backend; auto: adapt to the connection; manual: fixed caps
+export type QualityMode = 'backend' | 'auto' | 'manual';
+
+export const QUALITY_MODES: QualityMode[] = ['backend', 'auto', 'manual'];
+
+export interface StreamQuality {
+    maxWidth: number;
+    maxHeight: number;
+    fps: number;
+    jpegQuality: number; // 1-100
+}
+
+export interface QualitySettings {
+    mode: QualityMode;
+    manual: StreamQuality; // Only used in manual mode
+}
+
+const LOW_QUALITY: StreamQuality = { maxWidth: 320, maxHeight: 240, fps: 5, jpegQuality: 50 };
+const MEDIUM_QUALITY: StreamQuality = { maxWidth: 640, maxHeight: 480, fps: 10, jpegQuality: 60 };
+const HIGH_QUALITY: StreamQuality = { maxWidth: 1280, maxHeight: 720, fps: 15, jpegQuality: 75 };
+const FULL_QUALITY: StreamQuality = { maxWidth: 1920, maxHeight: 1080, fps: 25, jpegQuality: 85 };
+
+// Auto mode moves through these, lowest first
+export const QUALITY_LEVELS: StreamQuality[] = [LOW_QUALITY, MEDIUM_QUALITY, HIGH_QUALITY, FULL_QUALITY];
+const AUTO_START_LEVEL = 2;
+
+// Cards shown as thumbnails (the unfocused cards of the focus view) never ask for more
+export const THUMBNAIL_QUALITY: StreamQuality = LOW_QUALITY;
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = { mode: 'backend', manual: HIGH_QUALITY };
+
+export function formatQuality(quality: StreamQuality | null): string {
+    if (!quality) return 'Backend default';
+    return `${quality.maxWidth}×${quality.maxHeight} @ ${quality.fps} fps, JPEG ${quality.jpegQuality}`;
+}
+
+// The lower of two qualities, field by field
+function capQuality(quality: StreamQuality, cap: StreamQuality): StreamQuality {
+    return {
+        maxWidth: Math.min(quality.maxWidth, cap.maxWidth),
+        maxHeight: Math.min(quality.maxHeight, cap.maxHeight),
+        fps: Math.min(quality.fps, cap.fps),
+        jpegQuality: Math.min(quality.jpegQuality, cap.jpegQuality)
+    };
+}
+
+// Rough bandwidth cost, to predict the throughput of another level
+function qualityCost(quality: StreamQuality): number {
+    return quality.maxWidth * quality.maxHeight * quality.fps;
+}
+
+function qualityKey(quality: StreamQuality | null): string {
+    return quality ? formatQuality(quality) : '';
+}
+
+interface QualityState {
+    settings: QualitySettings;
+    thumbnail: boolean;
+    level: number; // Auto mode position in QUALITY_LEVELS
+    levelSince: number; // performance.now()
+    ceiling: { bytesPerSecond: number; until: number } | null; // Throughput that caused the last step down
+    applied: string; // qualityKey of what the backend last acknowledged
+    pending: boolean;
+    unsupported: boolean; // The backend rejected a quality command for this camera
+}
+
+export class StreamQualityController {
+    private catalog: CameraCatalog;
+    private commandChannel: CommandChannel;
+    private states: Map<string, QualityState> = new Map();
+    private onQualityChangedCallback: ((cameraId: string, quality: StreamQuality | null, thumbnail: boolean) => void) | null = null;
+
+    constructor(catalog: CameraCatalog, commandChannel: CommandChannel) {
+        this.catalog = catalog;
+        this.commandChannel = commandChannel;
+        window.setInterval(() => this.checkAll(), QUALITY_CHECK_INTERVAL);
+    }
+
+    public setSettings(cameraId: string, settings: QualitySettings): void {
+        const state = this.getState(cameraId);
+        if (settings.mode === 'auto' && state.settings.mode !== 'auto') {
+            this.setLevel(state, AUTO_START_LEVEL);
+        }
+        state.settings = settings;
+        this.sync(cameraId, state);
+    }
+
+    public setThumbnail(cameraId: string, thumbnail: boolean): void {
+        const state = this.getState(cameraId);
+        if (state.thumbnail === thumbnail) return;
+
+        state.thumbnail = thumbnail;
+        this.sync(cameraId, state);
+    }
+
+    // What the dashboard currently asks for; null leaves it to the backend
+    public getRequestedQuality(cameraId: string): StreamQuality | null {
+        return this.effectiveQuality(this.getState(cameraId));
+    }
+
+    // A new connection starts from the backend's defaults; send the qualities of the
+    // cameras `filter` accepts again
+    public resetConnection(filter: (cameraId: string) => boolean = () => true): void {
+        this.states.forEach((state, cameraId) => {
+            if (!filter(cameraId)) return;
+            state.applied = qualityKey(null);
+            state.pending = false;
+            state.unsupported = false;
+            this.sync(cameraId, state);
+        });
+    }
+
+    public removeCamera(cameraId: string): void {
+        this.states.delete(cameraId);
+    }
+
+    public onQualityChanged(callback: (cameraId: string, quality: StreamQuality | null, thumbnail: boolean) => void): void {
+        this.onQualityChangedCallback = callback;
+    }
+
+    private getState(cameraId: string): QualityState {
+        let state = this.states.get(cameraId);
+        if (!state) {
+            state = {
+                settings: DEFAULT_QUALITY_SETTINGS,
+                thumbnail: false,
+                level: AUTO_START_LEVEL,
+                levelSince: performance.now(),
+                ceiling: null,
+                applied: qualityKey(null),
+                pending: false,
+                unsupported: false
+            };
+            this.states.set(cameraId, state);
+        }
+        return state;
+    }
+
+    private effectiveQuality(state: QualityState): StreamQuality | null {
+        let quality: StreamQuality | null = null;
+        if (state.settings.mode === 'manual') {
+            quality = state.settings.manual;
+        } else if (state.settings.mode === 'auto') {
+            quality = QUALITY_LEVELS[state.level] ?? null;
+        }
+
+        if (state.thumbnail) {
+            return quality ? capQuality(quality, THUMBNAIL_QUALITY) : THUMBNAIL_QUALITY;
+        }
+        return quality;
+    }
+
+    private checkAll(): void {
+        this.states.forEach((state, cameraId) => {
+            const camera = this.catalog.getCamera(cameraId);
+            if (camera && state.settings.mode === 'auto') {
+                this.adapt(camera, state);
+            }
+            this.sync(cameraId, state);
+        });
+    }
+
+    // Step down when frames lag or fall short of the target rate, step up after a clean stretch
+    private adapt(camera: CameraInfo, state: QualityState): void {
+        const metrics = camera.metrics;
+        const quality = QUALITY_LEVELS[state.level];
+        // Thumbnail metrics say nothing about the full stream; without frames there is nothing to judge
+        if (!quality || state.thumbnail || state.pending || camera.inactive || metrics.fps === 0) return;
+
+        const now = performance.now();
+        const onLevel = now - state.levelSince;
+        const lagging = metrics.latencyMs !== null && metrics.latencyMs > MAX_FRAME_LAG;
+        const starved = metrics.fps < quality.fps * MIN_FPS_RATIO;
+
+        if ((lagging || starved) && onLevel >= LEVEL_SETTLE_TIME && state.level > 0) {
+            state.ceiling = { bytesPerSecond: metrics.bytesPerSecond, until: now + CEILING_TIME };
+            console.log(`Stream quality of ${camera.id} down: ${lagging ? `frame lag ${Math.round(metrics.latencyMs ?? 0)} ms` : `${metrics.fps.toFixed(1)} fps`}`);
+            this.setLevel(state, state.level - 1);
+            return;
+        }
+
+        const next = QUALITY_LEVELS[state.level + 1];
+        const healthy = (metrics.latencyMs === null || metrics.latencyMs < LOW_FRAME_LAG) && metrics.fps >= quality.fps * GOOD_FPS_RATIO;
+        if (!next || !healthy || onLevel < LEVEL_UP_TIME) return;
+
+        // Stay put while the next level would need more than the link recently managed
+        const predicted = metrics.bytesPerSecond * qualityCost(next) / qualityCost(quality);
+        if (state.ceiling && now < state.ceiling.until && predicted > state.ceiling.bytesPerSecond) return;
+
+        console.log(`Stream quality of ${camera.id} up to ${formatQuality(next)}`);
+        this.setLevel(state, state.level + 1);
+    }
+
+    private setLevel(state: QualityState, level: number): void {
+        state.level = level;
+        state.levelSince = performance.now();
+    }
+
+    // Send the effective quality if the backend does not have it yet
+    private sync(cameraId: string, state: QualityState): void {
+        const quality = this.effectiveQuality(state);
+        const key = qualityKey(quality);
+        const camera = this.catalog.getCamera(cameraId);
+        if (key === state.applied || state.pending || state.unsupported || !camera || camera.status !== 'Connected') {
+            return;
+        }
+
+        const payload: StreamQualityPayload = { ...commandTarget(camera) };
+        if (quality) {
+            payload.max_width = quality.maxWidth;
+            payload.max_height = quality.maxHeight;
+            payload.target_fps = quality.fps;
+            payload.jpeg_quality = quality.jpegQuality;
+        }
+
+        state.pending = true;
+        this.commandChannel.sendCommand(CommandKind.StreamQuality, payload).then(result => {
+            if (this.states.get(cameraId) !== state) return;
+
+            state.pending = false;
+            if (result.ok) {
+                state.applied = key;
+                if (this.onQualityChangedCallback) {
+                    this.onQualityChangedCallback(cameraId, quality, state.thumbnail);
+                }
+                this.sync(cameraId, state); // In case it changed in the meantime
+            } else if (result.reason === 'rejected') {
+                // Most likely a backend without quality control; do not keep asking
+                console.warn(`Backend rejected stream quality for ${cameraId}: ${result.message}`);
+                state.unsupported = true;
+            }
+        });
+    }
+}
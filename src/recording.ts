@@ -0,0 +1,174 @@
+// Client-side recording of camera frames to WebM files
+
+const RECORDING_FPS = 15;
+const DEFAULT_CANVAS_WIDTH = 640;
+const DEFAULT_CANVAS_HEIGHT = 480;
+const RECORDING_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+function pickMimeType(): string | null {
+    if (typeof MediaRecorder === 'undefined') {
+        return null;
+    }
+    return RECORDING_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+// Build a filesystem-friendly name such as "Camera-192.168.1.20-2025-01-31T21-04-05.webm"
+export function recordingFileName(label: string, startedAt: Date, extension: string): string {
+    const safeLabel = label.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '');
+    const timestamp = startedAt.toISOString().replace(/\.\d+Z$/, '').replace(/:/g, '-');
+    return `${safeLabel || 'camera'}-${timestamp}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Give the browser a moment to start the download before releasing the blob
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+class CameraRecorder {
+    public readonly startedAt: Date = new Date();
+    public readonly label: string;
+    private hasFrame: boolean = false;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D;
+    private recorder: MediaRecorder;
+    private chunks: Blob[] = [];
+
+    constructor(label: string, mimeType: string) {
+        this.label = label;
+        this.canvas = document.createElement('canvas');
+        this.canvas.width = DEFAULT_CANVAS_WIDTH;
+        this.canvas.height = DEFAULT_CANVAS_HEIGHT;
+        this.context = this.canvas.getContext('2d')!;
+        this.context.fillStyle = '#000';
+        this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        this.recorder = new MediaRecorder(this.canvas.captureStream(RECORDING_FPS), { mimeType });
+        this.recorder.addEventListener('dataavailable', (event: BlobEvent) => {
+            if (event.data.size > 0) {
+                this.chunks.push(event.data);
+            }
+        });
+        this.recorder.start(1000); // Flush a chunk every second
+    }
+
+    public drawFrame(image: CanvasImageSource, width: number, height: number): void {
+        // Match the first frame's size; later size changes are scaled to fit
+        if (!this.hasFrame && (this.canvas.width !== width || this.canvas.height !== height)) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+        }
+        this.hasFrame = true;
+
+        this.context.drawImage(image, 0, 0, this.canvas.width, this.canvas.height);
+        this.drawTimestamp();
+    }
+
+    public stop(): Promise<Blob> {
+        return new Promise(resolve => {
+            this.recorder.addEventListener('stop', () => {
+                resolve(new Blob(this.chunks, { type: 'video/webm' }));
+            }, { once: true });
+            this.recorder.stop();
+            this.recorder.stream.getTracks().forEach(track => track.stop());
+        });
+    }
+
+    private drawTimestamp(): void {
+        const text = `${this.label}  ${new Date().toLocaleString()}`;
+        const fontSize = Math.max(12, Math.round(this.canvas.height / 30));
+        const padding = Math.round(fontSize / 2);
+
+        this.context.font = `${fontSize}px monospace`;
+        const textWidth = this.context.measureText(text).width;
+
+        this.context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        this.context.fillRect(0, this.canvas.height - fontSize - padding * 2, textWidth + padding * 2, fontSize + padding * 2);
+        this.context.fillStyle = '#fff';
+        this.context.textBaseline = 'bottom';
+        this.context.fillText(text, padding, this.canvas.height - padding);
+    }
+}
+
+export class RecordingManager {
+    private recorders: Map<string, CameraRecorder> = new Map();
+    private mimeType: string | null = pickMimeType();
+    private onRecordingChangedCallback: ((cameraId: string, recording: boolean) => void) | null = null;
+
+    public isSupported(): boolean {
+        return this.mimeType !== null;
+    }
+
+    public isRecording(cameraId: string): boolean {
+        return this.recorders.has(cameraId);
+    }
+
+    public getRecordingIds(): string[] {
+        return Array.from(this.recorders.keys());
+    }
+
+    public startRecording(cameraId: string, label: string): boolean {
+        if (this.recorders.has(cameraId)) {
+            return true;
+        }
+        if (!this.mimeType) {
+            console.error('Recording is not supported in this browser');
+            return false;
+        }
+
+        try {
+            this.recorders.set(cameraId, new CameraRecorder(label, this.mimeType));
+        } catch (error) {
+            console.error(`Failed to start recording for ${cameraId}:`, error);
+            return false;
+        }
+
+        console.log(`Recording started for ${cameraId}`);
+        if (this.onRecordingChangedCallback) {
+            this.onRecordingChangedCallback(cameraId, true);
+        }
+        return true;
+    }
+
+    // Stop a recording and offer the result as a download
+    public stopRecording(cameraId: string): void {
+        const recorder = this.recorders.get(cameraId);
+        if (!recorder) {
+            return;
+        }
+
+        this.recorders.delete(cameraId);
+        console.log(`Recording stopped for ${cameraId}`);
+        if (this.onRecordingChangedCallback) {
+            this.onRecordingChangedCallback(cameraId, false);
+        }
+
+        recorder.stop().then(blob => {
+            if (blob.size === 0) {
+                console.warn(`Recording for ${cameraId} is empty, nothing to download`);
+                return;
+            }
+            downloadBlob(blob, recordingFileName(recorder.label, recorder.startedAt, 'webm'));
+        });
+    }
+
+    public stopAll(): void {
+        this.getRecordingIds().forEach(cameraId => this.stopRecording(cameraId));
+    }
+
+    // Feed a decoded frame to the camera's recorder, if it is recording
+    public addFrame(cameraId: string, frame: ImageBitmap): void {
+        const recorder = this.recorders.get(cameraId);
+        if (recorder) {
+            recorder.drawFrame(frame, frame.width, frame.height);
+        }
+    }
+
+    public onRecordingChanged(callback: (cameraId: string, recording: boolean) => void): void {
+        this.onRecordingChangedCallback = callback;
+    }
+}
@@ -0,0 +1,201 @@
+// Instant replay: a bounded per-camera buffer of recent frames and replay sessions over it
+
+const REPLAY_MAX_DURATION = 30000; // 30 seconds
+const REPLAY_MAX_BYTES = 24 * 1024 * 1024; // 24 MB per camera
+
+export interface BufferedFrame {
+    blob: Blob;
+    receivedAt: number; // Date.now() when the frame arrived
+}
+
+// Ring buffer of frames bounded by age and total size
+export class FrameBuffer {
+    private frames: BufferedFrame[] = [];
+    private totalBytes: number = 0;
+    private maxDuration: number;
+    private maxBytes: number;
+
+    constructor(maxDuration: number = REPLAY_MAX_DURATION, maxBytes: number = REPLAY_MAX_BYTES) {
+        this.maxDuration = maxDuration;
+        this.maxBytes = maxBytes;
+    }
+
+    public push(blob: Blob): void {
+        const now = Date.now();
+        this.frames.push({ blob, receivedAt: now });
+        this.totalBytes += blob.size;
+
+        while (this.frames.length > 1 &&
+            (this.totalBytes > this.maxBytes || now - this.frames[0]!.receivedAt > this.maxDuration)) {
+            const dropped = this.frames.shift()!;
+            this.totalBytes -= dropped.blob.size;
+        }
+    }
+
+    // Copy of the buffered frames, oldest first
+    public snapshot(): BufferedFrame[] {
+        return this.frames.slice();
+    }
+
+    public latest(): BufferedFrame | null {
+        return this.frames[this.frames.length - 1] ?? null;
+    }
+
+    public getByteSize(): number {
+        return this.totalBytes;
+    }
+
+    public getFrameCount(): number {
+        return this.frames.length;
+    }
+}
+
+export interface ReplaySession {
+    frames: BufferedFrame[]; // Frozen when the replay started
+    index: number;
+    playing: boolean;
+}
+
+export class ReplayManager {
+    private buffers: Map<string, FrameBuffer> = new Map();
+    private sessions: Map<string, ReplaySession> = new Map();
+    private playbackTimers: Map<string, number> = new Map();
+    private onReplayChangedCallback: ((cameraId: string, session: ReplaySession | null) => void) | null = null;
+
+    public addFrame(cameraId: string, blob: Blob): void {
+        let buffer = this.buffers.get(cameraId);
+        if (!buffer) {
+            buffer = new FrameBuffer();
+            this.buffers.set(cameraId, buffer);
+        }
+        buffer.push(blob);
+    }
+
+    public hasFrames(cameraId: string): boolean {
+        return (this.buffers.get(cameraId)?.getFrameCount() ?? 0) > 0;
+    }
+
+    public isReplaying(cameraId: string): boolean {
+        return this.sessions.has(cameraId);
+    }
+
+    public getSession(cameraId: string): ReplaySession | null {
+        return this.sessions.get(cameraId) ?? null;
+    }
+
+    // Freeze the buffer and show its newest frame, paused
+    public startReplay(cameraId: string): boolean {
+        const frames = this.buffers.get(cameraId)?.snapshot() ?? [];
+        if (frames.length === 0) {
+            console.warn(`No buffered frames to replay for ${cameraId}`);
+            return false;
+        }
+
+        this.sessions.set(cameraId, { frames, index: frames.length - 1, playing: false });
+        console.log(`Replay started for ${cameraId} (${frames.length} frames)`);
+        this.notify(cameraId);
+        return true;
+    }
+
+    // Return to the live stream
+    public stopReplay(cameraId: string): void {
+        if (!this.sessions.has(cameraId)) {
+            return;
+        }
+
+        this.clearPlaybackTimer(cameraId);
+        this.sessions.delete(cameraId);
+        console.log(`Replay stopped for ${cameraId}`);
+        this.notify(cameraId);
+    }
+
+    public seek(cameraId: string, index: number): void {
+        const session = this.sessions.get(cameraId);
+        if (!session) return;
+
+        session.index = Math.max(0, Math.min(session.frames.length - 1, index));
+        this.notify(cameraId);
+    }
+
+    public step(cameraId: string, delta: number): void {
+        const session = this.sessions.get(cameraId);
+        if (!session) return;
+
+        this.pause(cameraId);
+        this.seek(cameraId, session.index + delta);
+    }
+
+    public play(cameraId: string): void {
+        const session = this.sessions.get(cameraId);
+        if (!session || session.playing) return;
+
+        // Restart from the beginning when play is pressed on the last frame
+        if (session.index >= session.frames.length - 1) {
+            session.index = 0;
+        }
+        session.playing = true;
+        this.notify(cameraId);
+        this.scheduleNextFrame(cameraId);
+    }
+
+    public pause(cameraId: string): void {
+        const session = this.sessions.get(cameraId);
+        if (!session || !session.playing) return;
+
+        this.clearPlaybackTimer(cameraId);
+        session.playing = false;
+        this.notify(cameraId);
+    }
+
+    // The frame the card shows: the selected one while replaying, otherwise the newest
+    public getDisplayedFrame(cameraId: string): BufferedFrame | null {
+        const session = this.sessions.get(cameraId);
+        if (session) return session.frames[session.index] ?? null;
+        return this.buffers.get(cameraId)?.latest() ?? null;
+    }
+
+    public removeCamera(cameraId: string): void {
+        this.stopReplay(cameraId);
+        this.buffers.delete(cameraId);
+    }
+
+    public onReplayChanged(callback: (cameraId: string, session: ReplaySession | null) => void): void {
+        this.onReplayChangedCallback = callback;
+    }
+
+    // Play back with the original inter-frame timing
+    private scheduleNextFrame(cameraId: string): void {
+        const session = this.sessions.get(cameraId);
+        if (!session) return;
+
+        const current = session.frames[session.index];
+        const next = session.frames[session.index + 1];
+        if (!current || !next) {
+            session.playing = false;
+            this.notify(cameraId);
+            return;
+        }
+
+        const timer = window.setTimeout(() => {
+            this.playbackTimers.delete(cameraId);
+            session.index++;
+            this.notify(cameraId);
+            this.scheduleNextFrame(cameraId);
+        }, next.receivedAt - current.receivedAt);
+        this.playbackTimers.set(cameraId, timer);
+    }
+
+    private clearPlaybackTimer(cameraId: string): void {
+        const timer = this.playbackTimers.get(cameraId);
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            this.playbackTimers.delete(cameraId);
+        }
+    }
+
+    private notify(cameraId: string): void {
+        if (this.onReplayChangedCallback) {
+            this.onReplayChangedCallback(cameraId, this.sessions.get(cameraId) ?? null);
+        }
+    }
+}
@@ -0,0 +1,528 @@
+// Persistent per-camera settings, keyed by camera ID and stored in localStorage
+
+import { ALERT_RULE_KINDS, AlertRule, AlertRuleKind, AlertSettings, DEFAULT_ALERT_SETTINGS } from './alerts.js';
+import { DecodeError, DecodeResult, formatDecodeErrors } from './messages.js';
+import { DEFAULT_RETENTION_DAYS } from './timeline.js';
+import { DEFAULT_MOTION_SETTINGS, MotionSettings } from './motion.js';
+import { MotionZone } from './motion-analysis.js';
+import { QUALITY_MODES, QualityMode, QualitySettings, StreamQuality } from './quality.js';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from './audio.js';
+import { BackendConfig, DEFAULT_BACKEND, isValidBackendId, isValidBackendUrl } from './backends.js';
+import { DEFAULT_SNAPSHOT_ON_ALERT } from './snapshots.js';
+
+const STORAGE_KEY = 'nestrest.settings';
+// Stored settings that could not be read completely are copied here before they are overwritten
+const UNREADABLE_STORAGE_KEY = 'nestrest.settings.unreadable';
+const SETTINGS_VERSION = 1;
+
+export interface CameraSettings {
+    name?: string;
+    location?: string; // The room the camera is in
+    tags?: string[];
+    inactivityTimeoutMs?: number;
+    order?: number; // Position in the grid; cameras without one go last
+    motion?: MotionSettings;
+    quality?: QualitySettings;
+    audio?: AudioSettings;
+}
+
+export type ViewMode = 'grid' | 'list' | 'focus';
+
+export interface LayoutSettings {
+    viewMode: ViewMode;
+    focusedCameraId?: string; // Only used in focus mode
+    groupBy?: GroupBy; // Cards are grouped under a header per room or backend
+    collapsedGroups?: string[]; // Group keys, see groupKeyOf
+    backendFilter?: string; // Only the cards of this backend are shown
+}
+
+export type GroupBy = 'room' | 'backend';
+
+// Identifies a group across the kinds of grouping, e.g. "room:Nursery"
+export function groupKeyOf(groupBy: GroupBy, value: string): string {
+    return `${groupBy}:${value}`;
+}
+
+const DEFAULT_LAYOUT: LayoutSettings = { viewMode: 'grid' };
+
+// Shape of the stored and exported configuration
+export interface SettingsFile {
+    version: number;
+    cameras: Record<string, CameraSettings>;
+    layout?: LayoutSettings;
+    alerts?: AlertSettings;
+    timelineRetentionDays?: number;
+    pauseHiddenStreams?: boolean;
+    snapshotOnAlert?: boolean;
+    backends?: BackendConfig[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function decodeZones(value: unknown, path: string, errors: DecodeError[]): MotionZone[] {
+    if (!Array.isArray(value)) {
+        errors.push({ path, message: 'expected array' });
+        return [];
+    }
+
+    const zones: MotionZone[] = [];
+    value.forEach((zone, index) => {
+        const valid = isRecord(zone) &&
+            (zone.kind === 'include' || zone.kind === 'exclude') &&
+            Array.isArray(zone.points) &&
+            zone.points.every(point => isRecord(point) && typeof point.x === 'number' && typeof point.y === 'number');
+        if (valid) {
+            zones.push(zone as unknown as MotionZone);
+        } else {
+            errors.push({ path: `${path}[${index}]`, message: 'invalid zone' });
+        }
+    });
+    return zones;
+}
+
+function decodeMotionSettings(value: unknown, path: string, errors: DecodeError[]): MotionSettings | undefined {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'expected object' });
+        return undefined;
+    }
+
+    const settings: MotionSettings = { ...DEFAULT_MOTION_SETTINGS };
+    if (typeof value.enabled === 'boolean') settings.enabled = value.enabled;
+    if (typeof value.sensitivity === 'number') settings.sensitivity = value.sensitivity;
+    if (typeof value.minDurationMs === 'number') settings.minDurationMs = value.minDurationMs;
+    if (value.zones !== undefined) settings.zones = decodeZones(value.zones, `${path}.zones`, errors);
+    return settings;
+}
+
+function decodeQualitySettings(value: unknown, path: string, errors: DecodeError[]): QualitySettings | undefined {
+    const isQuality = (quality: unknown): quality is StreamQuality => isRecord(quality) &&
+        typeof quality.maxWidth === 'number' &&
+        typeof quality.maxHeight === 'number' &&
+        typeof quality.fps === 'number' &&
+        typeof quality.jpegQuality === 'number';
+    if (!isRecord(value) || !QUALITY_MODES.includes(value.mode as QualityMode) || !isQuality(value.manual)) {
+        errors.push({ path, message: 'invalid quality settings' });
+        return undefined;
+    }
+    return { mode: value.mode as QualityMode, manual: value.manual };
+}
+
+function decodeAudioSettings(value: unknown, path: string, errors: DecodeError[]): AudioSettings | undefined {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'expected object' });
+        return undefined;
+    }
+
+    const settings: AudioSettings = { ...DEFAULT_AUDIO_SETTINGS };
+    if (typeof value.muted === 'boolean') settings.muted = value.muted;
+    if (typeof value.volume === 'number') settings.volume = value.volume;
+    if (typeof value.loudThreshold === 'number') settings.loudThreshold = value.loudThreshold;
+    return settings;
+}
+
+function decodeCameraSettings(value: unknown, path: string, errors: DecodeError[]): CameraSettings | null {
+    if (!isRecord(value)) {
+        errors.push({ path, message: 'expected object' });
+        return null;
+    }
+
+    const settings: CameraSettings = {};
+    const expect = (field: string, type: 'string' | 'number'): boolean => {
+        if (value[field] === undefined) return false;
+        if (typeof value[field] !== type) {
+            errors.push({ path: `${path}.${field}`, message: `expected ${type}` });
+            return false;
+        }
+        return true;
+    };
+
+    if (expect('name', 'string')) settings.name = value.name as string;
+    if (expect('location', 'string')) settings.location = value.location as string;
+    if (value.tags !== undefined) {
+        if (Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string')) {
+            settings.tags = value.tags as string[];
+        } else {
+            errors.push({ path: `${path}.tags`, message: 'expected array of strings' });
+        }
+    }
+    if (expect('inactivityTimeoutMs', 'number')) settings.inactivityTimeoutMs = value.inactivityTimeoutMs as number;
+    if (expect('order', 'number')) settings.order = value.order as number;
+    if (value.motion !== undefined) {
+        const motion = decodeMotionSettings(value.motion, `${path}.motion`, errors);
+        if (motion) settings.motion = motion;
+    }
+    if (value.quality !== undefined) {
+        const quality = decodeQualitySettings(value.quality, `${path}.quality`, errors);
+        if (quality) settings.quality = quality;
+    }
+    if (value.audio !== undefined) {
+        const audio = decodeAudioSettings(value.audio, `${path}.audio`, errors);
+        if (audio) settings.audio = audio;
+    }
+    return settings;
+}
+
+function decodeLayout(value: unknown, path: string, errors: DecodeError[]): LayoutSettings | undefined {
+    if (!isRecord(value) || (value.viewMode !== 'grid' && value.viewMode !== 'list' && value.viewMode !== 'focus')) {
+        errors.push({ path, message: 'expected layout with a viewMode of grid, list or focus' });
+        return undefined;
+    }
+
+    const layout: LayoutSettings = { viewMode: value.viewMode };
+    if (typeof value.focusedCameraId === 'string') layout.focusedCameraId = value.focusedCameraId;
+    if (value.groupBy === 'room' || value.groupBy === 'backend') layout.groupBy = value.groupBy;
+    if (Array.isArray(value.collapsedGroups) && value.collapsedGroups.every(key => typeof key === 'string')) {
+        layout.collapsedGroups = value.collapsedGroups as string[];
+    }
+    if (typeof value.backendFilter === 'string') layout.backendFilter = value.backendFilter;
+    return layout;
+}
+
+function decodeBackends(value: unknown, path: string, errors: DecodeError[]): BackendConfig[] | undefined {
+    if (!Array.isArray(value) || value.length === 0) {
+        errors.push({ path, message: 'expected a non-empty array' });
+        return undefined;
+    }
+
+    const backends: BackendConfig[] = [];
+    value.forEach((backend, index) => {
+        const valid = isRecord(backend) &&
+            typeof backend.id === 'string' && isValidBackendId(backend.id) &&
+            typeof backend.label === 'string' && backend.label.length > 0 &&
+            typeof backend.url === 'string' && isValidBackendUrl(backend.url) &&
+            (backend.maxReconnectAttempts === undefined || typeof backend.maxReconnectAttempts === 'number') &&
+            (backend.maxReconnectDelayMs === undefined || typeof backend.maxReconnectDelayMs === 'number');
+        if (!valid) {
+            errors.push({ path: `${path}[${index}]`, message: 'invalid backend' });
+        } else if (backends.some(existing => existing.id === backend.id)) {
+            errors.push({ path: `${path}[${index}].id`, message: `duplicate backend ID ${backend.id}` });
+        } else {
+            backends.push({
+                id: backend.id as string,
+                label: backend.label as string,
+                url: backend.url as string,
+                maxReconnectAttempts: (backend.maxReconnectAttempts as number | undefined) ?? DEFAULT_BACKEND.maxReconnectAttempts,
+                maxReconnectDelayMs: (backend.maxReconnectDelayMs as number | undefined) ?? DEFAULT_BACKEND.maxReconnectDelayMs
+            });
+        }
+    });
+    return backends.length > 0 ? backends : undefined;
+}
+
+function decodeAlertRule(value: unknown, path: string, errors: DecodeError[]): AlertRule | null {
+    const valid = isRecord(value) &&
+        typeof value.id === 'string' &&
+        ALERT_RULE_KINDS.includes(value.kind as AlertRuleKind) &&
+        typeof value.enabled === 'boolean' &&
+        (value.severity === 'info' || value.severity === 'warning' || value.severity === 'critical') &&
+        typeof value.durationSeconds === 'number' &&
+        (value.minFps === undefined || typeof value.minFps === 'number');
+    if (!valid) {
+        errors.push({ path, message: 'invalid alert rule' });
+        return null;
+    }
+    return value as unknown as AlertRule;
+}
+
+function decodeAlertSettings(value: unknown, path: string, errors: DecodeError[]): AlertSettings | undefined {
+    if (!isRecord(value) || !Array.isArray(value.rules)) {
+        errors.push({ path, message: 'expected alert settings with a rules array' });
+        return undefined;
+    }
+
+    const rules: AlertRule[] = [];
+    value.rules.forEach((rule, index) => {
+        const decoded = decodeAlertRule(rule, `${path}.rules[${index}]`, errors);
+        if (decoded) rules.push(decoded);
+    });
+    // Rule kinds added since the settings were saved start out with their defaults
+    DEFAULT_ALERT_SETTINGS.rules.forEach(rule => {
+        if (!rules.some(existing => existing.kind === rule.kind)) rules.push(rule);
+    });
+    return {
+        rules,
+        notifications: value.notifications === true,
+        sound: value.sound === true
+    };
+}
+
+// Imports must be valid as a whole
+export function decodeSettingsFile(value: unknown): DecodeResult<SettingsFile> {
+    const errors: DecodeError[] = [];
+    const file = decodeSettingsSections(value, errors);
+    return file && errors.length === 0 ? { ok: true, value: file } : { ok: false, errors };
+}
+
+// Decode what can be decoded: invalid sections, cameras, rules and backends are left
+// out and reported in `errors`. Null when the value is no settings file at all.
+function decodeSettingsSections(value: unknown, errors: DecodeError[]): SettingsFile | null {
+    if (!isRecord(value)) {
+        errors.push({ path: '', message: 'expected object' });
+        return null;
+    }
+    if (value.version !== SETTINGS_VERSION) {
+        errors.push({ path: 'version', message: `unsupported settings version ${JSON.stringify(value.version)}` });
+        return null;
+    }
+
+    const cameras: Record<string, CameraSettings> = {};
+    if (isRecord(value.cameras)) {
+        Object.entries(value.cameras).forEach(([id, settings]) => {
+            const decoded = decodeCameraSettings(settings, `cameras.${id}`, errors);
+            if (decoded) cameras[id] = decoded;
+        });
+    } else {
+        errors.push({ path: 'cameras', message: 'expected object' });
+    }
+
+    const file: SettingsFile = { version: SETTINGS_VERSION, cameras };
+    if (value.layout !== undefined) {
+        const layout = decodeLayout(value.layout, 'layout', errors);
+        if (layout) file.layout = layout;
+    }
+    if (value.alerts !== undefined) {
+        const alerts = decodeAlertSettings(value.alerts, 'alerts', errors);
+        if (alerts) file.alerts = alerts;
+    }
+    if (value.timelineRetentionDays !== undefined) {
+        if (typeof value.timelineRetentionDays === 'number' && value.timelineRetentionDays > 0) {
+            file.timelineRetentionDays = value.timelineRetentionDays;
+        } else {
+            errors.push({ path: 'timelineRetentionDays', message: 'expected positive number' });
+        }
+    }
+    if (value.pauseHiddenStreams !== undefined) {
+        if (typeof value.pauseHiddenStreams === 'boolean') {
+            file.pauseHiddenStreams = value.pauseHiddenStreams;
+        } else {
+            errors.push({ path: 'pauseHiddenStreams', message: 'expected boolean' });
+        }
+    }
+    if (value.snapshotOnAlert !== undefined) {
+        if (typeof value.snapshotOnAlert === 'boolean') {
+            file.snapshotOnAlert = value.snapshotOnAlert;
+        } else {
+            errors.push({ path: 'snapshotOnAlert', message: 'expected boolean' });
+        }
+    }
+    if (value.backends !== undefined) {
+        const backends = decodeBackends(value.backends, 'backends', errors);
+        if (backends) file.backends = backends;
+    }
+    return file;
+}
+
+export class SettingsStore {
+    private cameras: Map<string, CameraSettings> = new Map();
+    private layout: LayoutSettings = { ...DEFAULT_LAYOUT };
+    private alerts: AlertSettings = DEFAULT_ALERT_SETTINGS;
+    private timelineRetentionDays: number = DEFAULT_RETENTION_DAYS;
+    private pauseHiddenStreams: boolean = false;
+    private snapshotOnAlert: boolean = DEFAULT_SNAPSHOT_ON_ALERT;
+    private backends: BackendConfig[] = [DEFAULT_BACKEND];
+    private onSettingsChangedCallback: ((cameraId: string | null) => void) | null = null;
+
+    constructor() {
+        this.load();
+    }
+
+    public get(cameraId: string): CameraSettings {
+        return this.cameras.get(cameraId) ?? {};
+    }
+
+    public getDisplayName(cameraId: string): string {
+        return this.get(cameraId).name || `Camera ${cameraId}`;
+    }
+
+    // Merge changes into a camera's settings; `undefined` values clear a setting
+    public update(cameraId: string, changes: { [K in keyof CameraSettings]?: CameraSettings[K] | undefined }): void {
+        const settings: CameraSettings = { ...this.get(cameraId) };
+        (Object.keys(changes) as (keyof CameraSettings)[]).forEach(key => {
+            if (changes[key] === undefined) {
+                delete settings[key];
+            } else {
+                (settings as Record<string, unknown>)[key] = changes[key];
+            }
+        });
+
+        this.cameras.set(cameraId, settings);
+        this.save();
+        this.notify(cameraId);
+    }
+
+    // Store the grid order; `cameraIds` lists cameras first to last
+    public setOrder(cameraIds: string[]): void {
+        cameraIds.forEach((cameraId, index) => {
+            this.cameras.set(cameraId, { ...this.get(cameraId), order: index });
+        });
+        this.save();
+        this.notify(null);
+    }
+
+    public getLayout(): LayoutSettings {
+        return this.layout;
+    }
+
+    // Layout changes are saved but not broadcast; the grid UI is the only user
+    public setLayout(layout: LayoutSettings): void {
+        this.layout = layout;
+        this.save();
+    }
+
+    public getAlertSettings(): AlertSettings {
+        return this.alerts;
+    }
+
+    // Saved without a change notification; the alert rules panel applies them itself
+    public setAlertSettings(alerts: AlertSettings): void {
+        this.alerts = alerts;
+        this.save();
+    }
+
+    public getTimelineRetentionDays(): number {
+        return this.timelineRetentionDays;
+    }
+
+    // Saved without a change notification, like the alert settings
+    public setTimelineRetentionDays(days: number): void {
+        this.timelineRetentionDays = days;
+        this.save();
+    }
+
+    public getPauseHiddenStreams(): boolean {
+        return this.pauseHiddenStreams;
+    }
+
+    // Saved without a change notification, like the alert settings
+    public setPauseHiddenStreams(pause: boolean): void {
+        this.pauseHiddenStreams = pause;
+        this.save();
+    }
+
+    public getSnapshotOnAlert(): boolean {
+        return this.snapshotOnAlert;
+    }
+
+    // Saved without a change notification, like the alert settings
+    public setSnapshotOnAlert(enabled: boolean): void {
+        this.snapshotOnAlert = enabled;
+        this.save();
+    }
+
+    public getBackends(): BackendConfig[] {
+        return this.backends;
+    }
+
+    // Saved without a change notification, like the alert settings
+    public setBackends(backends: BackendConfig[]): void {
+        this.backends = backends;
+        this.save();
+    }
+
+    public exportJson(): string {
+        const file: SettingsFile = {
+            version: SETTINGS_VERSION,
+            cameras: Object.fromEntries(this.cameras),
+            layout: this.layout,
+            alerts: this.alerts,
+            timelineRetentionDays: this.timelineRetentionDays,
+            pauseHiddenStreams: this.pauseHiddenStreams,
+            snapshotOnAlert: this.snapshotOnAlert,
+            backends: this.backends
+        };
+        return JSON.stringify(file, null, 2);
+    }
+
+    // Replace all settings with an exported configuration
+    public importJson(json: string): DecodeResult<SettingsFile> {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (error) {
+            return { ok: false, errors: [{ path: '', message: `invalid JSON: ${error}` }] };
+        }
+
+        const result = decodeSettingsFile(parsed);
+        if (!result.ok) {
+            return result;
+        }
+
+        this.apply(result.value);
+        this.save();
+        console.log(`Imported settings for ${this.cameras.size} cameras`);
+        this.notify(null);
+        return result;
+    }
+
+    // `cameraId` is null when settings of several cameras changed at once
+    public onSettingsChanged(callback: (cameraId: string | null) => void): void {
+        this.onSettingsChangedCallback = callback;
+    }
+
+    private load(): void {
+        let stored: string | null = null;
+        try {
+            stored = localStorage.getItem(STORAGE_KEY);
+        } catch (error) {
+            console.warn('Settings storage is not available:', error);
+        }
+        if (!stored) return;
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(stored);
+        } catch (error) {
+            console.error('Failed to parse stored settings:', error);
+            this.keepUnreadable(stored);
+            return;
+        }
+
+        // One bad entry must not cost the user every other setting
+        const errors: DecodeError[] = [];
+        const file = decodeSettingsSections(parsed, errors);
+        if (errors.length > 0) {
+            console.error(`Ignoring invalid stored settings: ${formatDecodeErrors(errors)}`);
+            this.keepUnreadable(stored);
+        }
+        if (file) {
+            this.apply(file);
+            console.log(`Loaded settings for ${this.cameras.size} cameras`);
+        }
+    }
+
+    private apply(file: SettingsFile): void {
+        this.cameras = new Map(Object.entries(file.cameras));
+        this.layout = file.layout ?? { ...DEFAULT_LAYOUT };
+        this.alerts = file.alerts ?? DEFAULT_ALERT_SETTINGS;
+        this.timelineRetentionDays = file.timelineRetentionDays ?? DEFAULT_RETENTION_DAYS;
+        this.pauseHiddenStreams = file.pauseHiddenStreams ?? false;
+        this.snapshotOnAlert = file.snapshotOnAlert ?? DEFAULT_SNAPSHOT_ON_ALERT;
+        this.backends = file.backends ?? [DEFAULT_BACKEND];
+    }
+
+    // The next save replaces the stored settings, so keep what could not be read for recovery
+    private keepUnreadable(stored: string): void {
+        try {
+            localStorage.setItem(UNREADABLE_STORAGE_KEY, stored);
+            console.warn(`The stored settings were copied to localStorage["${UNREADABLE_STORAGE_KEY}"]`);
+        } catch (error) {
+            console.error('Failed to keep a copy of the unreadable settings:', error);
+        }
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(STORAGE_KEY, this.exportJson());
+        } catch (error) {
+            console.error('Failed to save settings:', error);
+        }
+    }
+
+    private notify(cameraId: string | null): void {
+        if (this.onSettingsChangedCallback) {
+            this.onSettingsChangedCallback(cameraId);
+        }
+    }
+}
@@ -0,0 +1,359 @@
+// Simulated backend for running the dashboard without the real one. Speaks
+// protocol v2: device messages, synthetic JPEG frames and audio, and command
+// replies, honouring stream quality requests, and accepts any login.
+
+import {
+    AUTH_MESSAGE_KIND,
+    AuthMessage,
+    CommandKind,
+    CommandMessage,
+    DeviceCommand,
+    DevicePayload,
+    FrameCodec,
+    MIN_PROTOCOL_VERSION,
+    PROTOCOL_VERSION,
+    StreamAction,
+    StreamQualityPayload,
+    TalkAction,
+    WsMessage,
+    WsMessageKind,
+    deviceIdOf,
+    encodeAudioChunk,
+    encodeBinaryFrame
+} from './messages.js';
+import { Transport, TransportConnection, TransportHandlers } from './transport.js';
+
+// steady:     three cameras streaming without trouble
+// flapping:   one camera drops to Disconnected and comes back every few seconds
+// frame-loss: frames go missing or arrive twice, and one camera stalls now and then
+// burst:      a dozen cameras appear within seconds, later most of them leave again
+export type SimulatorScenario = 'steady' | 'flapping' | 'frame-loss' | 'burst';
+
+export const SIMULATOR_SCENARIOS: SimulatorScenario[] = ['steady', 'flapping', 'frame-loss', 'burst'];
+
+// Until the dashboard asks for another stream quality
+const DEFAULT_QUALITY: SimulatedQuality = { width: 320, height: 240, fps: 5, jpegQuality: 70 };
+const MAX_SIMULATED_FPS = 30;
+const CONNECT_DELAY = 300; // Pretend the handshake takes a moment
+const FLAP_INTERVAL = 8000;
+const FRAME_DROP_RATE = 0.2;
+const FRAME_DUPLICATE_RATE = 0.05;
+const STALL_INTERVAL = 30000;
+const STALL_DURATION = 12000;
+const AUDIO_SAMPLE_RATE = 8000;
+const AUDIO_CHUNK_INTERVAL = 100; // ms
+const NOISE_INTERVAL = 25000; // Every so often one camera picks up a loud noise
+const NOISE_DURATION = 3000;
+const SIMULATED_TOKEN_LIFETIME = 300; // Seconds
+
+interface SimulatedQuality {
+    width: number;
+    height: number;
+    fps: number;
+    jpegQuality: number; // 1-100
+}
+
+interface SimulatedDevice {
+    payload: DevicePayload;
+    streaming: boolean;
+    stalled: boolean;
+    sequence: number;
+    hue: number;
+    quality: SimulatedQuality;
+    lastFrameAt: number;
+    audioSequence: number;
+    noisyUntil: number; // performance.now()
+}
+
+class SimulatedConnection implements TransportConnection {
+    private scenario: SimulatorScenario;
+    private handlers: TransportHandlers;
+    private devices: Map<string, SimulatedDevice> = new Map();
+    private timers: number[] = [];
+    private open: boolean = false;
+    private closed: boolean = false;
+    private nextDeviceNumber: number = 1;
+    private canvas: HTMLCanvasElement;
+    private context: CanvasRenderingContext2D | null;
+
+    constructor(scenario: SimulatorScenario, handlers: TransportHandlers) {
+        this.scenario = scenario;
+        this.handlers = handlers;
+        this.canvas = document.createElement('canvas');
+        this.context = this.canvas.getContext('2d');
+    }
+
+    public start(): void {
+        this.later(CONNECT_DELAY, () => {
+            this.open = true;
+            this.handlers.onOpen();
+
+            const initialCount = this.scenario === 'burst' ? 1 : 3;
+            for (let i = 0; i < initialCount; i++) {
+                this.createDevice();
+            }
+            this.sendMessage(WsMessageKind.Init, {
+                device_count: this.devices.size,
+                devices: Array.from(this.devices.values()).map(device => device.payload),
+                protocol_version: PROTOCOL_VERSION,
+                min_protocol_version: MIN_PROTOCOL_VERSION
+            });
+
+            this.every(1000 / MAX_SIMULATED_FPS, () => {
+                const now = performance.now();
+                this.devices.forEach(device => {
+                    if (now - device.lastFrameAt < 1000 / device.quality.fps) return;
+                    device.lastFrameAt = now;
+                    this.sendFrame(device);
+                });
+            });
+            this.every(AUDIO_CHUNK_INTERVAL, () => this.devices.forEach(device => this.sendAudio(device)));
+            this.every(NOISE_INTERVAL, () => {
+                const all = Array.from(this.devices.values());
+                const device = all[Math.floor(Math.random() * all.length)];
+                if (device) device.noisyUntil = performance.now() + NOISE_DURATION;
+            });
+            this.runScenario();
+        });
+    }
+
+    public isOpen(): boolean {
+        return this.open;
+    }
+
+    public send(data: string | ArrayBuffer): void {
+        if (!this.open) return;
+        if (typeof data !== 'string') return; // Push-to-talk audio; nobody listens here
+
+        let message: CommandMessage | AuthMessage;
+        try {
+            message = JSON.parse(data);
+        } catch (error) {
+            console.warn('Simulator received invalid JSON:', data);
+            return;
+        }
+        if (message.kind === AUTH_MESSAGE_KIND) {
+            this.later(100, () => this.handleAuth(message as AuthMessage));
+            return;
+        }
+        this.later(50 + Math.random() * 200, () => this.handleCommand(message as CommandMessage));
+    }
+
+    public close(code: number = 1000, reason: string = ''): void {
+        if (this.closed) return;
+
+        this.closed = true;
+        this.open = false;
+        this.timers.forEach(timer => clearTimeout(timer)); // Also clears intervals
+        this.timers = [];
+        setTimeout(() => this.handlers.onClose(code, reason), 0);
+    }
+
+    private runScenario(): void {
+        const devices = () => Array.from(this.devices.values());
+
+        switch (this.scenario) {
+            case 'steady':
+                break;
+            case 'flapping':
+                this.every(FLAP_INTERVAL, () => {
+                    const device = devices()[0];
+                    if (!device) return;
+                    this.setStatus(device, device.payload.status === 'Connected' ? 'Disconnected' : 'Connected');
+                });
+                break;
+            case 'frame-loss':
+                this.every(STALL_INTERVAL, () => {
+                    const device = devices()[1];
+                    if (!device) return;
+                    device.stalled = true;
+                    this.later(STALL_DURATION, () => { device.stalled = false; });
+                });
+                break;
+            case 'burst':
+                this.later(3000, () => {
+                    for (let i = 0; i < 12; i++) {
+                        this.later(i * 150, () => {
+                            const device = this.createDevice();
+                            this.sendMessage(WsMessageKind.AddDevice, device.payload);
+                        });
+                    }
+                });
+                this.later(25000, () => {
+                    devices().slice(1, 11).forEach((device, index) => {
+                        this.later(index * 200, () => this.removeDevice(device));
+                    });
+                });
+                break;
+        }
+    }
+
+    // Authentication is optional here: every login succeeds and nothing is refused without one
+    private handleAuth(message: AuthMessage): void {
+        const viewer = 'role' in message.payload && message.payload.role === 'viewer';
+        this.sendMessage(WsMessageKind.AuthOk, {
+            token: `sim-token-${Date.now()}`,
+            role: viewer ? 'viewer' : 'operator',
+            expires_in: SIMULATED_TOKEN_LIFETIME
+        });
+    }
+
+    private handleCommand(message: CommandMessage): void {
+        const reply = (ok: boolean, text?: string) => {
+            const payload = text !== undefined ? { request_id: message.request_id, message: text } : { request_id: message.request_id };
+            this.sendMessage(ok ? WsMessageKind.CommandAck : WsMessageKind.CommandError, payload);
+        };
+
+        const device = message.payload ? this.devices.get(deviceIdOf(message.payload)) : undefined;
+        if (!device) {
+            reply(false, 'Unknown device');
+            return;
+        }
+
+        if (message.kind === CommandKind.DeviceCommand && 'command' in message.payload) {
+            const on = message.payload.command === DeviceCommand.On;
+            device.streaming = on;
+            this.setStatus(device, on ? 'Connected' : 'Standby');
+            reply(true);
+        } else if (message.kind === CommandKind.StreamControl && 'action' in message.payload) {
+            device.streaming = message.payload.action === StreamAction.Start;
+            reply(true);
+        } else if (message.kind === CommandKind.StreamQuality) {
+            const payload = message.payload as StreamQualityPayload;
+            device.quality = {
+                width: payload.max_width ?? DEFAULT_QUALITY.width,
+                height: payload.max_height ?? DEFAULT_QUALITY.height,
+                fps: Math.min(MAX_SIMULATED_FPS, payload.target_fps ?? DEFAULT_QUALITY.fps),
+                jpegQuality: payload.jpeg_quality ?? DEFAULT_QUALITY.jpegQuality
+            };
+            reply(true);
+        } else if (message.kind === CommandKind.RefreshDevice) {
+            reply(true);
+            this.sendMessage(WsMessageKind.UpdateDevice, device.payload);
+        } else if (message.kind === CommandKind.Talk && 'action' in message.payload) {
+            console.log(`Simulator: ${deviceIdOf(message.payload)} talk ${message.payload.action === TalkAction.Start ? 'started' : 'stopped'}`);
+            reply(true);
+        } else {
+            reply(false, `Unsupported command ${message.kind}`);
+        }
+    }
+
+    private createDevice(): SimulatedDevice {
+        const number = this.nextDeviceNumber++;
+        const device: SimulatedDevice = {
+            payload: { kind: 'Camera', ip: `10.0.0.${number}`, status: 'Connected', device_id: `sim-cam-${number}` },
+            streaming: true,
+            stalled: false,
+            sequence: 0,
+            hue: (number * 67) % 360,
+            quality: DEFAULT_QUALITY,
+            lastFrameAt: 0,
+            audioSequence: 0,
+            noisyUntil: 0
+        };
+        this.devices.set(deviceIdOf(device.payload), device);
+        return device;
+    }
+
+    private removeDevice(device: SimulatedDevice): void {
+        this.devices.delete(deviceIdOf(device.payload));
+        this.sendMessage(WsMessageKind.RemoveDevice, device.payload);
+    }
+
+    private setStatus(device: SimulatedDevice, status: string): void {
+        device.payload = { ...device.payload, status };
+        this.sendMessage(WsMessageKind.UpdateDevice, device.payload);
+    }
+
+    private sendFrame(device: SimulatedDevice): void {
+        if (!this.context || !device.streaming || device.stalled || device.payload.status !== 'Connected') {
+            return;
+        }
+
+        device.sequence++;
+        let sequence = device.sequence;
+        if (this.scenario === 'frame-loss') {
+            if (Math.random() < FRAME_DROP_RATE) return;
+            if (Math.random() < FRAME_DUPLICATE_RATE) sequence--;
+        }
+
+        const capturedAt = new Date();
+        this.canvas.width = device.quality.width;
+        this.canvas.height = device.quality.height;
+        this.drawFrame(device, sequence, capturedAt);
+        this.canvas.toBlob(blob => {
+            if (!blob) return;
+            blob.arrayBuffer().then(data => {
+                if (!this.open) return;
+                const id = deviceIdOf(device.payload);
+                this.handlers.onMessage(encodeBinaryFrame(id, sequence, capturedAt, FrameCodec.Jpeg, data));
+            });
+        }, 'image/jpeg', device.quality.jpegQuality / 100);
+    }
+
+    // Quiet background noise, or a loud tone while the device is noisy
+    private sendAudio(device: SimulatedDevice): void {
+        if (!device.streaming || device.stalled || device.payload.status !== 'Connected') return;
+
+        const samples = new Float32Array(AUDIO_SAMPLE_RATE * AUDIO_CHUNK_INTERVAL / 1000);
+        const noisy = performance.now() < device.noisyUntil;
+        const start = device.audioSequence * samples.length;
+        for (let i = 0; i < samples.length; i++) {
+            const noise = (Math.random() * 2 - 1) * 0.01;
+            samples[i] = noisy ? noise + 0.5 * Math.sin(2 * Math.PI * 440 * (start + i) / AUDIO_SAMPLE_RATE) : noise;
+        }
+
+        device.audioSequence++;
+        const data = encodeAudioChunk({ sampleRate: AUDIO_SAMPLE_RATE, samples });
+        this.handlers.onMessage(encodeBinaryFrame(deviceIdOf(device.payload), device.audioSequence, new Date(), FrameCodec.Pcm16, data));
+    }
+
+    // A coloured background, a moving dot and the frame details
+    private drawFrame(device: SimulatedDevice, sequence: number, capturedAt: Date): void {
+        const context = this.context!;
+        const { width, height } = device.quality;
+        const scale = width / DEFAULT_QUALITY.width;
+        context.fillStyle = `hsl(${device.hue}, 40%, 30%)`;
+        context.fillRect(0, 0, width, height);
+
+        const angle = (capturedAt.getTime() / 1000) % (2 * Math.PI);
+        context.fillStyle = '#fff';
+        context.beginPath();
+        context.arc(width / 2 + Math.cos(angle) * width / 4, height / 2 + Math.sin(angle) * height / 4, 12 * scale, 0, 2 * Math.PI);
+        context.fill();
+
+        context.font = `${Math.round(14 * scale)}px monospace`;
+        context.fillText(`${device.payload.device_id} #${sequence}`, 10 * scale, 20 * scale);
+        context.fillText(`${width}×${height} ${capturedAt.toLocaleTimeString()}`, 10 * scale, height - 10 * scale);
+    }
+
+    private sendMessage(kind: WsMessageKind, payload: unknown): void {
+        if (!this.open) return;
+        const message: WsMessage = { kind, payload };
+        this.handlers.onMessage(JSON.stringify(message));
+    }
+
+    private later(delay: number, callback: () => void): void {
+        this.timers.push(window.setTimeout(callback, delay));
+    }
+
+    private every(interval: number, callback: () => void): void {
+        this.timers.push(window.setInterval(callback, interval));
+    }
+}
+
+export class SimulatorTransport implements Transport {
+    public readonly description: string;
+    private scenario: SimulatorScenario;
+
+    constructor(scenario: SimulatorScenario = 'steady') {
+        this.scenario = scenario;
+        this.description = `simulator (${scenario})`;
+    }
+
+    public connect(handlers: TransportHandlers): TransportConnection {
+        const connection = new SimulatedConnection(this.scenario, handlers);
+        connection.start();
+        return connection;
+    }
+}
@@ -0,0 +1,197 @@
+// Snapshots: single frames saved at full resolution, stamped with the camera name
+// and time, and kept in a local IndexedDB gallery with thumbnails and notes
+
+const DB_NAME = 'nestrest-snapshots';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+// The oldest alert snapshots without a note are deleted beyond this. Snapshots taken
+// by hand or given a note are kept until the user deletes them.
+export const MAX_ALERT_SNAPSHOTS = 200;
+const THUMBNAIL_WIDTH = 240;
+const IMAGE_TYPE = 'image/jpeg';
+const IMAGE_QUALITY = 0.92;
+const THUMBNAIL_QUALITY = 0.7;
+
+// Take a snapshot of the camera when one of its alerts fires
+export const DEFAULT_SNAPSHOT_ON_ALERT = true;
+
+export interface Snapshot {
+    id?: number; // Assigned by IndexedDB
+    cameraId: string;
+    cameraName: string; // Display name when the snapshot was taken
+    takenAt: number; // Date.now()
+    alert: string | null; // Message of the alert that triggered it, null when taken by hand
+    note: string;
+    width: number;
+    height: number;
+    image: Blob;
+    thumbnail: Blob;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('takenAt', 'takenAt');
+    };
+    return promisify(request);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode snapshot')), IMAGE_TYPE, quality);
+    });
+}
+
+// Camera name and time in the bottom left corner, on a dark band so they read on any picture
+function stamp(context: CanvasRenderingContext2D, width: number, height: number, text: string): void {
+    const fontSize = Math.max(12, Math.round(height / 30));
+    const padding = Math.round(fontSize / 2);
+    context.font = `${fontSize}px sans-serif`;
+    context.textBaseline = 'bottom';
+    const textWidth = Math.min(context.measureText(text).width, width - 2 * padding);
+
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(0, height - fontSize - 2 * padding, textWidth + 2 * padding, fontSize + 2 * padding);
+    context.fillStyle = '#fff';
+    context.fillText(text, padding, height - padding, width - 2 * padding);
+}
+
+// Draw the frame at its own resolution with the stamp, and a thumbnail of the result
+export function createSnapshot(
+    frame: ImageBitmap,
+    cameraId: string,
+    cameraName: string,
+    alert: string | null
+): Promise<Omit<Snapshot, 'id'>> {
+    const takenAt = new Date();
+    const { width, height } = frame;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        return Promise.reject(new Error('Canvas 2D is not available'));
+    }
+    context.drawImage(frame, 0, 0);
+    stamp(context, width, height, `${cameraName} · ${takenAt.toLocaleString()}`);
+
+    const thumbnailCanvas = document.createElement('canvas');
+    thumbnailCanvas.width = Math.min(THUMBNAIL_WIDTH, width);
+    thumbnailCanvas.height = Math.max(1, Math.round(height * thumbnailCanvas.width / width));
+    thumbnailCanvas.getContext('2d')?.drawImage(canvas, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+
+    return Promise.all([canvasToBlob(canvas, IMAGE_QUALITY), canvasToBlob(thumbnailCanvas, THUMBNAIL_QUALITY)])
+        .then(([image, thumbnail]) => ({
+            cameraId,
+            cameraName,
+            takenAt: takenAt.getTime(),
+            alert,
+            note: '',
+            width,
+            height,
+            image,
+            thumbnail
+        }));
+}
+
+export class SnapshotStore {
+    private db: Promise<IDBDatabase>;
+    private onChangedCallback: (() => void) | null = null;
+
+    constructor() {
+        this.db = openDatabase();
+        this.db.catch(error => console.error('Snapshot gallery is not available:', error));
+    }
+
+    // Resolves to the stored snapshot with its id
+    public add(snapshot: Omit<Snapshot, 'id'>): Promise<Snapshot> {
+        return this.db
+            .then(db => promisify(db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).add(snapshot)))
+            .then(id => {
+                const stored: Snapshot = { ...snapshot, id: id as number };
+                this.prune();
+                this.notify();
+                return stored;
+            });
+    }
+
+    // All snapshots, newest first
+    public list(): Promise<Snapshot[]> {
+        return this.db
+            .then(db => promisify(db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).index('takenAt').getAll()))
+            .then((snapshots: Snapshot[]) => snapshots.reverse());
+    }
+
+    public setNote(id: number, note: string): Promise<void> {
+        return this.db.then(db => {
+            const store = db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE);
+            return promisify(store.get(id)).then((snapshot: Snapshot | undefined) => {
+                if (!snapshot) throw new Error(`Snapshot ${id} not found`);
+                return promisify(store.put({ ...snapshot, note }));
+            });
+        }).then(() => this.notify());
+    }
+
+    public remove(id: number): Promise<void> {
+        return this.db
+            .then(db => promisify(db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).delete(id)))
+            .then(() => this.notify());
+    }
+
+    // Called after every change, including snapshots taken on alerts
+    public onChanged(callback: () => void): void {
+        this.onChangedCallback = callback;
+    }
+
+    // Keep the newest MAX_ALERT_SNAPSHOTS alert snapshots without a note; fire and forget, failures are logged
+    private prune(): void {
+        this.db.then(db => new Promise<number>((resolve, reject) => {
+            const transaction = db.transaction(SNAPSHOT_STORE, 'readwrite');
+            const store = transaction.objectStore(SNAPSHOT_STORE);
+            const prunable: IDBValidKey[] = [];
+            let deleted = 0;
+
+            // Oldest first
+            const request = store.index('takenAt').openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    const snapshot: Snapshot = cursor.value;
+                    if (snapshot.alert !== null && snapshot.note === '') {
+                        prunable.push(cursor.primaryKey);
+                    }
+                    cursor.continue();
+                    return;
+                }
+                prunable.slice(0, Math.max(0, prunable.length - MAX_ALERT_SNAPSHOTS)).forEach(key => {
+                    store.delete(key);
+                    deleted++;
+                });
+            };
+            transaction.oncomplete = () => {
+                if (deleted > 0) console.log(`Deleted the ${deleted} oldest alert snapshots`);
+                resolve(deleted);
+            };
+            transaction.onerror = () => reject(transaction.error);
+        })).catch(error => console.error('Failed to prune snapshots:', error));
+    }
+
+    private notify(): void {
+        if (this.onChangedCallback) {
+            this.onChangedCallback();
+        }
+    }
+}
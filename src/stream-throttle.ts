@@ -0,0 +1,165 @@
+// Pauses the streams of cameras nobody can see and resumes them once they
+// scroll back into view or the tab is shown again
+
+import { CameraCatalog } from './camera.js';
+import { CommandChannel, commandTarget } from './commands.js';
+import { CommandKind, StreamAction } from './messages.js';
+
+const PAUSE_DELAY = 5000; // Scrolling past a card should not stop its stream
+
+export class StreamThrottler {
+    private catalog: CameraCatalog;
+    private commandChannel: CommandChannel;
+    private enabled: boolean = false;
+    private hidden: Set<string> = new Set();
+    private paused: Set<string> = new Set();
+    private userStopped: Set<string> = new Set(); // Left alone, the user decides about these
+    private pauseTimers: Map<string, number> = new Map();
+    private keepStreaming: (cameraId: string) => boolean = () => false;
+    private onPausedChangedCallback: ((cameraId: string, paused: boolean) => void) | null = null;
+
+    constructor(catalog: CameraCatalog, commandChannel: CommandChannel) {
+        this.catalog = catalog;
+        this.commandChannel = commandChannel;
+    }
+
+    public setEnabled(enabled: boolean): void {
+        if (this.enabled === enabled) return;
+        this.enabled = enabled;
+
+        if (enabled) {
+            this.hidden.forEach(cameraId => this.schedulePause(cameraId));
+        } else {
+            this.pauseTimers.forEach(timer => clearTimeout(timer));
+            this.pauseTimers.clear();
+            Array.from(this.paused).forEach(cameraId => this.resume(cameraId));
+        }
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    // Cameras that need frames even when hidden, e.g. while recording
+    public setKeepStreaming(predicate: (cameraId: string) => boolean): void {
+        this.keepStreaming = predicate;
+    }
+
+    // Call when keepStreaming may have changed for a camera: resumes a paused stream that
+    // needs frames again, and schedules the pause of a hidden one that no longer does
+    public refresh(cameraId: string): void {
+        if (!this.keepStreaming(cameraId)) {
+            if (this.hidden.has(cameraId)) this.schedulePause(cameraId);
+        } else if (this.paused.has(cameraId)) {
+            this.resume(cameraId);
+        }
+    }
+
+    public setVisible(cameraId: string, visible: boolean): void {
+        if (visible) {
+            this.hidden.delete(cameraId);
+            this.cancelPause(cameraId);
+            if (this.paused.has(cameraId)) {
+                this.resume(cameraId);
+            }
+        } else {
+            this.hidden.add(cameraId);
+            this.schedulePause(cameraId);
+        }
+    }
+
+    // The user started or stopped the stream by hand
+    public setUserStopped(cameraId: string, stopped: boolean): void {
+        if (stopped) {
+            this.userStopped.add(cameraId);
+            this.cancelPause(cameraId);
+            this.setPaused(cameraId, false);
+        } else {
+            this.userStopped.delete(cameraId);
+        }
+    }
+
+    public isPaused(cameraId: string): boolean {
+        return this.paused.has(cameraId);
+    }
+
+    public removeCamera(cameraId: string): void {
+        this.cancelPause(cameraId);
+        this.hidden.delete(cameraId);
+        this.userStopped.delete(cameraId);
+        this.setPaused(cameraId, false);
+    }
+
+    public onPausedChanged(callback: (cameraId: string, paused: boolean) => void): void {
+        this.onPausedChangedCallback = callback;
+    }
+
+    private schedulePause(cameraId: string): void {
+        if (!this.enabled || this.pauseTimers.has(cameraId) || this.paused.has(cameraId)) return;
+
+        this.pauseTimers.set(cameraId, window.setTimeout(() => {
+            this.pauseTimers.delete(cameraId);
+            this.pause(cameraId);
+        }, PAUSE_DELAY));
+    }
+
+    private cancelPause(cameraId: string): void {
+        const timer = this.pauseTimers.get(cameraId);
+        if (timer !== undefined) {
+            clearTimeout(timer);
+            this.pauseTimers.delete(cameraId);
+        }
+    }
+
+    private pause(cameraId: string): void {
+        const camera = this.catalog.getCamera(cameraId);
+        if (!camera || !this.enabled || !this.hidden.has(cameraId) || camera.status !== 'Connected' ||
+            this.userStopped.has(cameraId) || this.keepStreaming(cameraId)) {
+            return;
+        }
+
+        // Counts as paused right away so the alert rules do not mistake the gap for a stall
+        this.setPaused(cameraId, true);
+        this.commandChannel.sendCommand(CommandKind.StreamControl, {
+            ...commandTarget(camera),
+            action: StreamAction.Stop
+        }).then(result => {
+            if (result.ok) {
+                console.log(`Paused stream of hidden camera ${cameraId}`);
+            } else {
+                console.warn(`Failed to pause stream of hidden camera ${cameraId}: ${result.message}`);
+                this.setPaused(cameraId, false);
+            }
+        });
+    }
+
+    private resume(cameraId: string): void {
+        const camera = this.catalog.getCamera(cameraId);
+        this.setPaused(cameraId, false);
+        if (!camera) return;
+
+        this.commandChannel.sendCommand(CommandKind.StreamControl, {
+            ...commandTarget(camera),
+            action: StreamAction.Start
+        }).then(result => {
+            if (result.ok) {
+                console.log(`Resumed stream of camera ${cameraId}`);
+            } else {
+                console.warn(`Failed to resume stream of camera ${cameraId}: ${result.message}`);
+            }
+        });
+    }
+
+    private setPaused(cameraId: string, paused: boolean): void {
+        if (this.paused.has(cameraId) === paused) return;
+
+        if (paused) {
+            this.paused.add(cameraId);
+        } else {
+            this.paused.delete(cameraId);
+        }
+        if (this.onPausedChangedCallback) {
+            this.onPausedChangedCallback(cameraId, paused);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+// Audio worklet for push-to-talk: hands the microphone input to the main thread in fixed-size chunks
+
+// The project compiles against the DOM library, so describe the worklet scope we use
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+    constructor(options?: { processorOptions?: { chunkSamples?: number } });
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+class TalkCaptureProcessor extends AudioWorkletProcessor {
+    private chunk: Float32Array;
+    private length: number = 0;
+
+    constructor(options?: { processorOptions?: { chunkSamples?: number } }) {
+        super(options);
+        this.chunk = new Float32Array(options?.processorOptions?.chunkSamples ?? 1600);
+    }
+
+    // Only the first channel of the first input is sent; talk-back is mono
+    public process(inputs: Float32Array[][]): boolean {
+        const input = inputs[0]?.[0];
+        if (!input) return true;
+
+        let offset = 0;
+        while (offset < input.length) {
+            const count = Math.min(input.length - offset, this.chunk.length - this.length);
+            this.chunk.set(input.subarray(offset, offset + count), this.length);
+            this.length += count;
+            offset += count;
+
+            if (this.length === this.chunk.length) {
+                this.port.postMessage(this.chunk);
+                this.chunk = new Float32Array(this.chunk.length);
+                this.length = 0;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('talk-capture', TalkCaptureProcessor);
+
+export {}; // Keeps the declarations above local to this module
@@ -0,0 +1,229 @@
+// Persistent event timeline stored in IndexedDB, with retention and uptime summaries
+
+import { PRIMARY_BACKEND_ID, parseCameraId } from './backends.js';
+import { CameraStatus } from './camera.js';
+
+const DB_NAME = 'nestrest-timeline';
+const DB_VERSION = 1;
+const EVENT_STORE = 'events';
+const PRUNE_INTERVAL = 60 * 60 * 1000; // Apply the retention policy hourly
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export type TimelineEventType = 'device-added' | 'device-removed' | 'status' | 'inactivity' | 'command' | 'connection' | 'alert';
+
+export const TIMELINE_EVENT_TYPES: TimelineEventType[] =
+    ['device-added', 'device-removed', 'status', 'inactivity', 'command', 'connection', 'alert'];
+
+export interface TimelineEvent {
+    id?: number; // Assigned by IndexedDB
+    timestamp: number; // Date.now()
+    cameraId: string | null; // null for backend-wide events
+    type: TimelineEventType;
+    message: string;
+    // State carried by the event, used for uptime summaries
+    status?: CameraStatus; // device-added and status
+    inactive?: boolean; // inactivity
+    connected?: boolean; // connection
+    backendId?: string; // connection; missing on events recorded before there were several backends
+}
+
+export interface TimelineFilter {
+    cameraId?: string;
+    types?: TimelineEventType[];
+    from?: number;
+    to?: number;
+}
+
+export interface UptimeSummary {
+    cameraId: string;
+    upMs: number; // Connected and receiving frames
+    downMs: number;
+    unknownMs: number; // Before the first event for the camera, or while the backend was away
+    outages: number; // Transitions from up to down
+}
+
+export function uptimeRatio(summary: UptimeSummary): number | null {
+    const known = summary.upMs + summary.downMs;
+    return known > 0 ? summary.upMs / known : null;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'));
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(EVENT_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('timestamp', 'timestamp');
+    };
+    return promisify(request);
+}
+
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function timelineToCsv(events: TimelineEvent[]): string {
+    const rows = events.map(event => [
+        new Date(event.timestamp).toISOString(),
+        event.cameraId ?? '',
+        event.type,
+        event.message
+    ].map(csvField).join(','));
+    return ['time,camera,type,message', ...rows].join('\n');
+}
+
+// Split [from, to] into up, down and unknown time per camera. `events` must be
+// sorted oldest first and should reach back before `from`, so each camera's
+// state at the start of the range is known.
+export function computeUptime(events: TimelineEvent[], from: number, to: number): UptimeSummary[] {
+    const states = new Map<string, { backendId: string; status: CameraStatus | null; inactive: boolean; present: boolean }>();
+    const summaries = new Map<string, UptimeSummary>();
+    const disconnectedBackends = new Set<string>();
+    let lastTime = from;
+
+    const isBackendConnected = (state: { backendId: string }) => !disconnectedBackends.has(state.backendId);
+    const isUp = (state: { backendId: string; status: CameraStatus | null; inactive: boolean }) =>
+        isBackendConnected(state) && state.status === 'Connected' && !state.inactive;
+
+    const accumulate = (until: number) => {
+        const start = Math.max(lastTime, from);
+        const end = Math.min(until, to);
+        lastTime = Math.max(lastTime, until);
+        if (end <= start) return;
+
+        summaries.forEach((summary, cameraId) => {
+            const state = states.get(cameraId);
+            if (!state || !state.present) return;
+            if (!isBackendConnected(state) || state.status === null) {
+                summary.unknownMs += end - start;
+            } else if (isUp(state)) {
+                summary.upMs += end - start;
+            } else {
+                summary.downMs += end - start;
+            }
+        });
+    };
+
+    events.forEach(event => {
+        if (event.timestamp > to) return;
+        accumulate(event.timestamp);
+
+        if (event.type === 'connection') {
+            const backendId = event.backendId ?? PRIMARY_BACKEND_ID;
+            if (event.connected === true) {
+                disconnectedBackends.delete(backendId);
+            } else if (event.connected === false) {
+                disconnectedBackends.add(backendId);
+            }
+            return;
+        }
+        if (event.cameraId === null) return;
+
+        let summary = summaries.get(event.cameraId);
+        if (!summary) {
+            summary = { cameraId: event.cameraId, upMs: 0, downMs: 0, unknownMs: 0, outages: 0 };
+            summaries.set(event.cameraId, summary);
+        }
+        const state = states.get(event.cameraId)
+            ?? { backendId: parseCameraId(event.cameraId).backendId, status: null, inactive: false, present: true };
+        const wasUp = state.present && isUp(state);
+
+        if (event.type === 'device-removed') {
+            state.present = false;
+        } else {
+            state.present = true;
+            if (event.status !== undefined) state.status = event.status;
+            if (event.inactive !== undefined) state.inactive = event.inactive;
+        }
+        states.set(event.cameraId, state);
+
+        if (wasUp && !(state.present && isUp(state)) && event.timestamp >= from) {
+            summary.outages++;
+        }
+    });
+    accumulate(to);
+
+    return Array.from(summaries.values());
+}
+
+export class TimelineStore {
+    private db: Promise<IDBDatabase>;
+    private retentionDays: number;
+
+    constructor(retentionDays: number = DEFAULT_RETENTION_DAYS) {
+        this.retentionDays = retentionDays;
+        this.db = openDatabase();
+        this.db.catch(error => console.error('Event timeline is not available:', error));
+
+        this.prune();
+        setInterval(() => this.prune(), PRUNE_INTERVAL);
+    }
+
+    public getRetentionDays(): number {
+        return this.retentionDays;
+    }
+
+    public setRetentionDays(days: number): void {
+        this.retentionDays = days;
+        this.prune();
+    }
+
+    // Fire and forget; failures are logged
+    public record(event: Omit<TimelineEvent, 'id' | 'timestamp'>): void {
+        const stored: TimelineEvent = { timestamp: Date.now(), ...event };
+        this.db
+            .then(db => promisify(db.transaction(EVENT_STORE, 'readwrite').objectStore(EVENT_STORE).add(stored)))
+            .catch(error => console.error('Failed to record timeline event:', error));
+    }
+
+    // Matching events, oldest first
+    public query(filter: TimelineFilter = {}): Promise<TimelineEvent[]> {
+        const range = filter.from !== undefined && filter.to !== undefined ? IDBKeyRange.bound(filter.from, filter.to)
+            : filter.from !== undefined ? IDBKeyRange.lowerBound(filter.from)
+            : filter.to !== undefined ? IDBKeyRange.upperBound(filter.to)
+            : null;
+
+        return this.db
+            .then(db => promisify(db.transaction(EVENT_STORE).objectStore(EVENT_STORE).index('timestamp').getAll(range)))
+            .then((events: TimelineEvent[]) => events.filter(event =>
+                (filter.cameraId === undefined || event.cameraId === filter.cameraId) &&
+                (filter.types === undefined || filter.types.includes(event.type))));
+    }
+
+    // Delete events older than the retention period; resolves to the number deleted
+    public prune(): Promise<number> {
+        const cutoff = Date.now() - this.retentionDays * DAY_MS;
+        return this.db.then(db => new Promise<number>((resolve, reject) => {
+            const transaction = db.transaction(EVENT_STORE, 'readwrite');
+            const request = transaction.objectStore(EVENT_STORE).index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+            let deleted = 0;
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (cursor) {
+                    cursor.delete();
+                    deleted++;
+                    cursor.continue();
+                }
+            };
+            transaction.oncomplete = () => {
+                if (deleted > 0) console.log(`Pruned ${deleted} timeline events older than ${this.retentionDays} days`);
+                resolve(deleted);
+            };
+            transaction.onerror = () => reject(transaction.error);
+        })).catch(error => {
+            console.error('Failed to prune timeline:', error);
+            return 0;
+        });
+    }
+}
@@ -0,0 +1,59 @@
+// Transports carry the backend protocol: JSON text messages and binary frames
+
+export const DEFAULT_BACKEND_URL = 'ws://127.0.0.1:8081/web-ws';
+
+export interface TransportHandlers {
+    onOpen: () => void;
+    onMessage: (data: string | ArrayBuffer) => void;
+    // Always called once per connection, also after close()
+    onClose: (code: number, reason: string) => void;
+}
+
+// A single connection attempt
+export interface TransportConnection {
+    isOpen(): boolean;
+    send(data: string | ArrayBuffer): void;
+    close(code?: number, reason?: string): void;
+}
+
+export interface Transport {
+    readonly description: string; // For logs, e.g. the backend URL
+    connect(handlers: TransportHandlers): TransportConnection;
+}
+
+export class WebSocketTransport implements Transport {
+    public readonly description: string;
+    private url: string;
+
+    constructor(url: string = DEFAULT_BACKEND_URL) {
+        this.url = url;
+        this.description = url;
+    }
+
+    public connect(handlers: TransportHandlers): TransportConnection {
+        const socket = new WebSocket(this.url);
+        socket.binaryType = 'arraybuffer';
+
+        socket.addEventListener('open', () => handlers.onOpen());
+        socket.addEventListener('message', (event: MessageEvent) => {
+            if (event.data instanceof ArrayBuffer || typeof event.data === 'string') {
+                handlers.onMessage(event.data);
+            } else if (event.data instanceof Blob) {
+                event.data.arrayBuffer().then(arrayBuffer => handlers.onMessage(arrayBuffer));
+            } else {
+                console.log('Unknown data type received:', event.data);
+            }
+        });
+        socket.addEventListener('close', (event: CloseEvent) => handlers.onClose(event.code, event.reason));
+        // A close event always follows, which lets the caller reconnect
+        socket.addEventListener('error', (event: Event) => {
+            console.error('WebSocket error:', event);
+        });
+
+        return {
+            isOpen: () => socket.readyState === WebSocket.OPEN,
+            send: data => socket.send(data),
+            close: (code, reason) => socket.close(code, reason)
+        };
+    }
+}
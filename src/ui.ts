@@ -1,12 +1,84 @@
 // UI management classes for camera display
 
-import { CameraInfo } from './camera.js';
+import { CameraInfo, CameraStatus } from './camera.js';
+import { Alert, AlertManager, AlertNotifier, AlertRule, AlertSettings, AlertSeverity, describeRule, isAlerting } from './alerts.js';
+import { formatFps, formatJitter, formatLatency, formatResolution, formatThroughput } from './metrics.js';
+import { CommandChannel, CommandResult, commandTarget } from './commands.js';
+import { AuthRole, CommandKind, DeviceCommand, StreamAction, StreamMode } from './messages.js';
+import { RecordingManager, downloadBlob, recordingFileName } from './recording.js';
+import { ReplayManager, ReplaySession } from './replay.js';
+import { MotionDetector } from './motion.js';
+import { FrameRenderer } from './frame-renderer.js';
+import { MediaSessionManager } from './media.js';
+import { MotionZone } from './motion-analysis.js';
+import { GroupBy, LayoutSettings, SettingsStore, ViewMode, groupKeyOf } from './settings.js';
+import { CapturePlaybackTransport, PlaybackProgress } from './capture.js';
+import { MotionSettings } from './motion.js';
+import { DEFAULT_QUALITY_SETTINGS, QUALITY_LEVELS, QualityMode, QualitySettings } from './quality.js';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS, PushToTalk } from './audio.js';
+import { LoginCredentials } from './auth.js';
+import { BackendConfig, BackendState, createBackendId, isValidBackendUrl, parseCameraId } from './backends.js';
+import { CameraFilter, FilterOptions, isFilterEmpty, matchesFilter, parseTags, roomOf } from './filters.js';
+import { BulkDeviceState, BulkOperation, BulkOperationKind, countBulkDevices, describeBulkOperation } from './bulk.js';
+import { MAX_ALERT_SNAPSHOTS, Snapshot, SnapshotStore } from './snapshots.js';
+import {
+    TIMELINE_EVENT_TYPES,
+    TimelineEvent,
+    TimelineEventType,
+    TimelineFilter,
+    TimelineStore,
+    UptimeSummary,
+    computeUptime,
+    timelineToCsv,
+    uptimeRatio
+} from './timeline.js';
 
 export class CameraGridUI {
     private gridContainer: HTMLElement;
     private cardTemplate: HTMLTemplateElement;
+    private commandChannel: CommandChannel;
+    private recordingManager: RecordingManager;
+    private replayManager: ReplayManager;
+    private motionDetector: MotionDetector;
+    private zoneDrafts: Map<string, MotionZone> = new Map();
+    private settingsStore: SettingsStore;
+    private frameRenderer: FrameRenderer;
+    private mediaSessions: MediaSessionManager;
+    private zoom = { scale: 1, x: 0, y: 0 }; // Digital zoom of the focused camera
+    private draggedCard: HTMLElement | null = null;
+    private backends: { id: string; label: string }[] = [];
+    private backendStates: Map<string, BackendState> = new Map();
+    private viewerBackends: Set<string> = new Set(); // Backends that signed us in as viewer
+    private cameras: Map<string, CameraInfo> = new Map(); // The catalog's objects, for filtering
+    private cards: Map<string, HTMLElement> = new Map(); // By camera ID, which may contain any character
+    private filter: CameraFilter = {};
+    private onStreamCommandCallback: ((cameraId: string, streaming: boolean) => void) | null = null;
+    private onFocusChangedCallback: ((focusedCameraId: string | null) => void) | null = null;
+    private onTalkCallback: ((cameraId: string, talking: boolean) => void) | null = null;
+    private onSnapshotCallback: ((cameraId: string) => void) | null = null;
 
-    constructor() {
+    constructor(
+        commandChannel: CommandChannel,
+        recordingManager: RecordingManager,
+        replayManager: ReplayManager,
+        motionDetector: MotionDetector,
+        settingsStore: SettingsStore,
+        frameRenderer: FrameRenderer,
+        mediaSessions: MediaSessionManager
+    ) {
+        this.commandChannel = commandChannel;
+        this.recordingManager = recordingManager;
+        this.recordingManager.onRecordingChanged((cameraId, recording) => {
+            this.setRecording(cameraId, recording);
+        });
+        this.replayManager = replayManager;
+        this.replayManager.onReplayChanged((cameraId, session) => {
+            this.renderReplay(cameraId, session);
+        });
+        this.motionDetector = motionDetector;
+        this.settingsStore = settingsStore;
+        this.frameRenderer = frameRenderer;
+        this.mediaSessions = mediaSessions;
         this.gridContainer = document.getElementById('camerasGrid') as HTMLElement;
         this.cardTemplate = document.getElementById('cameraCardTemplate') as HTMLTemplateElement;
         
@@ -16,15 +88,402 @@ export class CameraGridUI {
         if (!this.cardTemplate) {
             console.error('Camera card template not found');
         }
+
+        this.bindViewControls();
+        this.applyViewMode();
+    }
+
+    private bindViewControls(): void {
+        document.getElementById('gridViewBtn')?.addEventListener('click', () => this.setViewMode('grid'));
+        document.getElementById('listViewBtn')?.addEventListener('click', () => this.setViewMode('list'));
+        const backendFilter = document.getElementById('backendFilter') as HTMLSelectElement | null;
+        backendFilter?.addEventListener('change', () => this.updateLayout({ backendFilter: backendFilter.value || undefined }));
+        const groupBySelect = document.getElementById('groupBySelect') as HTMLSelectElement | null;
+        groupBySelect?.addEventListener('change', () => {
+            this.updateLayout({ groupBy: (groupBySelect.value || undefined) as GroupBy | undefined });
+        });
+        document.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Escape' && this.settingsStore.getLayout().viewMode === 'focus') {
+                this.setViewMode('grid');
+            }
+        });
+    }
+
+    public setViewMode(viewMode: ViewMode, focusedCameraId?: string): void {
+        this.updateLayout({ viewMode, focusedCameraId });
+        this.resetZoom();
+        this.applyViewMode();
+        console.log(`View mode: ${viewMode}${focusedCameraId ? ` (${focusedCameraId})` : ''}`);
+    }
+
+    // Merge changes into the saved layout; `undefined` values clear a setting
+    private updateLayout(changes: { [K in keyof LayoutSettings]?: LayoutSettings[K] | undefined }): void {
+        const layout: LayoutSettings = { ...this.settingsStore.getLayout() };
+        (Object.keys(changes) as (keyof LayoutSettings)[]).forEach(key => {
+            if (changes[key] === undefined) {
+                delete layout[key];
+            } else {
+                (layout as unknown as Record<string, unknown>)[key] = changes[key];
+            }
+        });
+        this.settingsStore.setLayout(layout);
+
+        if ('groupBy' in changes || 'backendFilter' in changes || 'collapsedGroups' in changes) {
+            this.reorderCards();
+            this.applyViewMode();
+        }
+    }
+
+    // Apply the saved layout. Focus mode shows a grid until the focused camera is present.
+    private applyViewMode(): void {
+        if (!this.gridContainer) return;
+        this.applyGroupsAndFilters();
+
+        const layout = this.settingsStore.getLayout();
+        const focusedCard = layout.viewMode === 'focus' && layout.focusedCameraId
+            ? this.getCards().find(card => card.getAttribute('data-camera-id') === layout.focusedCameraId) ?? null
+            : null;
+        const effectiveMode: ViewMode = layout.viewMode === 'focus' && !focusedCard ? 'grid' : layout.viewMode;
+
+        this.gridContainer.classList.remove('grid-view', 'list-view', 'focus-view');
+        this.gridContainer.classList.add(`${effectiveMode}-view`);
+        this.getCards().forEach(card => card.classList.toggle('focused', card === focusedCard));
+
+        document.getElementById('gridViewBtn')?.classList.toggle('active', effectiveMode === 'grid');
+        document.getElementById('listViewBtn')?.classList.toggle('active', effectiveMode === 'list');
+
+        if (this.onFocusChangedCallback) {
+            this.onFocusChangedCallback(focusedCard ? layout.focusedCameraId ?? null : null);
+        }
+    }
+
+    // Called whenever the layout is applied, with the focused camera or null outside the focus view
+    public onFocusChanged(callback: (focusedCameraId: string | null) => void): void {
+        this.onFocusChangedCallback = callback;
+    }
+
+    private toggleFocus(cameraId: string): void {
+        const layout = this.settingsStore.getLayout();
+        if (layout.viewMode === 'focus' && layout.focusedCameraId === cameraId) {
+            this.setViewMode('grid');
+        } else {
+            this.setViewMode('focus', cameraId);
+        }
+    }
+
+    // Wheel to zoom around the cursor, drag to pan, double-click to reset.
+    // Only active on the focused card.
+    private bindZoomPan(cardElement: HTMLElement, videoContainer: HTMLElement): void {
+        const isZoomable = () => cardElement.classList.contains('focused') && !cardElement.classList.contains('drawing-zone');
+
+        videoContainer.addEventListener('wheel', (event: WheelEvent) => {
+            const frame = this.getFrameElement(cardElement);
+            if (!isZoomable() || !frame) return;
+            event.preventDefault();
+
+            const rect = frame.getBoundingClientRect();
+            const previousScale = this.zoom.scale;
+            const scale = Math.max(1, Math.min(8, previousScale * (event.deltaY < 0 ? 1.15 : 1 / 1.15)));
+            // Keep the point under the cursor in place
+            this.zoom.x += (event.clientX - rect.left) * (1 - scale / previousScale);
+            this.zoom.y += (event.clientY - rect.top) * (1 - scale / previousScale);
+            this.zoom.scale = scale;
+            this.applyZoom(frame);
+        }, { passive: false });
+
+        let panStart: { x: number; y: number; zoomX: number; zoomY: number } | null = null;
+        videoContainer.addEventListener('pointerdown', (event: PointerEvent) => {
+            if (!isZoomable() || this.zoom.scale === 1) return;
+            panStart = { x: event.clientX, y: event.clientY, zoomX: this.zoom.x, zoomY: this.zoom.y };
+            videoContainer.setPointerCapture(event.pointerId);
+        });
+        videoContainer.addEventListener('pointermove', (event: PointerEvent) => {
+            const frame = this.getFrameElement(cardElement);
+            if (!panStart || !frame) return;
+            this.zoom.x = panStart.zoomX + event.clientX - panStart.x;
+            this.zoom.y = panStart.zoomY + event.clientY - panStart.y;
+            this.applyZoom(frame);
+        });
+        const endPan = () => { panStart = null; };
+        videoContainer.addEventListener('pointerup', endPan);
+        videoContainer.addEventListener('pointercancel', endPan);
+
+        videoContainer.addEventListener('dblclick', () => {
+            if (!isZoomable()) return;
+            this.resetZoom();
+        });
+    }
+
+    private applyZoom(frame: HTMLElement): void {
+        // Keep the zoomed frame covering its box
+        const width = frame.offsetWidth;
+        const height = frame.offsetHeight;
+        this.zoom.x = Math.min(0, Math.max(width * (1 - this.zoom.scale), this.zoom.x));
+        this.zoom.y = Math.min(0, Math.max(height * (1 - this.zoom.scale), this.zoom.y));
+        frame.style.transform = this.zoom.scale === 1 ? '' : `translate(${this.zoom.x}px, ${this.zoom.y}px) scale(${this.zoom.scale})`;
+    }
+
+    private resetZoom(): void {
+        this.zoom = { scale: 1, x: 0, y: 0 };
+        this.getCards().forEach(card => {
+            card.querySelectorAll<HTMLElement>('.camera-frame').forEach(frame => { frame.style.transform = ''; });
+        });
+    }
+
+    // The element showing the camera image: the video while a video session is active, else the canvas
+    private getFrameElement(cardElement: Element): HTMLElement | null {
+        const selector = cardElement.classList.contains('video-mode') ? 'video.camera-frame' : 'canvas.camera-frame';
+        return cardElement.querySelector(selector) as HTMLElement | null;
+    }
+
+    // Cards are dragged by their header; the new order is saved
+    private bindDragReorder(cardElement: HTMLElement): void {
+        const header = cardElement.querySelector('.camera-header') as HTMLElement;
+        if (!header) return;
+
+        header.addEventListener('pointerdown', (event: PointerEvent) => {
+            const target = event.target as HTMLElement;
+            cardElement.draggable = !target.closest('.inline-editable, .camera-select');
+        });
+        cardElement.addEventListener('dragstart', (event: DragEvent) => {
+            this.draggedCard = cardElement;
+            cardElement.classList.add('dragging');
+            event.dataTransfer?.setData('text/plain', cardElement.getAttribute('data-camera-id') ?? '');
+        });
+        cardElement.addEventListener('dragend', () => {
+            cardElement.classList.remove('dragging');
+            cardElement.draggable = false;
+            this.draggedCard = null;
+        });
+        cardElement.addEventListener('dragover', (event: DragEvent) => {
+            const dragged = this.draggedCard;
+            if (!dragged || dragged === cardElement) return;
+            event.preventDefault();
+
+            // Drop before or after this card depending on which half the pointer is over
+            const rect = cardElement.getBoundingClientRect();
+            const vertical = this.gridContainer.classList.contains('list-view') ||
+                this.gridContainer.classList.contains('focus-view');
+            const after = vertical
+                ? event.clientY > rect.top + rect.height / 2
+                : event.clientX > rect.left + rect.width / 2;
+            this.gridContainer.insertBefore(dragged, after ? cardElement.nextSibling : cardElement);
+        });
+        cardElement.addEventListener('drop', (event: DragEvent) => {
+            event.preventDefault();
+            const order = this.getCards()
+                .map(card => card.getAttribute('data-camera-id'))
+                .filter((id): id is string => id !== null);
+            this.settingsStore.setOrder(order);
+        });
+    }
+
+    // The backends in the configured order. Their controls only show when there are several.
+    public setBackends(backends: { id: string; label: string }[]): void {
+        this.backends = backends;
+        Array.from(this.viewerBackends)
+            .filter(backendId => !backends.some(backend => backend.id === backendId))
+            .forEach(backendId => this.viewerBackends.delete(backendId));
+
+        const filter = document.getElementById('backendFilter') as HTMLSelectElement | null;
+        if (filter) {
+            const all = document.createElement('option');
+            all.value = '';
+            all.textContent = 'All backends';
+            filter.replaceChildren(all, ...backends.map(backend => {
+                const option = document.createElement('option');
+                option.value = backend.id;
+                option.textContent = backend.label;
+                return option;
+            }));
+        }
+
+        this.getCards().forEach(card => this.renderBackend(card));
+        this.applyViewerRole();
+        this.reorderCards();
+        this.applyViewMode();
+    }
+
+    public setBackendState(backendId: string, state: BackendState): void {
+        this.backendStates.set(backendId, state);
+        const header = this.gridContainer?.querySelector(`.camera-group-header[data-backend-id="${backendId}"]`);
+        const indicator = header?.querySelector('.status-indicator');
+        if (indicator) indicator.className = `status-indicator ${state}`;
+    }
+
+    // Cards of backends that signed us in as viewer hide their device controls; the
+    // bulk controls go too when every backend did
+    public setBackendRole(backendId: string, role: AuthRole | null): void {
+        if (role === 'viewer') {
+            this.viewerBackends.add(backendId);
+        } else {
+            this.viewerBackends.delete(backendId);
+        }
+        this.applyViewerRole();
+    }
+
+    private applyViewerRole(): void {
+        this.getCards().forEach(card => {
+            card.classList.toggle('role-viewer', this.viewerBackends.has(card.getAttribute('data-backend-id') ?? ''));
+        });
+        document.body.classList.toggle('role-viewer',
+            this.backends.length > 0 && this.backends.every(backend => this.viewerBackends.has(backend.id)));
+    }
+
+    private getBackendLabel(backendId: string): string {
+        return this.backends.find(backend => backend.id === backendId)?.label ?? backendId;
+    }
+
+    private renderBackend(cardElement: HTMLElement): void {
+        const backendId = cardElement.getAttribute('data-backend-id') ?? '';
+        const backendName = cardElement.querySelector('.backend-name') as HTMLElement;
+        if (backendName) backendName.textContent = this.getBackendLabel(backendId);
+    }
+
+    // Show only the cameras the filter accepts
+    public setFilter(filter: CameraFilter): void {
+        this.filter = filter;
+        this.applyViewMode();
+    }
+
+    // Grouping by backend only applies while there are several
+    private getGroupBy(): GroupBy | null {
+        const groupBy = this.settingsStore.getLayout().groupBy ?? null;
+        return groupBy === 'backend' && this.backends.length <= 1 ? null : groupBy;
+    }
+
+    // The rooms of all cards, lowercased and sorted; cards are grouped in this order
+    private getRooms(): string[] {
+        const rooms = new Set<string>();
+        this.getCards().forEach(card => {
+            const room = roomOf(this.settingsStore.get(card.getAttribute('data-camera-id') ?? ''));
+            if (room) rooms.add(room.toLowerCase());
+        });
+        return Array.from(rooms).sort((a, b) => a.localeCompare(b));
+    }
+
+    // The group a camera is shown in, or null when the grid is not grouped. `rooms` is getRooms().
+    private getGroup(cameraId: string, rooms: string[]): { key: string; label: string; index: number; backendId: string | null } | null {
+        const groupBy = this.getGroupBy();
+        if (groupBy === 'backend') {
+            const backendId = parseCameraId(cameraId).backendId;
+            const index = this.backends.findIndex(backend => backend.id === backendId);
+            return {
+                key: groupKeyOf('backend', backendId),
+                label: this.getBackendLabel(backendId),
+                index: index < 0 ? this.backends.length : index,
+                backendId
+            };
+        }
+        if (groupBy === 'room') {
+            // Cameras without a room go last
+            const room = roomOf(this.settingsStore.get(cameraId));
+            return room
+                ? { key: groupKeyOf('room', room.toLowerCase()), label: room, index: rooms.indexOf(room.toLowerCase()), backendId: null }
+                : { key: groupKeyOf('room', ''), label: 'No room', index: rooms.length, backendId: null };
+        }
+        return null;
+    }
+
+    private isFilteredOut(cardElement: HTMLElement): boolean {
+        const layout = this.settingsStore.getLayout();
+        const backendId = cardElement.getAttribute('data-backend-id') ?? '';
+        if (this.backends.length > 1 && layout.backendFilter !== undefined && backendId !== layout.backendFilter &&
+            this.backends.some(backend => backend.id === layout.backendFilter)) {
+            return true;
+        }
+
+        const cameraId = cardElement.getAttribute('data-camera-id') ?? '';
+        const camera = this.cameras.get(cameraId);
+        if (!camera || isFilterEmpty(this.filter)) return false;
+        return !matchesFilter(camera, this.settingsStore.get(cameraId), this.settingsStore.getDisplayName(cameraId), this.filter);
+    }
+
+    // Apply the filters, and the group headers with their collapsed state. Headers follow
+    // the card order, which reorderCards sorts by group first while grouping.
+    private applyGroupsAndFilters(): void {
+        const layout = this.settingsStore.getLayout();
+        const multiple = this.backends.length > 1;
+        const collapsed = new Set(layout.collapsedGroups ?? []);
+        // The focus view shows every card as a thumbnail
+        const collapsible = layout.viewMode !== 'focus';
+        const rooms = this.getRooms();
+
+        this.gridContainer.querySelectorAll('.camera-group-header').forEach(header => header.remove());
+        const headers: { header: HTMLElement; shown: number }[] = [];
+        this.getCards().forEach(card => {
+            const cameraId = card.getAttribute('data-camera-id') ?? '';
+            const hidden = this.isFilteredOut(card);
+            card.classList.toggle('filtered-out', hidden);
+            (card.querySelector('.backend-row') as HTMLElement | null)?.style.setProperty('display', multiple ? '' : 'none');
+
+            const group = this.getGroup(cameraId, rooms);
+            card.setAttribute('data-group-key', group?.key ?? '');
+            card.classList.toggle('group-collapsed', group !== null && collapsible && collapsed.has(group.key));
+            if (!group) return;
+
+            if (headers[headers.length - 1]?.header.getAttribute('data-group-key') !== group.key) {
+                const header = this.renderGroupHeader(group, collapsed.has(group.key));
+                this.gridContainer.insertBefore(header, card);
+                headers.push({ header, shown: 0 });
+            }
+            if (!hidden) headers[headers.length - 1]!.shown++;
+        });
+        // Groups without a camera that passes the filters are left out
+        headers.forEach(({ header, shown }) => {
+            header.classList.toggle('filtered-out', shown === 0);
+            (header.querySelector('.group-count') as HTMLElement).textContent = `(${shown})`;
+        });
+
+        const controls = document.getElementById('backendViewControls');
+        if (controls) controls.style.display = multiple ? '' : 'none';
+        const filterSelect = document.getElementById('backendFilter') as HTMLSelectElement | null;
+        if (filterSelect) filterSelect.value = multiple ? layout.backendFilter ?? '' : '';
+        const groupBySelect = document.getElementById('groupBySelect') as HTMLSelectElement | null;
+        if (groupBySelect) {
+            const backendOption = groupBySelect.querySelector('option[value="backend"]') as HTMLOptionElement | null;
+            if (backendOption) backendOption.hidden = !multiple;
+            groupBySelect.value = this.getGroupBy() ?? '';
+        }
+    }
+
+    private renderGroupHeader(group: { key: string; label: string; backendId: string | null }, collapsed: boolean): HTMLElement {
+        const header = document.createElement('div');
+        header.className = 'camera-group-header';
+        header.classList.toggle('collapsed', collapsed);
+        header.setAttribute('data-group-key', group.key);
+        header.title = collapsed ? 'Click to expand' : 'Click to collapse';
+
+        const toggle = document.createElement('span');
+        toggle.textContent = collapsed ? '▸' : '▾';
+        header.appendChild(toggle);
+        if (group.backendId !== null) {
+            header.setAttribute('data-backend-id', group.backendId);
+            const indicator = document.createElement('span');
+            indicator.className = `status-indicator ${this.backendStates.get(group.backendId) ?? 'connecting'}`;
+            header.appendChild(indicator);
+        }
+        const label = document.createElement('span');
+        label.textContent = group.label;
+        const count = document.createElement('span');
+        count.className = 'group-count';
+        header.append(label, count);
+
+        header.addEventListener('click', () => {
+            const keys = this.settingsStore.getLayout().collapsedGroups ?? [];
+            const next = keys.includes(group.key) ? keys.filter(key => key !== group.key) : [...keys, group.key];
+            this.updateLayout({ collapsedGroups: next.length > 0 ? next : undefined });
+        });
+        return header;
     }
 
     public addCamera(camera: CameraInfo): void {
         if (!this.gridContainer || !this.cardTemplate) return;
 
         // Check if camera card already exists
-        const existingCard = document.querySelector(`[data-camera-id="${camera.ip}"]`);
+        const existingCard = this.getCard(camera.id);
         if (existingCard) {
-            console.log(`Camera card for ${camera.ip} already exists`);
+            console.log(`Camera card for ${camera.id} already exists`);
             return;
         }
 
@@ -33,115 +492,338 @@ export class CameraGridUI {
         const cardElement = cardClone.querySelector('.camera-card') as HTMLElement;
         
         // Set camera ID
-        cardElement.setAttribute('data-camera-id', camera.ip);
+        cardElement.setAttribute('data-camera-id', camera.id);
+        cardElement.setAttribute('data-backend-id', camera.backendId);
+        this.cards.set(camera.id, cardElement);
+        cardElement.classList.toggle('role-viewer', this.viewerBackends.has(camera.backendId));
+        this.cameras.set(camera.id, camera);
+        this.renderBackend(cardElement);
         
         // Populate camera information
         const cameraName = cardElement.querySelector('.camera-name') as HTMLElement;
         const cameraLocation = cardElement.querySelector('.camera-location') as HTMLElement;
+        const cameraTags = cardElement.querySelector('.camera-tags') as HTMLElement;
         const ipAddress = cardElement.querySelector('.ip-address') as HTMLElement;
         const lastUpdate = cardElement.querySelector('.last-update') as HTMLElement;
-        const statusElement = cardElement.querySelector('.camera-status') as HTMLElement;
-        const statusSpan = statusElement.querySelector('span') as HTMLElement;
         const videoPlaceholder = cardElement.querySelector('.video-placeholder') as HTMLElement;
 
-        if (cameraName) cameraName.textContent = `Camera ${camera.ip}`;
-        if (cameraLocation) cameraLocation.textContent = `Location: Unknown`;
+        if (cameraName) {
+            this.bindInlineEdit(cameraName, () => this.settingsStore.get(camera.id).name ?? '', name => {
+                this.settingsStore.update(camera.id, { name: name || undefined });
+            });
+        }
+        if (cameraLocation) {
+            this.bindInlineEdit(cameraLocation, () => this.settingsStore.get(camera.id).location ?? '', location => {
+                this.settingsStore.update(camera.id, { location: location || undefined });
+            });
+        }
+        if (cameraTags) {
+            // Edited as a comma-separated list
+            this.bindInlineEdit(cameraTags, () => (this.settingsStore.get(camera.id).tags ?? []).join(', '), text => {
+                const tags = parseTags(text);
+                this.settingsStore.update(camera.id, { tags: tags.length > 0 ? tags : undefined });
+            });
+        }
+        this.renderSettings(cardElement, camera.id);
         if (ipAddress) ipAddress.textContent = camera.ip;
         if (lastUpdate) lastUpdate.textContent = camera.lastSeen.toLocaleTimeString();
         
         // Update status
-        if (statusElement && statusSpan) {
-            statusElement.className = 'camera-status status-online';
-            statusSpan.textContent = 'Online';
-        }
+        this.renderStatus(cardElement, camera);
 
-        // Store reference to the image container in camera info
         const videoContainer = cardElement.querySelector('.video-container') as HTMLElement;
         if (videoContainer) {
-            // Create img element for displaying frames
-            const imgElement = document.createElement('img');
-            imgElement.style.width = '100%';
-            imgElement.style.height = 'auto';
-            imgElement.style.borderRadius = '4px';
-            imgElement.style.display = 'block';
-            
-            // Hide placeholder and show image
+            // Frames are drawn onto a canvas owned by the frame renderer
+            const frameCanvas = document.createElement('canvas');
+            frameCanvas.className = 'camera-frame';
+
+            // Hide placeholder and show the frame canvas
             if (videoPlaceholder) videoPlaceholder.style.display = 'none';
-            videoContainer.appendChild(imgElement);
-            
-            // Store reference in camera info
-            camera.element = imgElement;
+            videoContainer.appendChild(frameCanvas);
+            this.bindZoomPan(cardElement, videoContainer);
+            this.frameRenderer.register(camera.id, frameCanvas, videoContainer);
+
+            // Cameras streaming WebRTC or MSE play in the video element instead
+            const video = videoContainer.querySelector('.video-stream') as HTMLVideoElement;
+            if (video) {
+                video.classList.add('camera-frame');
+                this.mediaSessions.register(camera.id, video);
+            }
         }
 
-        // Add the card to the grid
-        this.gridContainer.appendChild(cardElement);
+        // Add the card to the grid, honouring the saved order and layout
+        this.insertCard(cardElement, camera.id);
+        this.bindDragReorder(cardElement);
+        this.applyViewMode();
         // Set up callbacks for on/off and stream on/off buttons
         const powerBtn = cardElement.querySelector('.toggle-power-btn') as HTMLButtonElement;
         if (powerBtn) {
-            powerBtn.addEventListener('click', () => {
-                const state = powerBtn.getAttribute('data-state');
-                if (state === 'off') {
-                    powerBtn.setAttribute('data-state', 'on');
-                    (powerBtn.querySelector('.power-on-label') as HTMLElement).style.display = 'none';
-                    (powerBtn.querySelector('.power-off-label') as HTMLElement).style.display = '';
-                    // TODO: send DeviceCommand.On
-                    console.log('Power ON for camera', camera.ip);
-                } else {
-                    powerBtn.setAttribute('data-state', 'off');
-                    (powerBtn.querySelector('.power-on-label') as HTMLElement).style.display = '';
-                    (powerBtn.querySelector('.power-off-label') as HTMLElement).style.display = 'none';
-                    // TODO: send DeviceCommand.Off
-                    console.log('Power OFF for camera', camera.ip);
-                }
+            this.bindCommandToggle(powerBtn, '.power-on-label', '.power-off-label', turnOn => {
+                console.log(`Power ${turnOn ? 'ON' : 'OFF'} for camera`, camera.id);
+                return this.commandChannel.sendCommand(CommandKind.DeviceCommand, {
+                    ...commandTarget(camera),
+                    command: turnOn ? DeviceCommand.On : DeviceCommand.Off
+                });
             });
         }
         const streamBtn = cardElement.querySelector('.toggle-stream-btn') as HTMLButtonElement;
         if (streamBtn) {
-            streamBtn.addEventListener('click', () => {
-                const state = streamBtn.getAttribute('data-state');
-                if (state === 'off') {
-                    streamBtn.setAttribute('data-state', 'on');
-                    (streamBtn.querySelector('.stream-on-label') as HTMLElement).style.display = 'none';
-                    (streamBtn.querySelector('.stream-off-label') as HTMLElement).style.display = '';
-                    // Skeleton: send stream on command to backend
-                    sendStreamCommand(camera.ip, true);
-                    console.log('Stream ON for camera', camera.ip);
+            this.bindCommandToggle(streamBtn, '.stream-on-label', '.stream-off-label', turnOn => {
+                console.log(`Stream ${turnOn ? 'ON' : 'OFF'} for camera`, camera.id);
+                return this.commandChannel.sendCommand(CommandKind.StreamControl, {
+                    ...commandTarget(camera),
+                    action: turnOn ? StreamAction.Start : StreamAction.Stop
+                }).then(result => {
+                    if (result.ok && this.onStreamCommandCallback) {
+                        this.onStreamCommandCallback(camera.id, turnOn);
+                    }
+                    return result;
+                });
+            });
+        }
+        const recordBtn = cardElement.querySelector('.toggle-recording-btn') as HTMLButtonElement;
+        if (recordBtn) {
+            if (!this.recordingManager.isSupported()) {
+                recordBtn.disabled = true;
+                recordBtn.title = 'Recording is not supported in this browser';
+            }
+            recordBtn.addEventListener('click', () => {
+                if (this.recordingManager.isRecording(camera.id)) {
+                    this.recordingManager.stopRecording(camera.id);
                 } else {
-                    streamBtn.setAttribute('data-state', 'off');
-                    (streamBtn.querySelector('.stream-on-label') as HTMLElement).style.display = '';
-                    (streamBtn.querySelector('.stream-off-label') as HTMLElement).style.display = 'none';
-                    // Skeleton: send stream off command to backend
-                    sendStreamCommand(camera.ip, false);
-                    console.log('Stream OFF for camera', camera.ip);
+                    this.recordingManager.startRecording(camera.id, this.settingsStore.getDisplayName(camera.id));
                 }
             });
         }
+        this.bindReplayControls(cardElement, camera);
+        this.bindMotionControls(cardElement, camera);
+        this.bindQualityControls(cardElement, camera);
+        this.bindAudioControls(cardElement, camera);
+        cardElement.querySelector('.focus-btn')?.addEventListener('click', () => this.toggleFocus(camera.id));
+        cardElement.querySelector('.snapshot-btn')?.addEventListener('click', () => {
+            if (this.onSnapshotCallback) {
+                this.onSnapshotCallback(camera.id);
+            }
+        });
+        // Ticking a thumbnail in focus view should not focus it
+        cardElement.querySelector('.camera-select')?.addEventListener('click', event => event.stopPropagation());
+        // In focus view the other cards are thumbnails; clicking one focuses it
+        cardElement.addEventListener('click', () => {
+            if (this.gridContainer.classList.contains('focus-view') && !cardElement.classList.contains('focused')) {
+                this.setViewMode('focus', camera.id);
+            }
+        });
 
-        function sendStreamCommand(cameraIp: string, turnOn: boolean): void {
-            // Send a message to the backend via WebSocket
-            // Assumes wsManager is available globally (set in index.ts)
-            const wsManager = (window as any).wsManager;
-            if (!wsManager || typeof wsManager.sendMessage !== 'function') {
-                console.error('WebSocket manager not available');
-                return;
+        const timeoutInput = cardElement.querySelector('.inactivity-timeout') as HTMLInputElement;
+        if (timeoutInput) {
+            timeoutInput.addEventListener('change', () => {
+                const seconds = Number(timeoutInput.value);
+                this.settingsStore.update(camera.id, {
+                    inactivityTimeoutMs: timeoutInput.value && seconds > 0 ? seconds * 1000 : undefined
+                });
+            });
+        }
+        
+        console.log(`Added camera card for ${camera.id}`);
+    }
+
+    // Make a text element editable in place. Enter saves, Escape cancels.
+    private bindInlineEdit(element: HTMLElement, getValue: () => string, save: (value: string) => void): void {
+        let cancelled = false;
+        element.classList.add('inline-editable');
+        element.title = 'Click to edit';
+
+        element.addEventListener('click', () => {
+            if (element.isContentEditable) return;
+            cancelled = false;
+            element.contentEditable = 'true';
+            element.textContent = getValue();
+            element.focus();
+            document.getSelection()?.selectAllChildren(element);
+        });
+        element.addEventListener('keydown', (event: KeyboardEvent) => {
+            if (event.key === 'Enter') {
+                event.preventDefault();
+                element.blur();
+            } else if (event.key === 'Escape') {
+                cancelled = true;
+                element.blur();
             }
+        });
+        element.addEventListener('blur', () => {
+            element.contentEditable = 'false';
+            const cameraId = element.closest('.camera-card')?.getAttribute('data-camera-id');
+            const value = (element.textContent ?? '').trim();
+            if (!cancelled && value !== getValue()) {
+                save(value);
+            } else if (cameraId) {
+                this.renderSettings(element.closest('.camera-card') as HTMLElement, cameraId);
+            }
+        });
+    }
 
-            // Define a custom message for stream control
-            const command = {
-                kind: 'StreamControl', // Custom kind, backend must handle this
-                payload: {
-                    ip: cameraIp,
-                    action: turnOn ? 'start' : 'stop'
+    // Render the user-configured parts of a card
+    private renderSettings(cardElement: HTMLElement, cameraId: string): void {
+        const settings = this.settingsStore.get(cameraId);
+
+        const cameraName = cardElement.querySelector('.camera-name') as HTMLElement;
+        if (cameraName && !cameraName.isContentEditable) {
+            cameraName.textContent = this.settingsStore.getDisplayName(cameraId);
+        }
+
+        const cameraLocation = cardElement.querySelector('.camera-location') as HTMLElement;
+        if (cameraLocation && !cameraLocation.isContentEditable) {
+            cameraLocation.textContent = settings.location ? `📍 ${settings.location}` : 'Add room…';
+            cameraLocation.classList.toggle('placeholder', !settings.location);
+        }
+
+        const cameraTags = cardElement.querySelector('.camera-tags') as HTMLElement;
+        if (cameraTags && !cameraTags.isContentEditable) {
+            const tags = settings.tags ?? [];
+            cameraTags.textContent = tags.length > 0 ? `🏷️ ${tags.join(', ')}` : 'Add tags…';
+            cameraTags.classList.toggle('placeholder', tags.length === 0);
+        }
+
+        const timeoutInput = cardElement.querySelector('.inactivity-timeout') as HTMLInputElement;
+        if (timeoutInput) {
+            timeoutInput.value = settings.inactivityTimeoutMs !== undefined ? String(settings.inactivityTimeoutMs / 1000) : '';
+        }
+
+        const motion = this.motionDetector.getSettings(cameraId);
+        const enabledInput = cardElement.querySelector('.motion-enabled') as HTMLInputElement;
+        const sensitivityInput = cardElement.querySelector('.motion-sensitivity') as HTMLInputElement;
+        const durationInput = cardElement.querySelector('.motion-min-duration') as HTMLInputElement;
+        if (enabledInput) enabledInput.checked = motion.enabled;
+        if (sensitivityInput) sensitivityInput.value = String(motion.sensitivity);
+        if (durationInput) durationInput.value = String(motion.minDurationMs / 1000);
+
+        this.renderQualitySettings(cardElement, settings.quality ?? DEFAULT_QUALITY_SETTINGS);
+        this.renderAudioSettings(cardElement, settings.audio ?? DEFAULT_AUDIO_SETTINGS);
+    }
+
+    // Re-render settings for one camera, or for all cameras (and their order) when cameraId is null
+    public refreshSettings(cameraId: string | null): void {
+        if (cameraId !== null) {
+            const cardElement = this.getCard(cameraId);
+            if (!cardElement) return;
+            this.renderSettings(cardElement, cameraId);
+
+            // A new room moves the card to another group; a new name or tag can change what the filter shows
+            if (this.getGroupBy() === 'room' || !isFilterEmpty(this.filter)) {
+                if ((this.getGroup(cameraId, this.getRooms())?.key ?? '') !== cardElement.getAttribute('data-group-key')) {
+                    cardElement.remove();
+                    this.insertCard(cardElement, cameraId);
                 }
-            };
-            wsManager.sendMessage(command);
+                this.applyViewMode();
+            }
+            return;
         }
-        
-        console.log(`Added camera card for ${camera.ip}`);
+
+        this.getCards().forEach(card => {
+            const id = card.getAttribute('data-camera-id');
+            if (id) this.renderSettings(card, id);
+        });
+        this.reorderCards();
+        this.applyViewMode();
+    }
+
+    private getCards(): HTMLElement[] {
+        return Array.from(this.gridContainer?.querySelectorAll<HTMLElement>('.camera-card') ?? []);
+    }
+
+    private getOrder(cameraId: string | null): number {
+        return cameraId !== null ? this.settingsStore.get(cameraId).order ?? Infinity : Infinity;
+    }
+
+    // Negative when camera a goes before camera b: by group while grouping, then by order
+    private compareCameras(a: string | null, b: string | null, rooms: string[]): number {
+        const groupIndex = (cameraId: string | null) => cameraId !== null ? this.getGroup(cameraId, rooms)?.index ?? 0 : 0;
+        return groupIndex(a) - groupIndex(b) || this.getOrder(a) - this.getOrder(b);
+    }
+
+    private insertCard(cardElement: HTMLElement, cameraId: string): void {
+        const rooms = this.getRooms();
+        const next = this.getCards().find(card => this.compareCameras(card.getAttribute('data-camera-id'), cameraId, rooms) > 0);
+        this.gridContainer.insertBefore(cardElement, next ?? null);
+    }
+
+    private reorderCards(): void {
+        const cards = this.getCards();
+        const rooms = this.getRooms();
+        cards
+            .map((card, index) => ({ card, index, cameraId: card.getAttribute('data-camera-id') }))
+            .sort((a, b) => this.compareCameras(a.cameraId, b.cameraId, rooms) || a.index - b.index)
+            .forEach(({ card }) => this.gridContainer.appendChild(card));
+    }
+
+    private updateMotionSettings(cameraId: string, changes: Partial<MotionSettings>): void {
+        this.motionDetector.updateSettings(cameraId, changes);
+        this.settingsStore.update(cameraId, { motion: this.motionDetector.getSettings(cameraId) });
+    }
+
+    // Wire a two-state button to a backend command. The button flips optimistically,
+    // stays disabled while the command is pending and rolls back if it fails.
+    private bindCommandToggle(
+        button: HTMLButtonElement,
+        onLabelSelector: string,
+        offLabelSelector: string,
+        send: (turnOn: boolean) => Promise<CommandResult>
+    ): void {
+        const applyState = (state: 'on' | 'off') => this.renderToggle(button, onLabelSelector, offLabelSelector, state);
+
+        button.addEventListener('click', () => {
+            const previousState = button.getAttribute('data-state') === 'on' ? 'on' : 'off';
+            const turnOn = previousState === 'off';
+
+            applyState(turnOn ? 'on' : 'off');
+            button.disabled = true;
+            button.classList.add('pending');
+            button.classList.remove('command-failed');
+            button.removeAttribute('title');
+
+            send(turnOn).then(result => {
+                button.disabled = false;
+                button.classList.remove('pending');
+
+                if (!result.ok) {
+                    applyState(previousState);
+                    button.classList.add('command-failed');
+                    button.title = result.message;
+                }
+            });
+        });
+    }
+
+    private renderToggle(button: HTMLElement, onLabelSelector: string, offLabelSelector: string, state: 'on' | 'off'): void {
+        button.setAttribute('data-state', state);
+        (button.querySelector(onLabelSelector) as HTMLElement).style.display = state === 'on' ? 'none' : '';
+        (button.querySelector(offLabelSelector) as HTMLElement).style.display = state === 'on' ? '' : 'none';
+    }
+
+    // Reflect power and stream changes made outside the card, e.g. by bulk operations
+    public setToggleStates(cameraId: string, powered: boolean, streaming: boolean): void {
+        const cardElement = this.getCard(cameraId);
+        const powerBtn = cardElement?.querySelector('.toggle-power-btn') as HTMLElement;
+        const streamBtn = cardElement?.querySelector('.toggle-stream-btn') as HTMLElement;
+        if (powerBtn) this.renderToggle(powerBtn, '.power-on-label', '.power-off-label', powered ? 'on' : 'off');
+        if (streamBtn) this.renderToggle(streamBtn, '.stream-on-label', '.stream-off-label', streaming ? 'on' : 'off');
+    }
+
+    // Cameras ticked for bulk operations, in grid order
+    public getSelectedCameraIds(): string[] {
+        return this.getCards()
+            .filter(card => (card.querySelector('.camera-select') as HTMLInputElement | null)?.checked)
+            .map(card => card.getAttribute('data-camera-id'))
+            .filter((id): id is string => id !== null);
+    }
+
+    // Called after the backend accepted a stream start or stop from a card
+    public onStreamCommand(callback: (cameraId: string, streaming: boolean) => void): void {
+        this.onStreamCommandCallback = callback;
     }
 
     public updateCamera(camera: CameraInfo): void {
-        const cardElement = document.querySelector(`[data-camera-id="${camera.ip}"]`) as HTMLElement;
+        const cardElement = this.getCard(camera.id);
         if (!cardElement) return;
 
         // Update last update time
@@ -151,30 +833,1640 @@ export class CameraGridUI {
         }
 
         // Update status
+        this.renderStatus(cardElement, camera);
+        this.renderMetrics(cardElement, camera);
+
+        // A status change can move the card in or out of the filter
+        if (!isFilterEmpty(this.filter) && this.isFilteredOut(cardElement) !== cardElement.classList.contains('filtered-out')) {
+            this.applyViewMode();
+        }
+    }
+
+    private renderMetrics(cardElement: HTMLElement, camera: CameraInfo): void {
+        const fields: [string, string][] = [
+            ['.fps', formatFps(camera.metrics)],
+            ['.resolution', formatResolution(camera.metrics)],
+            ['.latency', formatLatency(camera.metrics)],
+            ['.jitter', formatJitter(camera.metrics)],
+            ['.throughput', formatThroughput(camera.metrics)],
+            ['.dropped-frames', `${camera.metrics.droppedFrames} / ${camera.metrics.outOfOrderFrames}`]
+        ];
+
+        fields.forEach(([selector, text]) => {
+            const element = cardElement.querySelector(selector) as HTMLElement;
+            if (element && element.textContent !== text) {
+                element.textContent = text;
+            }
+        });
+    }
+
+    private renderStatus(cardElement: HTMLElement, camera: CameraInfo): void {
         const statusElement = cardElement.querySelector('.camera-status') as HTMLElement;
         const statusSpan = statusElement?.querySelector('span') as HTMLElement;
-        if (statusElement && statusSpan) {
-            if (camera.status === 'Connected') {
-                statusElement.className = 'camera-status status-online';
-                statusSpan.textContent = `Online (${camera.frameCount} frames)`;
+        if (!statusElement || !statusSpan) return;
+
+        let statusClass: string;
+        let statusText: string;
+        switch (camera.status) {
+            case 'Connected':
+                if (camera.inactive) {
+                    // Backend says connected, but nothing has arrived for a while
+                    statusClass = 'status-stale';
+                    statusText = 'No Signal';
+                } else {
+                    statusClass = 'status-online';
+                    statusText = camera.frameCount > 0 ? `Online (${camera.frameCount} frames)` : 'Online';
+                }
+                break;
+            case 'Standby':
+                statusClass = 'status-standby';
+                statusText = 'Standby';
+                break;
+            case 'Error':
+                statusClass = 'status-error';
+                statusText = 'Error';
+                break;
+            case 'Disconnected':
+                statusClass = 'status-offline';
+                statusText = 'Offline';
+                break;
+        }
+
+        statusElement.className = `camera-status ${statusClass}`;
+        statusSpan.textContent = statusText;
+        statusElement.title = `${camera.status} since ${camera.statusChangedAt.toLocaleTimeString()}`;
+    }
+
+    // Reflect the recording state in the card's REC overlay and record button
+    public setRecording(cameraId: string, recording: boolean): void {
+        const cardElement = this.getCard(cameraId);
+        if (!cardElement) return;
+
+        const indicator = cardElement.querySelector('.recording-indicator') as HTMLElement;
+        if (indicator) indicator.style.display = recording ? '' : 'none';
+
+        const recordBtn = cardElement.querySelector('.toggle-recording-btn') as HTMLButtonElement;
+        if (recordBtn) {
+            recordBtn.setAttribute('data-state', recording ? 'on' : 'off');
+            (recordBtn.querySelector('.record-start-label') as HTMLElement).style.display = recording ? 'none' : '';
+            (recordBtn.querySelector('.record-stop-label') as HTMLElement).style.display = recording ? '' : 'none';
+        }
+        cardElement.classList.toggle('recording', recording);
+    }
+
+    private bindReplayControls(cardElement: HTMLElement, camera: CameraInfo): void {
+        const replay = this.replayManager;
+        const bind = (selector: string, handler: () => void) => {
+            cardElement.querySelector(selector)?.addEventListener('click', handler);
+        };
+
+        bind('.replay-btn', () => {
+            if (replay.isReplaying(camera.id)) {
+                replay.stopReplay(camera.id);
+            } else {
+                replay.startReplay(camera.id);
+            }
+        });
+        bind('.replay-live-btn', () => replay.stopReplay(camera.id));
+        bind('.replay-prev-btn', () => replay.step(camera.id, -1));
+        bind('.replay-next-btn', () => replay.step(camera.id, 1));
+        bind('.replay-play-btn', () => {
+            if (replay.getSession(camera.id)?.playing) {
+                replay.pause(camera.id);
             } else {
-                statusElement.className = 'camera-status status-offline';
-                statusSpan.textContent = 'Offline';
+                replay.play(camera.id);
             }
+        });
+
+        const scrubber = cardElement.querySelector('.replay-scrubber') as HTMLInputElement;
+        if (scrubber) {
+            scrubber.addEventListener('input', () => {
+                replay.pause(camera.id);
+                replay.seek(camera.id, Number(scrubber.value));
+            });
         }
     }
 
-    public removeCamera(cameraIp: string): void {
-        const cardElement = document.querySelector(`[data-camera-id="${cameraIp}"]`);
-        if (cardElement) {
-            cardElement.remove();
-            console.log(`Removed camera card for ${cameraIp}`);
+    // Show the replay controls and the selected buffered frame, or hand the card back to live frames
+    private renderReplay(cameraId: string, session: ReplaySession | null): void {
+        const cardElement = this.getCard(cameraId);
+        if (!cardElement) return;
+
+        const controls = cardElement.querySelector('.replay-controls') as HTMLElement;
+        const indicator = cardElement.querySelector('.replay-indicator') as HTMLElement;
+        if (controls) controls.style.display = session ? '' : 'none';
+        if (indicator) indicator.style.display = session ? '' : 'none';
+        cardElement.classList.toggle('replaying', session !== null);
+
+        if (!session) return;
+
+        const frame = session.frames[session.index];
+        const lastFrame = session.frames[session.frames.length - 1];
+        if (frame) {
+            this.frameRenderer.render(cameraId, frame.blob, false);
         }
+
+        const scrubber = cardElement.querySelector('.replay-scrubber') as HTMLInputElement;
+        if (scrubber) {
+            scrubber.max = String(session.frames.length - 1);
+            scrubber.value = String(session.index);
+        }
+
+        const timeLabel = cardElement.querySelector('.replay-time') as HTMLElement;
+        if (timeLabel && frame && lastFrame) {
+            timeLabel.textContent = `-${((lastFrame.receivedAt - frame.receivedAt) / 1000).toFixed(1)}s`;
+        }
+
+        const playBtn = cardElement.querySelector('.replay-play-btn') as HTMLButtonElement;
+        if (playBtn) playBtn.textContent = session.playing ? '⏸' : '▶';
     }
 
-    public clearAll(): void {
-        if (this.gridContainer) {
-            this.gridContainer.innerHTML = '';
+    private bindMotionControls(cardElement: HTMLElement, camera: CameraInfo): void {
+        const motion = this.motionDetector;
+        const panel = cardElement.querySelector('.motion-settings') as HTMLElement;
+        const enabledInput = cardElement.querySelector('.motion-enabled') as HTMLInputElement;
+        const sensitivityInput = cardElement.querySelector('.motion-sensitivity') as HTMLInputElement;
+        const durationInput = cardElement.querySelector('.motion-min-duration') as HTMLInputElement;
+        const videoContainer = cardElement.querySelector('.video-container') as HTMLElement;
+        if (!panel || !enabledInput || !sensitivityInput || !durationInput || !videoContainer) return;
+
+        cardElement.querySelector('.motion-btn')?.addEventListener('click', () => {
+            const open = panel.style.display === 'none';
+            panel.style.display = open ? '' : 'none';
+            if (!open) this.zoneDrafts.delete(camera.id);
+            this.renderZones(cardElement, camera.id, open);
+        });
+
+        enabledInput.addEventListener('change', () => {
+            this.updateMotionSettings(camera.id, { enabled: enabledInput.checked });
+        });
+        sensitivityInput.addEventListener('change', () => {
+            this.updateMotionSettings(camera.id, { sensitivity: Number(sensitivityInput.value) });
+        });
+        durationInput.addEventListener('change', () => {
+            const seconds = Math.max(0, Number(durationInput.value) || 0);
+            this.updateMotionSettings(camera.id, { minDurationMs: seconds * 1000 });
+        });
+
+        const startZone = (kind: MotionZone['kind']) => {
+            this.zoneDrafts.set(camera.id, { kind, points: [] });
+            this.renderZones(cardElement, camera.id, true);
+        };
+        cardElement.querySelector('.motion-include-btn')?.addEventListener('click', () => startZone('include'));
+        cardElement.querySelector('.motion-exclude-btn')?.addEventListener('click', () => startZone('exclude'));
+        cardElement.querySelector('.motion-finish-btn')?.addEventListener('click', () => {
+            const draft = this.zoneDrafts.get(camera.id);
+            this.zoneDrafts.delete(camera.id);
+            if (draft && draft.points.length >= 3) {
+                this.updateMotionSettings(camera.id, { zones: [...motion.getSettings(camera.id).zones, draft] });
+            } else {
+                console.warn('A zone needs at least 3 points');
+            }
+            this.renderZones(cardElement, camera.id, true);
+        });
+        cardElement.querySelector('.motion-clear-btn')?.addEventListener('click', () => {
+            this.zoneDrafts.delete(camera.id);
+            this.updateMotionSettings(camera.id, { zones: [] });
+            this.renderZones(cardElement, camera.id, true);
+        });
+
+        // While drawing, every click on the video adds a vertex
+        videoContainer.addEventListener('click', (event: MouseEvent) => {
+            const draft = this.zoneDrafts.get(camera.id);
+            const frame = this.getFrameElement(cardElement);
+            if (!draft || !frame) return;
+
+            const rect = frame.getBoundingClientRect();
+            if (rect.width === 0 || rect.height === 0) return;
+            draft.points.push({
+                x: Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)),
+                y: Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height))
+            });
+            this.renderZones(cardElement, camera.id, true);
+        });
+    }
+
+    // Draw the motion zones (and the zone being drawn) over the camera image
+    private renderZones(cardElement: HTMLElement, cameraId: string, visible: boolean): void {
+        const svg = cardElement.querySelector('.motion-zones') as SVGSVGElement;
+        const frame = this.getFrameElement(cardElement);
+        const finishBtn = cardElement.querySelector('.motion-finish-btn') as HTMLElement;
+        if (!svg) return;
+
+        const draft = this.zoneDrafts.get(cameraId);
+        if (finishBtn) finishBtn.style.display = draft ? '' : 'none';
+        cardElement.classList.toggle('drawing-zone', draft !== undefined);
+
+        svg.style.display = visible ? '' : 'none';
+        svg.innerHTML = '';
+        if (!visible) return;
+
+        // Zones are relative to the frame, which may not fill the container
+        if (frame) {
+            svg.style.left = `${frame.offsetLeft}px`;
+            svg.style.top = `${frame.offsetTop}px`;
+            svg.style.width = `${frame.offsetWidth}px`;
+            svg.style.height = `${frame.offsetHeight}px`;
+        }
+
+        const addShape = (zone: MotionZone, closed: boolean, className: string) => {
+            const shape = document.createElementNS('http://www.w3.org/2000/svg', closed ? 'polygon' : 'polyline');
+            shape.setAttribute('points', zone.points.map(point => `${point.x},${point.y}`).join(' '));
+            shape.setAttribute('class', `${className} zone-${zone.kind}`);
+            svg.appendChild(shape);
+        };
+        this.motionDetector.getSettings(cameraId).zones.forEach(zone => addShape(zone, true, 'zone'));
+        if (draft) addShape(draft, false, 'zone-draft');
+    }
+
+    private bindQualityControls(cardElement: HTMLElement, camera: CameraInfo): void {
+        const panel = cardElement.querySelector('.quality-settings') as HTMLElement;
+        const modeSelect = cardElement.querySelector('.quality-mode') as HTMLSelectElement;
+        const resolutionSelect = cardElement.querySelector('.quality-resolution') as HTMLSelectElement;
+        const fpsInput = cardElement.querySelector('.quality-fps') as HTMLInputElement;
+        const jpegInput = cardElement.querySelector('.quality-jpeg') as HTMLInputElement;
+        if (!panel || !modeSelect || !resolutionSelect || !fpsInput || !jpegInput) return;
+
+        QUALITY_LEVELS.forEach(level => {
+            const option = document.createElement('option');
+            option.value = `${level.maxWidth}x${level.maxHeight}`;
+            option.textContent = `${level.maxWidth}×${level.maxHeight}`;
+            resolutionSelect.appendChild(option);
+        });
+
+        cardElement.querySelector('.quality-btn')?.addEventListener('click', () => {
+            panel.style.display = panel.style.display === 'none' ? '' : 'none';
+        });
+
+        const save = () => {
+            const [width, height] = resolutionSelect.value.split('x').map(Number);
+            const current = this.settingsStore.get(camera.id).quality ?? DEFAULT_QUALITY_SETTINGS;
+            const quality: QualitySettings = {
+                mode: modeSelect.value as QualityMode,
+                manual: {
+                    maxWidth: width ?? current.manual.maxWidth,
+                    maxHeight: height ?? current.manual.maxHeight,
+                    fps: Math.max(1, Math.min(30, Number(fpsInput.value) || current.manual.fps)),
+                    jpegQuality: Math.max(1, Math.min(100, Number(jpegInput.value) || current.manual.jpegQuality))
+                }
+            };
+            this.settingsStore.update(camera.id, { quality });
+        };
+        [modeSelect, resolutionSelect, fpsInput, jpegInput].forEach(input => input.addEventListener('change', save));
+    }
+
+    private renderQualitySettings(cardElement: HTMLElement, quality: QualitySettings): void {
+        const modeSelect = cardElement.querySelector('.quality-mode') as HTMLSelectElement;
+        const resolutionSelect = cardElement.querySelector('.quality-resolution') as HTMLSelectElement;
+        const fpsInput = cardElement.querySelector('.quality-fps') as HTMLInputElement;
+        const jpegInput = cardElement.querySelector('.quality-jpeg') as HTMLInputElement;
+        if (!modeSelect || !resolutionSelect || !fpsInput || !jpegInput) return;
+
+        modeSelect.value = quality.mode;
+        resolutionSelect.value = `${quality.manual.maxWidth}x${quality.manual.maxHeight}`;
+        fpsInput.value = String(quality.manual.fps);
+        jpegInput.value = String(quality.manual.jpegQuality);
+
+        // The caps only apply in manual mode
+        const manual = quality.mode === 'manual';
+        [resolutionSelect, fpsInput, jpegInput].forEach(input => { input.disabled = !manual; });
+    }
+
+    private bindAudioControls(cardElement: HTMLElement, camera: CameraInfo): void {
+        const muteBtn = cardElement.querySelector('.audio-mute-btn') as HTMLButtonElement;
+        const volumeInput = cardElement.querySelector('.audio-volume') as HTMLInputElement;
+        const thresholdInput = cardElement.querySelector('.audio-threshold') as HTMLInputElement;
+        const talkBtn = cardElement.querySelector('.talk-btn') as HTMLButtonElement;
+        if (!muteBtn || !volumeInput || !thresholdInput || !talkBtn) return;
+
+        const save = (changes: Partial<AudioSettings>) => {
+            const current = this.settingsStore.get(camera.id).audio ?? DEFAULT_AUDIO_SETTINGS;
+            this.settingsStore.update(camera.id, { audio: { ...current, ...changes } });
+        };
+        muteBtn.addEventListener('click', () => {
+            save({ muted: !(this.settingsStore.get(camera.id).audio ?? DEFAULT_AUDIO_SETTINGS).muted });
+        });
+        volumeInput.addEventListener('change', () => save({ volume: Number(volumeInput.value) / 100 }));
+        thresholdInput.addEventListener('change', () => {
+            const threshold = Number(thresholdInput.value);
+            if (thresholdInput.value && threshold >= 1 && threshold <= 100) {
+                save({ loudThreshold: threshold });
+            } else {
+                this.renderSettings(cardElement, camera.id);
+            }
+        });
+
+        // Talk while the button is held
+        if (!PushToTalk.isSupported()) {
+            talkBtn.disabled = true;
+            talkBtn.title = 'Push-to-talk is not supported in this browser';
+            return;
+        }
+        const setTalking = (talking: boolean) => {
+            if (this.onTalkCallback) {
+                this.onTalkCallback(camera.id, talking);
+            }
+        };
+        talkBtn.addEventListener('pointerdown', (event: PointerEvent) => {
+            talkBtn.setPointerCapture(event.pointerId);
+            setTalking(true);
+        });
+        talkBtn.addEventListener('pointerup', () => setTalking(false));
+        talkBtn.addEventListener('pointercancel', () => setTalking(false));
+    }
+
+    private renderAudioSettings(cardElement: HTMLElement, audio: AudioSettings): void {
+        const muteBtn = cardElement.querySelector('.audio-mute-btn') as HTMLButtonElement;
+        const volumeInput = cardElement.querySelector('.audio-volume') as HTMLInputElement;
+        const thresholdInput = cardElement.querySelector('.audio-threshold') as HTMLInputElement;
+        const thresholdMarker = cardElement.querySelector('.audio-meter-threshold') as HTMLElement;
+        if (!muteBtn || !volumeInput || !thresholdInput) return;
+
+        muteBtn.textContent = audio.muted ? '🔇' : '🔊';
+        muteBtn.title = audio.muted ? 'Listen' : 'Mute';
+        volumeInput.value = String(Math.round(audio.volume * 100));
+        volumeInput.disabled = audio.muted;
+        thresholdInput.value = String(audio.loudThreshold);
+        if (thresholdMarker) thresholdMarker.style.left = `${audio.loudThreshold}%`;
+    }
+
+    // Audio level of the latest chunk, 0-100
+    public setAudioLevel(cameraId: string, level: number): void {
+        const cardElement = this.getCard(cameraId);
+        const meter = cardElement?.querySelector('.audio-meter-level') as HTMLElement;
+        if (meter) meter.style.width = `${level}%`;
+    }
+
+    public setLoud(cameraId: string, loud: boolean): void {
+        const cardElement = this.getCard(cameraId);
+        cardElement?.classList.toggle('loud', loud);
+    }
+
+    public setTalking(cameraId: string, talking: boolean): void {
+        const cardElement = this.getCard(cameraId);
+        const talkBtn = cardElement?.querySelector('.talk-btn') as HTMLElement;
+        if (talkBtn) talkBtn.classList.toggle('talking', talking);
+    }
+
+    // Called when a talk button is pressed (true) and released (false)
+    public onTalk(callback: (cameraId: string, talking: boolean) => void): void {
+        this.onTalkCallback = callback;
+    }
+
+    public onSnapshot(callback: (cameraId: string) => void): void {
+        this.onSnapshotCallback = callback;
+    }
+
+    // Show the stream quality the backend last acknowledged for a camera
+    public setAppliedQuality(cameraId: string, text: string): void {
+        const cardElement = this.getCard(cameraId);
+        const label = cardElement?.querySelector('.quality-applied') as HTMLElement;
+        if (label) label.textContent = text;
+    }
+
+    // Switch the card between the JPEG canvas and the video element
+    public setStreamMode(cameraId: string, mode: StreamMode): void {
+        const cardElement = this.getCard(cameraId);
+        if (!cardElement) return;
+
+        cardElement.classList.toggle('video-mode', mode !== 'jpeg');
+        cardElement.title = mode !== 'jpeg' ? `Streaming ${mode === 'webrtc' ? 'WebRTC' : 'MSE'} video` : '';
+        if (cardElement.classList.contains('focused')) this.resetZoom();
+    }
+
+    // The frame renderer lost the card's canvas; cleared once a frame is drawn again
+    public setRenderFailed(cameraId: string, failed: boolean): void {
+        const indicator = this.getCard(cameraId)?.querySelector('.render-failed-indicator') as HTMLElement | null;
+        if (indicator) indicator.style.display = failed ? '' : 'none';
+    }
+
+    public setMotionActive(cameraId: string, active: boolean): void {
+        const cardElement = this.getCard(cameraId);
+        if (!cardElement) return;
+
+        cardElement.classList.toggle('motion', active);
+        const indicator = cardElement.querySelector('.motion-indicator') as HTMLElement;
+        if (indicator) indicator.style.display = active ? '' : 'none';
+    }
+
+    private getCard(cameraId: string): HTMLElement | null {
+        return this.cards.get(cameraId) ?? null;
+    }
+
+    public removeCamera(cameraId: string): void {
+        const cardElement = this.getCard(cameraId);
+        this.cameras.delete(cameraId);
+        this.cards.delete(cameraId);
+        this.frameRenderer.unregister(cameraId);
+        this.mediaSessions.unregister(cameraId);
+        if (cardElement) {
+            cardElement.remove();
+            this.applyViewMode();
+            console.log(`Removed camera card for ${cameraId}`);
+        }
+    }
+
+    public clearAll(): void {
+        this.cameras.clear();
+        this.cards.clear();
+        this.getCards().forEach(card => {
+            const cameraId = card.getAttribute('data-camera-id');
+            if (cameraId) {
+                this.frameRenderer.unregister(cameraId);
+                this.mediaSessions.unregister(cameraId);
+            }
+        });
+        if (this.gridContainer) {
+            this.gridContainer.innerHTML = '';
+        }
+    }
+}
+
+// The filter bar above the grid. A select keeps its value while no known camera
+// has it, so a bookmarked room still shows before its cameras arrive.
+export class CameraFilterUI {
+    private filter: CameraFilter;
+    private searchInput: HTMLInputElement | null;
+    private statusSelect: HTMLSelectElement | null;
+    private roomSelect: HTMLSelectElement | null;
+    private tagSelect: HTMLSelectElement | null;
+    private kindSelect: HTMLSelectElement | null;
+    private onFilterChangedCallback: ((filter: CameraFilter) => void) | null = null;
+
+    constructor(filter: CameraFilter) {
+        this.filter = filter;
+        this.searchInput = document.getElementById('filterSearch') as HTMLInputElement | null;
+        this.statusSelect = document.getElementById('filterStatus') as HTMLSelectElement | null;
+        this.roomSelect = document.getElementById('filterRoom') as HTMLSelectElement | null;
+        this.tagSelect = document.getElementById('filterTag') as HTMLSelectElement | null;
+        this.kindSelect = document.getElementById('filterKind') as HTMLSelectElement | null;
+
+        if (!this.searchInput || !this.statusSelect || !this.roomSelect || !this.tagSelect || !this.kindSelect) {
+            console.error('Filter bar elements not found');
+        }
+
+        if (this.searchInput) this.searchInput.value = filter.search ?? '';
+        if (this.statusSelect) this.statusSelect.value = filter.status ?? '';
+        this.setOptions({ rooms: [], tags: [], kinds: [] });
+
+        this.searchInput?.addEventListener('input', () => this.readInputs());
+        [this.statusSelect, this.roomSelect, this.tagSelect, this.kindSelect].forEach(select => {
+            select?.addEventListener('change', () => this.readInputs());
+        });
+        document.getElementById('clearFiltersBtn')?.addEventListener('click', () => {
+            if (this.searchInput) this.searchInput.value = '';
+            [this.statusSelect, this.roomSelect, this.tagSelect, this.kindSelect].forEach(select => {
+                if (select) select.value = '';
+            });
+            this.readInputs();
+        });
+        this.renderActive();
+    }
+
+    public setOptions(options: FilterOptions): void {
+        this.fillSelect(this.roomSelect, 'All rooms', options.rooms, this.filter.room);
+        this.fillSelect(this.tagSelect, 'All tags', options.tags, this.filter.tag);
+        this.fillSelect(this.kindSelect, 'All kinds', options.kinds, this.filter.kind);
+    }
+
+    public onFilterChanged(callback: (filter: CameraFilter) => void): void {
+        this.onFilterChangedCallback = callback;
+    }
+
+    private fillSelect(select: HTMLSelectElement | null, allText: string, values: string[], selected: string | undefined): void {
+        if (!select) return;
+
+        const all = document.createElement('option');
+        all.value = '';
+        all.textContent = allText;
+        const shown = selected !== undefined && !values.includes(selected) ? [...values, selected] : values;
+        select.replaceChildren(all, ...shown.map(value => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value;
+            return option;
+        }));
+        select.value = selected ?? '';
+    }
+
+    private readInputs(): void {
+        const filter: CameraFilter = {};
+        const search = this.searchInput?.value.trim();
+        if (search) filter.search = search;
+        if (this.statusSelect?.value) filter.status = this.statusSelect.value as CameraStatus;
+        if (this.roomSelect?.value) filter.room = this.roomSelect.value;
+        if (this.tagSelect?.value) filter.tag = this.tagSelect.value;
+        if (this.kindSelect?.value) filter.kind = this.kindSelect.value;
+
+        this.filter = filter;
+        this.renderActive();
+        if (this.onFilterChangedCallback) {
+            this.onFilterChangedCallback(filter);
+        }
+    }
+
+    private renderActive(): void {
+        const clearButton = document.getElementById('clearFiltersBtn');
+        if (clearButton) clearButton.style.display = isFilterEmpty(this.filter) ? 'none' : '';
+    }
+}
+
+// Worst first: the header indicator shows the worst state of all backends
+const BACKEND_STATE_SEVERITY: BackendState[] = ['incompatible', 'failed', 'unauthorized', 'reconnecting', 'connecting', 'paused', 'connected'];
+
+interface BackendStatus {
+    label: string;
+    state: BackendState;
+    retryInSeconds: number;
+}
+
+export class ConnectionStatusUI {
+    private indicator: HTMLElement | null;
+    private statusText: HTMLElement | null;
+    private backends: Map<string, BackendStatus> = new Map();
+
+    constructor() {
+        this.indicator = document.getElementById('connectionIndicator');
+        this.statusText = document.getElementById('connectionStatus');
+
+        if (!this.indicator || !this.statusText) {
+            console.error('Connection status elements not found');
+        }
+    }
+
+    // Update one backend in the header. `retryInSeconds` is only used while reconnecting.
+    public setState(backendId: string, label: string, state: BackendState, retryInSeconds: number = 0): void {
+        this.backends.set(backendId, { label, state, retryInSeconds });
+        this.render();
+    }
+
+    public removeBackend(backendId: string): void {
+        this.backends.delete(backendId);
+        this.render();
+    }
+
+    // Called with each backend that waits for a click: failed, incompatible or signed out
+    public onRetryRequested(callback: (backendId: string) => void): void {
+        const container = this.statusText?.parentElement;
+        if (!container) return;
+
+        container.addEventListener('click', () => {
+            this.backends.forEach((status, backendId) => {
+                if (status.state === 'failed' || status.state === 'incompatible' || status.state === 'unauthorized') {
+                    callback(backendId);
+                }
+            });
+        });
+    }
+
+    private render(): void {
+        const statuses = Array.from(this.backends.values());
+        const worst = BACKEND_STATE_SEVERITY.find(state => statuses.some(status => status.state === state)) ?? 'connecting';
+        if (this.indicator) {
+            this.indicator.classList.remove(...BACKEND_STATE_SEVERITY);
+            this.indicator.classList.add(worst);
+        }
+
+        if (!this.statusText) return;
+        this.statusText.textContent = statuses.length === 1
+            ? this.describe(statuses[0]!)
+            : statuses.map(status => `${status.label}: ${this.describe(status)}`).join(' · ');
+    }
+
+    private describe(status: BackendStatus): string {
+        switch (status.state) {
+            case 'connecting':
+                return 'Connecting...';
+            case 'connected':
+                return 'Connected';
+            case 'reconnecting':
+                return `Reconnecting in ${status.retryInSeconds}s`;
+            case 'failed':
+                return 'Connection failed (click to retry)';
+            case 'incompatible':
+                return 'Incompatible backend (click to retry)';
+            case 'unauthorized':
+                return 'Signed out (click to sign in)';
+            case 'paused':
+                return 'Paused';
+        }
+    }
+}
+
+// The login view, and the signed-in roles in the header. Each backend has its own
+// login; cards of a backend that signed us in as viewer hide their device controls.
+export class LoginUI {
+    private view: HTMLElement | null;
+    private form: HTMLFormElement | null;
+    private titleElement: HTMLElement | null;
+    private usernameInput: HTMLInputElement | null;
+    private passwordInput: HTMLInputElement | null;
+    private viewerInput: HTMLInputElement | null;
+    private messageElement: HTMLElement | null;
+    private sessionElement: HTMLElement | null;
+    private roleElement: HTMLElement | null;
+    private onLoginCallback: ((credentials: LoginCredentials) => void) | null = null;
+    private onCancelCallback: (() => void) | null = null;
+    private onLogoutCallback: (() => void) | null = null;
+
+    constructor() {
+        this.view = document.getElementById('loginView');
+        this.form = document.getElementById('loginForm') as HTMLFormElement | null;
+        this.titleElement = document.getElementById('loginTitle');
+        this.usernameInput = document.getElementById('loginUsername') as HTMLInputElement | null;
+        this.passwordInput = document.getElementById('loginPassword') as HTMLInputElement | null;
+        this.viewerInput = document.getElementById('loginViewer') as HTMLInputElement | null;
+        this.messageElement = document.getElementById('loginMessage');
+        this.sessionElement = document.getElementById('sessionInfo');
+        this.roleElement = document.getElementById('sessionRole');
+
+        if (!this.view || !this.form) {
+            console.error('Login view not found');
+        }
+
+        this.form?.addEventListener('submit', event => {
+            event.preventDefault();
+            const username = this.usernameInput?.value.trim() ?? '';
+            const password = this.passwordInput?.value ?? '';
+            if (!username || !password) {
+                this.setMessage('Enter your username and password');
+                return;
+            }
+
+            this.setMessage('Signing in…');
+            if (this.passwordInput) this.passwordInput.value = '';
+            if (this.onLoginCallback) {
+                this.onLoginCallback({ username, password, viewer: this.viewerInput?.checked ?? false });
+            }
+        });
+        document.getElementById('loginCancelBtn')?.addEventListener('click', () => {
+            this.hide();
+            if (this.onCancelCallback) {
+                this.onCancelCallback();
+            }
+        });
+        document.getElementById('logoutBtn')?.addEventListener('click', () => {
+            if (this.onLogoutCallback) {
+                this.onLogoutCallback();
+            }
+        });
+    }
+
+    // `backendLabel` names the backend that asks; `message` explains why the login is needed
+    public show(backendLabel: string, message: string | null): void {
+        if (this.titleElement) this.titleElement.textContent = `Sign in to ${backendLabel}`;
+        this.setMessage(message);
+        if (this.view) this.view.style.display = '';
+        this.usernameInput?.focus();
+    }
+
+    public hide(): void {
+        if (this.view) this.view.style.display = 'none';
+        this.setMessage(null);
+    }
+
+    // The backends we are signed in to, with their labels when there are several
+    public setSessions(sessions: { label: string | null; role: AuthRole }[]): void {
+        if (this.sessionElement) this.sessionElement.style.display = sessions.length > 0 ? '' : 'none';
+        if (this.roleElement) {
+            this.roleElement.textContent = sessions
+                .map(({ label, role }) => (label ? `${label}: ` : '') + (role === 'viewer' ? '👁️ Viewer (read-only)' : '🔑 Operator'))
+                .join(' · ');
+        }
+    }
+
+    public onLogin(callback: (credentials: LoginCredentials) => void): void {
+        this.onLoginCallback = callback;
+    }
+
+    // The user closed the login view without signing in
+    public onCancel(callback: () => void): void {
+        this.onCancelCallback = callback;
+    }
+
+    public onLogout(callback: () => void): void {
+        this.onLogoutCallback = callback;
+    }
+
+    private setMessage(message: string | null): void {
+        if (!this.messageElement) return;
+        this.messageElement.textContent = message ?? '';
+        this.messageElement.style.display = message ? '' : 'none';
+    }
+}
+
+export class ErrorBannerUI {
+    private container: HTMLElement | null;
+    private messageElement: HTMLElement | null;
+
+    constructor() {
+        this.container = document.getElementById('errorContainer');
+        this.messageElement = document.getElementById('errorMessage');
+
+        if (!this.container || !this.messageElement) {
+            console.error('Error container not found');
+        }
+    }
+
+    public show(message: string): void {
+        if (!this.container || !this.messageElement) return;
+        this.messageElement.textContent = message;
+        this.container.style.display = '';
+    }
+
+    public hide(): void {
+        if (this.container) {
+            this.container.style.display = 'none';
+        }
+    }
+}
+
+
+export type ToastType = 'success' | 'error' | 'warning' | 'info';
+
+export class ToastUI {
+    private container: HTMLElement | null;
+
+    constructor() {
+        this.container = document.getElementById('toastContainer');
+
+        if (!this.container) {
+            console.error('Toast container not found');
+        }
+    }
+
+    public show(message: string, type: ToastType = 'success', duration: number = 5000): void {
+        if (!this.container) return;
+
+        const toast = document.createElement('div');
+        toast.className = `toast ${type}`;
+        toast.textContent = message;
+        this.container.appendChild(toast);
+
+        // Let the toast render off-screen first so the slide-in transition runs
+        requestAnimationFrame(() => toast.classList.add('show'));
+        setTimeout(() => {
+            toast.classList.remove('show');
+            setTimeout(() => toast.remove(), 300);
+        }, duration);
+    }
+}
+
+
+const SNOOZE_MINUTES = [5, 15, 60];
+
+// Active alerts with acknowledge and snooze buttons
+export class AlertListUI {
+    private container: HTMLElement | null;
+    private list: HTMLElement | null;
+    private alertManager: AlertManager;
+
+    constructor(alertManager: AlertManager) {
+        this.alertManager = alertManager;
+        this.container = document.getElementById('alertsContainer');
+        this.list = document.getElementById('alertsList');
+
+        if (!this.container || !this.list) {
+            console.error('Alerts container not found');
+        }
+
+        document.getElementById('acknowledgeAllAlertsBtn')?.addEventListener('click', () => alertManager.acknowledgeAll());
+        alertManager.on('changed', alerts => this.render(alerts));
+    }
+
+    private render(alerts: Alert[]): void {
+        if (!this.container || !this.list) return;
+
+        this.container.style.display = alerts.length > 0 ? '' : 'none';
+        this.list.replaceChildren(...alerts.map(alert => this.renderAlert(alert)));
+    }
+
+    private renderAlert(alert: Alert): HTMLElement {
+        const item = document.createElement('li');
+        item.className = `alert-item severity-${alert.rule.severity}`;
+        item.classList.toggle('acknowledged', alert.acknowledged);
+        item.classList.toggle('snoozed', !alert.acknowledged && !isAlerting(alert));
+
+        const text = document.createElement('span');
+        text.className = 'alert-text';
+        let state = alert.cameraRemoved ? ' · camera removed' : '';
+        if (alert.acknowledged) {
+            state += ' · acknowledged';
+        } else if (alert.snoozedUntil !== null) {
+            state += ` · snoozed until ${new Date(alert.snoozedUntil).toLocaleTimeString()}`;
+        }
+        text.textContent = `${alert.message} (since ${alert.raisedAt.toLocaleTimeString()}${state})`;
+        item.appendChild(text);
+
+        if (!alert.acknowledged) {
+            const ackButton = document.createElement('button');
+            ackButton.className = 'btn btn-success';
+            ackButton.textContent = 'Acknowledge';
+            ackButton.addEventListener('click', () => this.alertManager.acknowledge(alert.key));
+            item.appendChild(ackButton);
+
+            SNOOZE_MINUTES.forEach(minutes => {
+                const snoozeButton = document.createElement('button');
+                snoozeButton.className = 'btn btn-warning';
+                snoozeButton.textContent = `Snooze ${minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`}`;
+                snoozeButton.addEventListener('click', () => this.alertManager.snooze(alert.key, minutes));
+                item.appendChild(snoozeButton);
+            });
+        }
+        return item;
+    }
+}
+
+// Labelled inputs shared by the settings panels
+function checkbox(text: string, checked: boolean, onChange: (checked: boolean) => void): HTMLElement {
+    const label = document.createElement('label');
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = checked;
+    input.addEventListener('change', () => onChange(input.checked));
+    label.append(input, ` ${text}`);
+    return label;
+}
+
+// Only accepts numbers of at least `min`; anything else restores the previous value
+function numberInput(text: string, value: number, min: number, onChange: (value: number) => void): HTMLElement {
+    const label = document.createElement('label');
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = String(min);
+    input.step = String(min);
+    input.value = String(value);
+    input.addEventListener('change', () => {
+        const parsed = Number(input.value);
+        if (input.value && parsed >= min) {
+            onChange(parsed);
+        } else {
+            input.value = String(value);
+        }
+    });
+    label.append(`${text} `, input);
+    return label;
+}
+
+// Marks invalid values and only reports valid, changed ones
+function textInput(text: string, value: string, isValid: (value: string) => boolean, onChange: (value: string) => void): HTMLElement {
+    const label = document.createElement('label');
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.value = value;
+    input.addEventListener('change', () => {
+        const trimmed = input.value.trim();
+        input.classList.toggle('invalid', !isValid(trimmed));
+        if (isValid(trimmed) && trimmed !== value) {
+            onChange(trimmed);
+        }
+    });
+    label.append(`${text} `, input);
+    return label;
+}
+
+// Editor for the alert rules, opened from the header
+export class AlertRulesUI {
+    private panel: HTMLElement | null;
+    private settings: AlertSettings;
+    private onSettingsChangedCallback: ((settings: AlertSettings) => void) | null = null;
+
+    constructor(settings: AlertSettings) {
+        this.settings = settings;
+        this.panel = document.getElementById('alertRulesPanel');
+
+        if (!this.panel) {
+            console.error('Alert rules panel not found');
+            return;
+        }
+
+        const panel = this.panel;
+        document.getElementById('alertRulesBtn')?.addEventListener('click', () => {
+            panel.style.display = panel.style.display === 'none' ? '' : 'none';
+        });
+        this.render();
+    }
+
+    public setSettings(settings: AlertSettings): void {
+        this.settings = settings;
+        this.render();
+    }
+
+    public onSettingsChanged(callback: (settings: AlertSettings) => void): void {
+        this.onSettingsChangedCallback = callback;
+    }
+
+    private change(settings: AlertSettings): void {
+        this.settings = settings;
+        this.render();
+        if (this.onSettingsChangedCallback) {
+            this.onSettingsChangedCallback(settings);
+        }
+    }
+
+    private updateRule(ruleId: string, changes: Partial<AlertRule>): void {
+        this.change({
+            ...this.settings,
+            rules: this.settings.rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule)
+        });
+    }
+
+    private render(): void {
+        if (!this.panel) return;
+
+        const rows = this.settings.rules.map(rule => this.renderRule(rule));
+
+        const options = document.createElement('div');
+        options.className = 'alert-options';
+        options.append(
+            checkbox('Browser notifications', this.settings.notifications, checked => {
+                if (!checked) {
+                    this.change({ ...this.settings, notifications: false });
+                    return;
+                }
+                AlertNotifier.requestNotificationPermission().then(granted => {
+                    if (!granted) console.warn('Notification permission was not granted');
+                    this.change({ ...this.settings, notifications: granted });
+                });
+            }),
+            checkbox('Audible alarm', this.settings.sound, checked => {
+                this.change({ ...this.settings, sound: checked });
+            })
+        );
+
+        this.panel.replaceChildren(...rows, options);
+    }
+
+    private renderRule(rule: AlertRule): HTMLElement {
+        const row = document.createElement('div');
+        row.className = 'alert-rule';
+
+        row.appendChild(checkbox(describeRule(rule), rule.enabled, enabled => this.updateRule(rule.id, { enabled })));
+
+        const severity = document.createElement('select');
+        (['info', 'warning', 'critical'] as AlertSeverity[]).forEach(value => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value;
+            option.selected = value === rule.severity;
+            severity.appendChild(option);
+        });
+        severity.addEventListener('change', () => this.updateRule(rule.id, { severity: severity.value as AlertSeverity }));
+        row.appendChild(severity);
+
+        row.appendChild(numberInput('After (s)', rule.durationSeconds, 1, durationSeconds => {
+            this.updateRule(rule.id, { durationSeconds });
+        }));
+        if (rule.kind === 'low-fps') {
+            row.appendChild(numberInput('Min fps', rule.minFps ?? 0, 0.1, minFps => {
+                this.updateRule(rule.id, { minFps });
+            }));
+        }
+        return row;
+    }
+}
+
+
+// The list of backends: label, address and reconnect policy of each, with its
+// connection state. There is always at least one backend.
+export class BackendsUI {
+    private panel: HTMLElement | null;
+    private backends: BackendConfig[] = [];
+    private states: Map<string, BackendState> = new Map();
+    private readOnlyReason: string | null = null; // Set when the page URL picked the backends
+    private onBackendsChangedCallback: ((backends: BackendConfig[]) => void) | null = null;
+
+    constructor() {
+        this.panel = document.getElementById('backendsPanel');
+
+        if (!this.panel) {
+            console.error('Backends panel not found');
+            return;
+        }
+
+        const panel = this.panel;
+        document.getElementById('backendsBtn')?.addEventListener('click', () => {
+            panel.style.display = panel.style.display === 'none' ? '' : 'none';
+        });
+    }
+
+    public setBackends(backends: BackendConfig[], readOnlyReason: string | null = null): void {
+        this.backends = backends;
+        this.readOnlyReason = readOnlyReason;
+        this.render();
+    }
+
+    public setState(backendId: string, state: BackendState): void {
+        this.states.set(backendId, state);
+        const indicator = this.panel?.querySelector(`.backend-entry[data-backend-id="${backendId}"] .status-indicator`);
+        if (indicator) indicator.className = `status-indicator ${state}`;
+    }
+
+    public onBackendsChanged(callback: (backends: BackendConfig[]) => void): void {
+        this.onBackendsChangedCallback = callback;
+    }
+
+    private change(backends: BackendConfig[]): void {
+        this.backends = backends;
+        this.render();
+        if (this.onBackendsChangedCallback) {
+            this.onBackendsChangedCallback(backends);
+        }
+    }
+
+    private updateBackend(backendId: string, changes: Partial<BackendConfig>): void {
+        this.change(this.backends.map(backend => backend.id === backendId ? { ...backend, ...changes } : backend));
+    }
+
+    private render(): void {
+        if (!this.panel) return;
+
+        const rows = this.backends.map(backend => this.renderBackend(backend));
+        if (this.readOnlyReason) {
+            const note = document.createElement('p');
+            note.className = 'backends-note';
+            note.textContent = this.readOnlyReason;
+            this.panel.replaceChildren(...rows, note);
+            return;
+        }
+
+        const add = document.createElement('div');
+        add.className = 'backend-entry';
+        const label = textInput('Label', '', () => true, () => {});
+        const url = textInput('Address', '', isValidBackendUrl, () => {});
+        const button = document.createElement('button');
+        button.className = 'btn btn-primary';
+        button.textContent = '➕ Add Backend';
+        button.addEventListener('click', () => {
+            const labelValue = (label.querySelector('input') as HTMLInputElement).value.trim();
+            const urlValue = (url.querySelector('input') as HTMLInputElement).value.trim();
+            if (!labelValue || !isValidBackendUrl(urlValue)) return;
+
+            const id = createBackendId(labelValue, this.backends.map(backend => backend.id));
+            this.change([...this.backends, { ...this.backends[0]!, id, label: labelValue, url: urlValue }]);
+        });
+        add.append(label, url, button);
+
+        this.panel.replaceChildren(...rows, add);
+    }
+
+    private renderBackend(backend: BackendConfig): HTMLElement {
+        const row = document.createElement('div');
+        row.className = 'backend-entry';
+        row.setAttribute('data-backend-id', backend.id);
+
+        const indicator = document.createElement('span');
+        indicator.className = `status-indicator ${this.states.get(backend.id) ?? 'connecting'}`;
+        row.appendChild(indicator);
+
+        if (this.readOnlyReason) {
+            row.append(`${backend.label} (${backend.url})`);
+            return row;
+        }
+
+        row.append(
+            textInput('Label', backend.label, label => label.length > 0, label => this.updateBackend(backend.id, { label })),
+            textInput('Address', backend.url, isValidBackendUrl, url => this.updateBackend(backend.id, { url })),
+            numberInput('Max attempts', backend.maxReconnectAttempts, 1, maxReconnectAttempts => {
+                this.updateBackend(backend.id, { maxReconnectAttempts });
+            }),
+            numberInput('Max delay (s)', backend.maxReconnectDelayMs / 1000, 1, seconds => {
+                this.updateBackend(backend.id, { maxReconnectDelayMs: seconds * 1000 });
+            })
+        );
+
+        const remove = document.createElement('button');
+        remove.className = 'btn btn-danger';
+        remove.textContent = 'Remove';
+        remove.disabled = this.backends.length <= 1;
+        remove.addEventListener('click', () => this.change(this.backends.filter(other => other.id !== backend.id)));
+        row.appendChild(remove);
+        return row;
+    }
+}
+
+
+const TIMELINE_DEFAULT_RANGE = 7 * 24 * 60 * 60 * 1000; // Last week
+const TIMELINE_MAX_ROWS = 500;
+
+// "3d 4h", "5h 12m", "42m 5s"
+function formatDuration(ms: number): string {
+    const seconds = Math.round(ms / 1000);
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m ${seconds % 60}s`;
+}
+
+// Value for a datetime-local input, in local time
+function toLocalInputValue(timestamp: number): string {
+    const date = new Date(timestamp);
+    return new Date(timestamp - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+const BULK_STATE_LABELS: Record<BulkDeviceState, string> = {
+    pending: '⏳ Waiting',
+    running: '🔄 Working',
+    done: '✔️ Done',
+    failed: '❌ Failed'
+};
+
+// Confirmation and per-device progress of bulk operations
+export class BulkOperationUI {
+    private panel: HTMLElement | null;
+    private title: HTMLElement | null;
+    private summary: HTMLElement | null;
+    private list: HTMLElement | null;
+    private confirmButton: HTMLButtonElement | null;
+    private retryButton: HTMLButtonElement | null;
+    private closeButton: HTMLButtonElement | null;
+    private getDisplayName: (cameraId: string) => string;
+    private pending: { kind: BulkOperationKind; cameraIds: string[] } | null = null; // Awaiting confirmation
+    private onConfirmCallback: ((kind: BulkOperationKind, cameraIds: string[]) => void) | null = null;
+    private onRetryCallback: (() => void) | null = null;
+
+    constructor(getDisplayName: (cameraId: string) => string) {
+        this.getDisplayName = getDisplayName;
+        this.panel = document.getElementById('bulkOperationPanel');
+        this.title = document.getElementById('bulkOperationTitle');
+        this.summary = document.getElementById('bulkOperationSummary');
+        this.list = document.getElementById('bulkOperationDevices');
+        this.confirmButton = document.getElementById('bulkConfirmBtn') as HTMLButtonElement | null;
+        this.retryButton = document.getElementById('bulkRetryBtn') as HTMLButtonElement | null;
+        this.closeButton = document.getElementById('bulkCloseBtn') as HTMLButtonElement | null;
+
+        if (!this.panel) {
+            console.error('Bulk operation panel not found');
+        }
+
+        this.confirmButton?.addEventListener('click', () => {
+            const pending = this.pending;
+            this.pending = null;
+            if (pending && this.onConfirmCallback) {
+                this.onConfirmCallback(pending.kind, pending.cameraIds);
+            }
+        });
+        this.retryButton?.addEventListener('click', () => {
+            if (this.onRetryCallback) {
+                this.onRetryCallback();
+            }
+        });
+        this.closeButton?.addEventListener('click', () => {
+            this.pending = null;
+            if (this.panel) this.panel.style.display = 'none';
+        });
+    }
+
+    // Ask before running an operation; it runs once the user confirms
+    public confirm(kind: BulkOperationKind, cameraIds: string[], selected: boolean): void {
+        this.pending = { kind, cameraIds };
+        const scope = selected ? `the ${cameraIds.length} selected camera(s)` : `all ${cameraIds.length} camera(s)`;
+
+        if (this.title) this.title.textContent = `${describeBulkOperation(kind)}?`;
+        if (this.summary) {
+            this.summary.textContent = kind === 'emergency-stop'
+                ? `This stops the streams of ${scope} and powers them off.`
+                : `This applies to ${scope}.`;
+        }
+        this.list?.replaceChildren(...cameraIds.map(cameraId => this.renderDevice(cameraId, null)));
+        this.setButtons(true, false, true);
+        if (this.closeButton) this.closeButton.textContent = 'Cancel';
+        if (this.panel) this.panel.style.display = '';
+    }
+
+    public render(operation: BulkOperation): void {
+        this.pending = null;
+        const done = countBulkDevices(operation, 'done');
+        const failed = countBulkDevices(operation, 'failed');
+        const total = operation.devices.length;
+
+        if (this.title) this.title.textContent = describeBulkOperation(operation.kind);
+        if (this.summary) {
+            this.summary.textContent = operation.finished
+                ? `Finished: ${done} of ${total} succeeded${failed > 0 ? `, ${failed} failed` : ''}`
+                : `Working… ${done + failed} of ${total} handled`;
+        }
+        this.list?.replaceChildren(...operation.devices.map(device => {
+            const item = this.renderDevice(device.cameraId, BULK_STATE_LABELS[device.state]);
+            item.classList.add(`bulk-${device.state}`);
+            if (device.message) {
+                const message = document.createElement('span');
+                message.className = 'bulk-device-message';
+                message.textContent = device.message;
+                item.appendChild(message);
+            }
+            return item;
+        }));
+        this.setButtons(false, operation.finished && failed > 0, operation.finished);
+        if (this.closeButton) this.closeButton.textContent = 'Close';
+        if (this.panel) this.panel.style.display = '';
+    }
+
+    public onConfirm(callback: (kind: BulkOperationKind, cameraIds: string[]) => void): void {
+        this.onConfirmCallback = callback;
+    }
+
+    public onRetry(callback: () => void): void {
+        this.onRetryCallback = callback;
+    }
+
+    private renderDevice(cameraId: string, state: string | null): HTMLElement {
+        const item = document.createElement('li');
+        item.className = 'bulk-device';
+        const name = document.createElement('span');
+        name.className = 'bulk-device-name';
+        name.textContent = this.getDisplayName(cameraId);
+        item.appendChild(name);
+        if (state !== null) {
+            const label = document.createElement('span');
+            label.className = 'bulk-device-state';
+            label.textContent = state;
+            item.appendChild(label);
+        }
+        return item;
+    }
+
+    private setButtons(confirm: boolean, retry: boolean, close: boolean): void {
+        if (this.confirmButton) this.confirmButton.style.display = confirm ? '' : 'none';
+        if (this.retryButton) this.retryButton.style.display = retry ? '' : 'none';
+        if (this.closeButton) this.closeButton.style.display = close ? '' : 'none';
+    }
+}
+
+// Event timeline panel with filters, export and an uptime summary
+export class TimelineUI {
+    private panel: HTMLElement | null;
+    private store: TimelineStore;
+    private getCameraIds: () => string[];
+    private getDisplayName: (cameraId: string) => string;
+    private cameraSelect: HTMLSelectElement | null;
+    private fromInput: HTMLInputElement | null;
+    private toInput: HTMLInputElement | null;
+    private typeInputs: Map<TimelineEventType, HTMLInputElement> = new Map();
+    private retentionInput: HTMLInputElement | null;
+    private onRetentionChangedCallback: ((days: number) => void) | null = null;
+
+    constructor(store: TimelineStore, getCameraIds: () => string[], getDisplayName: (cameraId: string) => string) {
+        this.store = store;
+        this.getCameraIds = getCameraIds;
+        this.getDisplayName = getDisplayName;
+        this.panel = document.getElementById('timelinePanel');
+        this.cameraSelect = document.getElementById('timelineCamera') as HTMLSelectElement | null;
+        this.fromInput = document.getElementById('timelineFrom') as HTMLInputElement | null;
+        this.toInput = document.getElementById('timelineTo') as HTMLInputElement | null;
+        this.retentionInput = document.getElementById('timelineRetention') as HTMLInputElement | null;
+
+        if (!this.panel) {
+            console.error('Timeline panel not found');
+            return;
+        }
+
+        const typesContainer = document.getElementById('timelineTypes');
+        TIMELINE_EVENT_TYPES.forEach(type => {
+            const label = document.createElement('label');
+            const input = document.createElement('input');
+            input.type = 'checkbox';
+            input.checked = true;
+            label.append(input, ` ${type}`);
+            typesContainer?.appendChild(label);
+            this.typeInputs.set(type, input);
+        });
+
+        const panel = this.panel;
+        document.getElementById('timelineBtn')?.addEventListener('click', () => {
+            const opening = panel.style.display === 'none';
+            panel.style.display = opening ? '' : 'none';
+            if (opening) this.open();
+        });
+        document.getElementById('timelineApplyBtn')?.addEventListener('click', () => this.refresh());
+        document.getElementById('timelineExportCsvBtn')?.addEventListener('click', () => this.exportEvents('csv'));
+        document.getElementById('timelineExportJsonBtn')?.addEventListener('click', () => this.exportEvents('json'));
+
+        this.retentionInput?.addEventListener('change', () => {
+            const days = Math.round(Number(this.retentionInput?.value));
+            if (days >= 1 && this.onRetentionChangedCallback) {
+                this.onRetentionChangedCallback(days);
+            } else if (this.retentionInput) {
+                this.retentionInput.value = String(this.store.getRetentionDays());
+            }
+        });
+    }
+
+    public onRetentionChanged(callback: (days: number) => void): void {
+        this.onRetentionChangedCallback = callback;
+    }
+
+    private open(): void {
+        const now = Date.now();
+        if (this.fromInput && !this.fromInput.value) this.fromInput.value = toLocalInputValue(now - TIMELINE_DEFAULT_RANGE);
+        if (this.toInput) this.toInput.value = toLocalInputValue(now);
+        if (this.retentionInput) this.retentionInput.value = String(this.store.getRetentionDays());
+
+        if (this.cameraSelect) {
+            const selected = this.cameraSelect.value;
+            const options = this.getCameraIds().map(cameraId => {
+                const option = document.createElement('option');
+                option.value = cameraId;
+                option.textContent = this.getDisplayName(cameraId);
+                return option;
+            });
+            const all = document.createElement('option');
+            all.value = '';
+            all.textContent = 'All cameras';
+            this.cameraSelect.replaceChildren(all, ...options);
+            this.cameraSelect.value = selected;
+        }
+        this.refresh();
+    }
+
+    private getFilter(): TimelineFilter {
+        const filter: TimelineFilter = {
+            types: TIMELINE_EVENT_TYPES.filter(type => this.typeInputs.get(type)?.checked)
+        };
+        if (this.cameraSelect?.value) filter.cameraId = this.cameraSelect.value;
+        if (this.fromInput?.value) filter.from = new Date(this.fromInput.value).getTime();
+        if (this.toInput?.value) filter.to = new Date(this.toInput.value).getTime();
+        return filter;
+    }
+
+    private refresh(): void {
+        const filter = this.getFilter();
+
+        this.store.query(filter).then(events => this.renderEvents(events))
+            .catch(error => console.error('Failed to load timeline:', error));
+
+        // Uptime needs the state before the range starts, so read everything up to its end
+        const to = filter.to ?? Date.now();
+        const from = filter.from ?? to - TIMELINE_DEFAULT_RANGE;
+        this.store.query({ to }).then(events => {
+            const summaries = computeUptime(events, from, to)
+                .filter(summary => filter.cameraId === undefined || summary.cameraId === filter.cameraId);
+            this.renderUptime(summaries);
+        }).catch(error => console.error('Failed to compute uptime:', error));
+    }
+
+    private renderEvents(events: TimelineEvent[]): void {
+        const body = document.getElementById('timelineTableBody');
+        const count = document.getElementById('timelineCount');
+        if (!body) return;
+
+        if (count) {
+            count.textContent = events.length > TIMELINE_MAX_ROWS
+                ? `(newest ${TIMELINE_MAX_ROWS} of ${events.length})`
+                : `(${events.length})`;
+        }
+        const rows = events.slice(-TIMELINE_MAX_ROWS).reverse().map(event => this.row([
+            new Date(event.timestamp).toLocaleString(),
+            event.cameraId !== null ? this.getDisplayName(event.cameraId) : '—',
+            event.type,
+            event.message
+        ]));
+        body.replaceChildren(...rows);
+    }
+
+    private renderUptime(summaries: UptimeSummary[]): void {
+        const body = document.getElementById('uptimeTableBody');
+        if (!body) return;
+
+        const rows = summaries.map(summary => {
+            const ratio = uptimeRatio(summary);
+            return this.row([
+                this.getDisplayName(summary.cameraId),
+                ratio !== null ? `${(ratio * 100).toFixed(2)}%` : '—',
+                formatDuration(summary.upMs),
+                formatDuration(summary.downMs),
+                formatDuration(summary.unknownMs),
+                String(summary.outages)
+            ]);
+        });
+        body.replaceChildren(...rows);
+    }
+
+    private row(cells: string[]): HTMLTableRowElement {
+        const row = document.createElement('tr');
+        cells.forEach(text => {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+        });
+        return row;
+    }
+
+    private exportEvents(format: 'csv' | 'json'): void {
+        this.store.query(this.getFilter()).then(events => {
+            const blob = format === 'csv'
+                ? new Blob([timelineToCsv(events)], { type: 'text/csv' })
+                : new Blob([JSON.stringify(events, null, 2)], { type: 'application/json' });
+            downloadBlob(blob, recordingFileName('nestrest-timeline', new Date(), format));
+            console.log(`Exported ${events.length} timeline events as ${format.toUpperCase()}`);
+        }).catch(error => console.error('Failed to export timeline:', error));
+    }
+}
+
+
+// Gallery of the saved snapshots, newest first
+export class SnapshotGalleryUI {
+    private panel: HTMLElement | null;
+    private list: HTMLElement | null;
+    private store: SnapshotStore;
+    private objectUrls: string[] = []; // Released on every render
+    private onSnapshotOnAlertChangedCallback: ((enabled: boolean) => void) | null = null;
+
+    constructor(store: SnapshotStore, snapshotOnAlert: boolean) {
+        this.store = store;
+        this.panel = document.getElementById('snapshotsPanel');
+        this.list = document.getElementById('snapshotList');
+
+        if (!this.panel) {
+            console.error('Snapshots panel not found');
+            return;
+        }
+
+        const panel = this.panel;
+        document.getElementById('snapshotsBtn')?.addEventListener('click', () => {
+            const opening = panel.style.display === 'none';
+            panel.style.display = opening ? '' : 'none';
+            if (opening) this.refresh();
+        });
+
+        const onAlertInput = document.getElementById('snapshotOnAlertInput') as HTMLInputElement | null;
+        if (onAlertInput) {
+            onAlertInput.checked = snapshotOnAlert;
+            onAlertInput.addEventListener('change', () => {
+                if (this.onSnapshotOnAlertChangedCallback) {
+                    this.onSnapshotOnAlertChangedCallback(onAlertInput.checked);
+                }
+            });
+        }
+
+        const limitHint = document.getElementById('snapshotLimitHint');
+        if (limitHint) {
+            limitHint.textContent = `Only the newest ${MAX_ALERT_SNAPSHOTS} alert snapshots without a note are kept. ` +
+                'Snapshots taken by hand or given a note stay until you delete them.';
+        }
+
+        this.store.onChanged(() => {
+            if (panel.style.display !== 'none') this.refresh();
+        });
+    }
+
+    public onSnapshotOnAlertChanged(callback: (enabled: boolean) => void): void {
+        this.onSnapshotOnAlertChangedCallback = callback;
+    }
+
+    private refresh(): void {
+        this.store.list().then(snapshots => this.render(snapshots))
+            .catch(error => console.error('Failed to load snapshots:', error));
+    }
+
+    private render(snapshots: Snapshot[]): void {
+        if (!this.list) return;
+
+        this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+        this.objectUrls = [];
+
+        const count = document.getElementById('snapshotCount');
+        if (count) count.textContent = `(${snapshots.length})`;
+
+        if (snapshots.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'snapshots-empty';
+            empty.textContent = 'No snapshots yet. Use 📸 on a camera card to take one.';
+            this.list.replaceChildren(empty);
+            return;
+        }
+        this.list.replaceChildren(...snapshots.map(snapshot => this.renderSnapshot(snapshot)));
+    }
+
+    private renderSnapshot(snapshot: Snapshot): HTMLElement {
+        const item = document.createElement('div');
+        item.className = 'snapshot-item';
+
+        // The thumbnail opens the full image
+        const link = document.createElement('a');
+        link.href = this.objectUrl(snapshot.image);
+        link.target = '_blank';
+        link.title = `${snapshot.width}×${snapshot.height}`;
+        const thumbnail = document.createElement('img');
+        thumbnail.className = 'snapshot-thumbnail';
+        thumbnail.src = this.objectUrl(snapshot.thumbnail);
+        thumbnail.alt = `${snapshot.cameraName} at ${new Date(snapshot.takenAt).toLocaleString()}`;
+        link.appendChild(thumbnail);
+
+        const caption = document.createElement('div');
+        caption.className = 'snapshot-caption';
+        caption.textContent = `${snapshot.cameraName} · ${new Date(snapshot.takenAt).toLocaleString()}`;
+        if (snapshot.alert !== null) {
+            const alert = document.createElement('div');
+            alert.className = 'snapshot-alert';
+            alert.textContent = `🔔 ${snapshot.alert}`;
+            caption.appendChild(alert);
+        }
+
+        const note = document.createElement('textarea');
+        note.className = 'snapshot-note';
+        note.rows = 2;
+        note.placeholder = 'Add a note…';
+        note.value = snapshot.note;
+        note.addEventListener('change', () => {
+            if (snapshot.id === undefined) return;
+            this.store.setNote(snapshot.id, note.value.trim())
+                .catch(error => console.error('Failed to save snapshot note:', error));
+        });
+
+        const download = document.createElement('button');
+        download.className = 'btn btn-primary';
+        download.textContent = '⬇️ Download';
+        download.addEventListener('click', () => {
+            downloadBlob(snapshot.image, recordingFileName(snapshot.cameraName, new Date(snapshot.takenAt), 'jpg'));
+        });
+
+        const remove = document.createElement('button');
+        remove.className = 'btn btn-danger';
+        remove.textContent = 'Delete';
+        remove.addEventListener('click', () => {
+            if (snapshot.id === undefined) return;
+            this.store.remove(snapshot.id).catch(error => console.error('Failed to delete snapshot:', error));
+        });
+
+        const actions = document.createElement('div');
+        actions.className = 'snapshot-actions';
+        actions.append(download, remove);
+
+        item.append(link, caption, note, actions);
+        return item;
+    }
+
+    private objectUrl(blob: Blob): string {
+        const url = URL.createObjectURL(blob);
+        this.objectUrls.push(url);
+        return url;
+    }
+}
+
+
+// Controls for playing back a traffic capture
+export class CapturePlaybackUI {
+    private bar: HTMLElement | null;
+    private playButton: HTMLButtonElement | null;
+    private speedSelect: HTMLSelectElement | null;
+    private progress: HTMLElement | null;
+    private transport: CapturePlaybackTransport | null = null;
+    private onExitCallback: (() => void) | null = null;
+
+    constructor() {
+        this.bar = document.getElementById('capturePlaybackBar');
+        this.playButton = document.getElementById('playbackPlayBtn') as HTMLButtonElement | null;
+        this.speedSelect = document.getElementById('playbackSpeed') as HTMLSelectElement | null;
+        this.progress = document.getElementById('playbackProgress');
+
+        if (!this.bar) {
+            console.error('Capture playback bar not found');
+        }
+
+        this.playButton?.addEventListener('click', () => {
+            if (this.transport?.getProgress().playing) {
+                this.transport.pause();
+            } else {
+                this.transport?.play();
+            }
+        });
+        document.getElementById('playbackStepBtn')?.addEventListener('click', () => this.transport?.step());
+        this.speedSelect?.addEventListener('change', () => this.transport?.setSpeed(Number(this.speedSelect?.value)));
+        document.getElementById('playbackExitBtn')?.addEventListener('click', () => {
+            if (this.onExitCallback) {
+                this.onExitCallback();
+            }
+        });
+    }
+
+    public show(transport: CapturePlaybackTransport): void {
+        this.transport = transport;
+        transport.onProgress(progress => this.render(progress));
+        if (this.speedSelect) transport.setSpeed(Number(this.speedSelect.value));
+        this.render(transport.getProgress());
+        if (this.bar) this.bar.style.display = '';
+    }
+
+    public hide(): void {
+        this.transport?.pause();
+        this.transport = null;
+        if (this.bar) this.bar.style.display = 'none';
+    }
+
+    public onExit(callback: () => void): void {
+        this.onExitCallback = callback;
+    }
+
+    private render(progress: PlaybackProgress): void {
+        if (this.playButton) {
+            this.playButton.textContent = progress.playing ? '⏸️ Pause' : '▶️ Play';
+        }
+        if (this.progress) {
+            this.progress.textContent = `${progress.position}/${progress.total} messages, ` +
+                `${(progress.elapsedMs / 1000).toFixed(1)}s of ${(progress.durationMs / 1000).toFixed(1)}s`;
         }
     }
-}
\ No newline at end of file
+}